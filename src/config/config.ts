@@ -8,11 +8,48 @@ const envVarsSchema = Joi.object({
   PORT: Joi.number().default(3000),
   MONGODB_URI: Joi.string().required().description('MongoDB connection URI'),
   JWT_SECRET: Joi.string().required().description('JWT secret key'),
-  JWT_EXPIRES_IN: Joi.string().default('7d'),
+  JWT_EXPIRES_IN: Joi.string().default('15m'),
+  REFRESH_TOKEN_EXPIRES_IN_DAYS: Joi.number().integer().min(1).default(30),
   CORS_ORIGIN: Joi.string().default('http://localhost:3000'),
   RATE_LIMIT_WINDOW_MS: Joi.number().default(15 * 60 * 1000), // 15 minutes
   RATE_LIMIT_MAX_REQUESTS: Joi.number().default(100),
   LOG_LEVEL: Joi.string().valid('error', 'warn', 'info', 'debug').default('info'),
+  APP_URL: Joi.string().uri().default('http://localhost:3000').description('Base URL for links'),
+  MAIL_TRANSPORT: Joi.string().valid('smtp', 'file', 'memory'),
+  MAIL_FROM: Joi.string().default('Collaborative Notes <no-reply@example.com>'),
+  MAIL_FILE_DIR: Joi.string().default('tmp/mail'),
+  SMTP_HOST: Joi.string().when('MAIL_TRANSPORT', { is: 'smtp', then: Joi.required() }),
+  SMTP_PORT: Joi.number().default(587),
+  SMTP_SECURE: Joi.boolean().default(false),
+  SMTP_USER: Joi.string(),
+  SMTP_PASS: Joi.string(),
+  PASSWORD_RESET_EXPIRES_IN: Joi.string().default('1h'),
+  EMAIL_VERIFICATION_EXPIRES_IN: Joi.string().default('2d'),
+  COLLAB_HISTORY_LIMIT: Joi.number().integer().min(1).default(500),
+  AUTOSAVE_DEBOUNCE_MS: Joi.number().integer().min(0).default(2000),
+  AUTOSAVE_MAX_WAIT_MS: Joi.number().integer().min(0).default(10000),
+  VERSION_SNAPSHOT_INTERVAL: Joi.number().integer().min(1).default(20),
+  VERSION_MAX_COUNT: Joi.number().integer().min(1).default(50),
+  VERSION_MAX_AGE_DAYS: Joi.number().integer().min(0).default(0), // 0 keeps versions forever
+  TRASH_RETENTION_DAYS: Joi.number().integer().min(1).default(30),
+  TRASH_PURGE_INTERVAL_MINUTES: Joi.number().integer().min(1).default(60),
+  STORAGE_DRIVER: Joi.string().valid('local', 'memory'),
+  STORAGE_DIR: Joi.string().default('uploads'),
+  ATTACHMENT_MAX_SIZE_MB: Joi.number().min(0).default(10),
+  ATTACHMENT_ALLOWED_TYPES: Joi.string().default(
+    'image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain,text/markdown'
+  ),
+  ATTACHMENT_THUMBNAIL_SIZE: Joi.number().integer().min(16).default(256),
+  STORAGE_QUOTA_MB: Joi.number().min(0).default(100),
+  EXPORT_RETENTION_HOURS: Joi.number().min(1).default(24),
+  IMPORT_MAX_SIZE_MB: Joi.number().min(0).default(50),
+  IMPORT_MAX_NOTES: Joi.number().integer().min(1).default(1000),
+  SOCKET_ADAPTER: Joi.string().valid('memory', 'mongo').default('memory'),
+  PRESENCE_HEARTBEAT_SECONDS: Joi.number().integer().min(1).default(10),
+  PRESENCE_STALE_SECONDS: Joi.number().integer().min(1).default(30),
+  PRESENCE_IDLE_SECONDS: Joi.number().integer().min(1).default(60),
+  PRESENCE_AWAY_SECONDS: Joi.number().integer().min(1).default(90),
+  TYPING_TIMEOUT_SECONDS: Joi.number().integer().min(1).default(5),
 }).unknown();
 
 const { error, value: envVars } = envVarsSchema.validate(process.env);
@@ -28,9 +65,73 @@ export const config = {
   jwt: {
     secret: envVars.JWT_SECRET,
     expiresIn: envVars.JWT_EXPIRES_IN,
+    refreshExpiresInDays: envVars.REFRESH_TOKEN_EXPIRES_IN_DAYS,
   },
   corsOrigin: envVars.CORS_ORIGIN,
   rateLimitWindowMs: envVars.RATE_LIMIT_WINDOW_MS,
   rateLimitMaxRequests: envVars.RATE_LIMIT_MAX_REQUESTS,
   logLevel: envVars.LOG_LEVEL,
+  appUrl: envVars.APP_URL,
+  mail: {
+    // Tests keep mail in memory, development writes it to disk unless SMTP is configured
+    transport: envVars.MAIL_TRANSPORT || (envVars.NODE_ENV === 'test' ? 'memory' : 'file'),
+    from: envVars.MAIL_FROM,
+    fileDir: envVars.MAIL_FILE_DIR,
+    smtp: {
+      host: envVars.SMTP_HOST,
+      port: envVars.SMTP_PORT,
+      secure: envVars.SMTP_SECURE,
+      user: envVars.SMTP_USER,
+      pass: envVars.SMTP_PASS,
+    },
+  },
+  tokens: {
+    passwordResetExpiresIn: envVars.PASSWORD_RESET_EXPIRES_IN,
+    emailVerificationExpiresIn: envVars.EMAIL_VERIFICATION_EXPIRES_IN,
+  },
+  collab: {
+    historyLimit: envVars.COLLAB_HISTORY_LIMIT,
+    autosaveDebounceMs: envVars.AUTOSAVE_DEBOUNCE_MS,
+    autosaveMaxWaitMs: envVars.AUTOSAVE_MAX_WAIT_MS,
+  },
+  versions: {
+    snapshotInterval: envVars.VERSION_SNAPSHOT_INTERVAL,
+    maxCount: envVars.VERSION_MAX_COUNT,
+    maxAgeDays: envVars.VERSION_MAX_AGE_DAYS,
+  },
+  trash: {
+    retentionDays: envVars.TRASH_RETENTION_DAYS,
+    purgeIntervalMinutes: envVars.TRASH_PURGE_INTERVAL_MINUTES,
+  },
+  storage: {
+    // Tests keep files in memory, like mail
+    driver: envVars.STORAGE_DRIVER || (envVars.NODE_ENV === 'test' ? 'memory' : 'local'),
+    dir: envVars.STORAGE_DIR,
+    quotaBytes: Math.round(envVars.STORAGE_QUOTA_MB * 1024 * 1024),
+  },
+  attachments: {
+    maxSizeBytes: Math.round(envVars.ATTACHMENT_MAX_SIZE_MB * 1024 * 1024),
+    allowedTypes: (envVars.ATTACHMENT_ALLOWED_TYPES as string)
+      .split(',')
+      .map((type) => type.trim())
+      .filter(Boolean),
+    thumbnailSize: envVars.ATTACHMENT_THUMBNAIL_SIZE,
+  },
+  exports: {
+    retentionHours: envVars.EXPORT_RETENTION_HOURS,
+  },
+  imports: {
+    maxSizeBytes: Math.round(envVars.IMPORT_MAX_SIZE_MB * 1024 * 1024),
+    maxNotes: envVars.IMPORT_MAX_NOTES,
+  },
+  sockets: {
+    // mongo shares rooms and presence between instances
+    adapter: envVars.SOCKET_ADAPTER,
+    heartbeatSeconds: envVars.PRESENCE_HEARTBEAT_SECONDS,
+    staleAfterSeconds: envVars.PRESENCE_STALE_SECONDS,
+    // Client activity: idle without input, away without presence heartbeats
+    idleAfterSeconds: envVars.PRESENCE_IDLE_SECONDS,
+    awayAfterSeconds: envVars.PRESENCE_AWAY_SECONDS,
+    typingTimeoutSeconds: envVars.TYPING_TIMEOUT_SECONDS,
+  },
 };
\ No newline at end of file
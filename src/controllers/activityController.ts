@@ -0,0 +1,88 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Note from '@/models/Note';
+import { ACTIVITY_ACTIONS, ActivityAction } from '@/models/Activity';
+import { AuthRequest } from '@/middleware/auth';
+import { createError, asyncHandler } from '@/middleware/errorHandler';
+import {
+  ActivityFilters,
+  ActivityPage,
+  listNoteActivity,
+  listAccountActivity,
+} from '@/services/activityService';
+import { parseDate } from '@/utils/query';
+
+// ?action=a,b&actor=<userId>&from=<date>&to=<date>
+const parseFilters = (query: AuthRequest['query']): ActivityFilters => {
+  const { action, actor, from, to } = query;
+
+  const actions = action ? String(action).split(',') : undefined;
+  if (actions?.some((a) => !ACTIVITY_ACTIONS.includes(a as ActivityAction))) {
+    throw createError(`action must be one of ${ACTIVITY_ACTIONS.join(', ')}`, 400);
+  }
+
+  if (actor !== undefined && !mongoose.Types.ObjectId.isValid(String(actor))) {
+    throw createError('Invalid actor ID', 400);
+  }
+
+  return {
+    actions: actions as ActivityAction[] | undefined,
+    actor: actor === undefined ? undefined : String(actor),
+    from: parseDate(from, 'from'),
+    to: parseDate(to, 'to'),
+  };
+};
+
+const parsePage = (query: AuthRequest['query']): ActivityPage => {
+  const { page = 1, limit = 20 } = query;
+  return {
+    page: Math.max(Number(page) || 1, 1),
+    limit: Math.min(Math.max(Number(limit) || 20, 1), 100),
+  };
+};
+
+const respond = (
+  res: Response,
+  page: ActivityPage,
+  result: Awaited<ReturnType<typeof listNoteActivity>>
+) => {
+  res.json({
+    success: true,
+    data: {
+      activity: result.activity,
+      pagination: {
+        page: page.page,
+        limit: page.limit,
+        total: result.total,
+        pages: Math.ceil(result.total / page.limit),
+      },
+    },
+  });
+};
+
+// The audit trail of a note is for the people who manage it
+export const getNoteActivity = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const userId = req.user?.userId;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw createError('Invalid note ID', 400);
+  }
+
+  const note = await Note.findById(id).select('owner collaborators folder');
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  if (!(await note.isUserAuthorized(userId!, 'share'))) {
+    throw createError('Only the owner or an admin can view the activity log', 403);
+  }
+
+  const page = parsePage(req.query);
+  respond(res, page, await listNoteActivity(id, parseFilters(req.query), page));
+});
+
+export const getActivity = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const page = parsePage(req.query);
+  respond(res, page, await listAccountActivity(req.user!.userId, parseFilters(req.query), page));
+});
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { Response } from 'express';
+import { pipeline } from 'stream/promises';
+import mongoose from 'mongoose';
+import Note from '@/models/Note';
+import { AuthRequest } from '@/middleware/auth';
+import { createError, asyncHandler } from '@/middleware/errorHandler';
+import {
+  addAttachment,
+  listAttachments,
+  findAttachment,
+  readAttachment,
+  deleteAttachment as removeAttachment,
+} from '@/services/attachmentService';
+import { recordActivity } from '@/services/activityService';
+import { emitToNote } from '@/sockets/emitter';
+import { Capability } from '@/types';
+import { can } from '@/utils/permissions';
+
+const loadNote = async (req: AuthRequest, capability: Capability) => {
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw createError('Invalid note ID', 400);
+  }
+
+  const note = await Note.findById(id).select('title owner collaborators folder');
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  const role = await note.getUserRole(req.user!.userId);
+  if (!can(role, capability)) {
+    throw createError(capability === 'read' ? 'Access denied' : 'Write access denied', 403);
+  }
+
+  return { note, role };
+};
+
+export const getAttachments = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { note } = await loadNote(req, 'read');
+  const attachments = await listAttachments(note._id.toString());
+
+  res.json({
+    success: true,
+    data: { attachments },
+  });
+});
+
+export const uploadAttachment = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { userId, username } = req.user!;
+
+  const { note } = await loadNote(req, 'write');
+  const noteId = note._id.toString();
+
+  const attachment = await addAttachment(noteId, userId, req.file!);
+
+  await recordActivity(note, { userId, username }, 'attachment.added', {
+    attachmentId: attachment._id,
+    fileName: attachment.fileName,
+    size: attachment.size,
+  });
+  emitToNote(noteId, 'attachment-added', { noteId, attachment });
+
+  res.status(201).json({
+    success: true,
+    message: 'File uploaded successfully',
+    data: { attachment },
+  });
+});
+
+const sendFile = async (req: AuthRequest, res: Response, thumbnail: boolean) => {
+  const { attachmentId } = req.params;
+
+  const { note } = await loadNote(req, 'read');
+  const attachment = await findAttachment(note._id.toString(), attachmentId);
+  const { stream, contentType } = await readAttachment(attachment, thumbnail);
+
+  if (thumbnail) {
+    res.set('Cache-Control', 'private, max-age=86400');
+  } else {
+    res.attachment(attachment.fileName);
+    res.set('Content-Length', String(attachment.size));
+  }
+  res.type(contentType);
+
+  await pipeline(stream, res);
+};
+
+export const downloadAttachment = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await sendFile(req, res, false);
+});
+
+export const getAttachmentThumbnail = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await sendFile(req, res, true);
+});
+
+// Uploaders remove their own files, the owner and admins can remove any
+export const deleteAttachment = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { attachmentId } = req.params;
+  const { userId, username } = req.user!;
+
+  const { note, role } = await loadNote(req, 'read');
+  const noteId = note._id.toString();
+
+  const attachment = await findAttachment(noteId, attachmentId);
+  const isUploader = attachment.uploadedBy.toString() === userId;
+  if (!(isUploader && can(role, 'write')) && !can(role, 'share')) {
+    throw createError('You can only delete files you uploaded', 403);
+  }
+
+  await removeAttachment(attachment);
+
+  await recordActivity(note, { userId, username }, 'attachment.deleted', {
+    attachmentId,
+    fileName: attachment.fileName,
+  });
+  emitToNote(noteId, 'attachment-deleted', { noteId, attachmentId });
+
+  res.json({
+    success: true,
+    message: 'Attachment deleted successfully',
+  });
+});
\ No newline at end of file
@@ -1,17 +1,28 @@
 import { Response } from 'express';
-import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
 import User, { IUser } from '@/models/User';
-import { config } from '@/config/config';
 import { AuthRequest } from '@/middleware/auth';
 import { createError, asyncHandler } from '@/middleware/errorHandler';
+import {
+  createSession,
+  refreshSession,
+  revokeSession,
+  revokeAllSessions,
+  listSessions,
+  ClientInfo,
+} from '@/services/sessionService';
+import {
+  sendVerificationEmail,
+  verifyEmail as confirmEmail,
+  requestPasswordReset,
+  resetPassword as applyPasswordReset,
+} from '@/services/accountService';
+import { attachInvitations } from '@/services/invitationService';
 
-const generateToken = (userId: string, username: string, email: string) => {
-  return jwt.sign(
-    { userId, username, email },
-    config.jwt.secret,
-    { expiresIn: config.jwt.expiresIn }
-  );
-};
+const clientInfo = (req: AuthRequest): ClientInfo => ({
+  userAgent: req.get('user-agent'),
+  ip: req.ip,
+});
 
 export const register = asyncHandler(async (req: AuthRequest, res: Response) => {
   const { username, email, password } = req.body;
@@ -34,8 +45,16 @@ export const register = asyncHandler(async (req: AuthRequest, res: Response) =>
   const user: IUser = new User({ username, email, password });
   await user.save();
 
-  // Generate token
-  const token = generateToken(user._id.toString(), user.username, user.email);
+  // Invitations sent to this email before it had an account land in the inbox
+  await attachInvitations(user);
+
+  // A failed email should not fail the signup, the user can ask for a new one
+  sendVerificationEmail(user).catch((error) => {
+    console.error('Error sending verification email:', error);
+  });
+
+  // Start a session for the new user
+  const { token, refreshToken } = await createSession(user, clientInfo(req));
 
   res.status(201).json({
     success: true,
@@ -45,9 +64,11 @@ export const register = asyncHandler(async (req: AuthRequest, res: Response) =>
         id: user._id,
         username: user.username,
         email: user.email,
+        emailVerified: user.emailVerified,
         createdAt: user.createdAt,
       },
       token,
+      refreshToken,
     },
   });
 });
@@ -67,8 +88,8 @@ export const login = asyncHandler(async (req: AuthRequest, res: Response) => {
     throw createError('Invalid email or password', 401);
   }
 
-  // Generate token
-  const token = generateToken(user._id.toString(), user.username, user.email);
+  // Start a session for this device
+  const { token, refreshToken } = await createSession(user, clientInfo(req));
 
   res.json({
     success: true,
@@ -78,8 +99,10 @@ export const login = asyncHandler(async (req: AuthRequest, res: Response) => {
         id: user._id,
         username: user.username,
         email: user.email,
+        emailVerified: user.emailVerified,
       },
       token,
+      refreshToken,
     },
   });
 });
@@ -97,6 +120,7 @@ export const getProfile = asyncHandler(async (req: AuthRequest, res: Response) =
         id: user._id,
         username: user.username,
         email: user.email,
+        emailVerified: user.emailVerified,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
       },
@@ -134,4 +158,135 @@ export const updateProfile = asyncHandler(async (req: AuthRequest, res: Response
       },
     },
   });
+});
+
+export const refresh = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { refreshToken } = req.body;
+
+  const tokens = await refreshSession(refreshToken, clientInfo(req));
+
+  res.json({
+    success: true,
+    message: 'Token refreshed successfully',
+    data: tokens,
+  });
+});
+
+export const logout = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await revokeSession(req.user!.sessionId);
+
+  res.json({
+    success: true,
+    message: 'Logged out successfully',
+  });
+});
+
+export const getSessions = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const sessions = await listSessions(req.user!.userId);
+
+  res.json({
+    success: true,
+    data: {
+      sessions: sessions.map((session) => ({
+        id: session._id,
+        userAgent: session.userAgent,
+        ip: session.ip,
+        lastSeenAt: session.lastSeenAt,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+        current: session._id.toString() === req.user!.sessionId,
+      })),
+    },
+  });
+});
+
+export const deleteSession = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { sessionId } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+    throw createError('Invalid session ID', 400);
+  }
+
+  // Users can only see and revoke their own sessions
+  const sessions = await listSessions(req.user!.userId);
+  if (!sessions.some((session) => session._id.toString() === sessionId)) {
+    throw createError('Session not found', 404);
+  }
+
+  await revokeSession(sessionId);
+
+  res.json({
+    success: true,
+    message: 'Session revoked successfully',
+  });
+});
+
+export const deleteOtherSessions = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const revoked = await revokeAllSessions(req.user!.userId, req.user!.sessionId);
+
+  res.json({
+    success: true,
+    message: 'Other sessions revoked successfully',
+    data: { revoked },
+  });
+});
+
+export const forgotPassword = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { email } = req.body;
+
+  await requestPasswordReset(email);
+
+  // Same answer whether or not the email is registered
+  res.json({
+    success: true,
+    message: 'If that email is registered, a password reset link has been sent',
+  });
+});
+
+export const resetPassword = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { token, password } = req.body;
+
+  await applyPasswordReset(token, password);
+
+  res.json({
+    success: true,
+    message: 'Password reset successfully, please log in again',
+  });
+});
+
+export const verifyEmail = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { token } = req.body;
+
+  const user = await confirmEmail(token);
+
+  res.json({
+    success: true,
+    message: 'Email verified successfully',
+    data: {
+      user: {
+        id: user._id,
+        username: user.username,
+        email: user.email,
+        emailVerified: user.emailVerified,
+      },
+    },
+  });
+});
+
+export const resendVerification = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const user = await User.findById(req.user?.userId);
+  if (!user) {
+    throw createError('User not found', 404);
+  }
+
+  if (user.emailVerified) {
+    throw createError('Email is already verified', 400);
+  }
+
+  await sendVerificationEmail(user);
+
+  res.json({
+    success: true,
+    message: 'Verification email sent',
+  });
 });
\ No newline at end of file
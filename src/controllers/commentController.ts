@@ -0,0 +1,199 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Note, { INote } from '@/models/Note';
+import { AuthRequest } from '@/middleware/auth';
+import { createError, asyncHandler } from '@/middleware/errorHandler';
+import { loadLiveState } from '@/services/collabService';
+import {
+  DocumentState,
+  CommentStatus,
+  anchorAt,
+  listComments,
+  findComment,
+  createThread,
+  replyToComment,
+  editComment,
+  deleteComment as removeComment,
+  setResolved,
+} from '@/services/commentService';
+import { notifyMentions } from '@/services/notificationService';
+import { emitToNote } from '@/sockets/emitter';
+import { Capability } from '@/types';
+import { can } from '@/utils/permissions';
+
+const COMMENT_STATUSES: CommentStatus[] = ['open', 'resolved', 'all'];
+
+const loadNote = async (req: AuthRequest, capability: Capability) => {
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw createError('Invalid note ID', 400);
+  }
+
+  const note = await Note.findById(id).select('content revision owner collaborators folder');
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  const role = await note.getUserRole(req.user!.userId);
+  if (!can(role, capability)) {
+    throw createError(capability === 'read' ? 'Access denied' : 'Comment access denied', 403);
+  }
+
+  return { note, role };
+};
+
+// Anchors follow the live edits while the note is being edited, on any instance
+const documentState = (note: INote): Promise<DocumentState> => {
+  return loadLiveState(note._id.toString(), note);
+};
+
+export const getComments = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { status = 'open' } = req.query;
+
+  if (!COMMENT_STATUSES.includes(status as CommentStatus)) {
+    throw createError('Status must be open, resolved or all', 400);
+  }
+
+  const { note } = await loadNote(req, 'read');
+  const comments = await listComments(
+    note._id.toString(),
+    await documentState(note),
+    status as CommentStatus
+  );
+
+  res.json({
+    success: true,
+    data: { comments },
+  });
+});
+
+export const createComment = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { body, anchor } = req.body;
+
+  const { note } = await loadNote(req, 'comment');
+  const noteId = note._id.toString();
+
+  const comment = await createThread(
+    noteId,
+    req.user!.userId,
+    body,
+    anchorAt(anchor, await documentState(note), anchor.revision)
+  );
+
+  emitToNote(noteId, 'comment-added', { noteId, comment });
+  await notifyMentions(note, req.user!.userId, '', body, comment._id);
+
+  res.status(201).json({
+    success: true,
+    message: 'Comment added successfully',
+    data: { comment },
+  });
+});
+
+export const replyComment = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { commentId } = req.params;
+  const { body } = req.body;
+
+  const { note } = await loadNote(req, 'comment');
+  const noteId = note._id.toString();
+
+  const comment = await findComment(noteId, commentId);
+  const reply = await replyToComment(comment, req.user!.userId, body);
+
+  emitToNote(noteId, 'comment-added', { noteId, comment: reply });
+  await notifyMentions(note, req.user!.userId, '', body, reply._id);
+
+  res.status(201).json({
+    success: true,
+    message: 'Reply added successfully',
+    data: { comment: reply },
+  });
+});
+
+export const updateComment = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { commentId } = req.params;
+  const { body } = req.body;
+
+  const { note } = await loadNote(req, 'comment');
+  const noteId = note._id.toString();
+
+  const comment = await findComment(noteId, commentId);
+  if (comment.author.toString() !== req.user!.userId) {
+    throw createError('You can only edit your own comments', 403);
+  }
+
+  const previousBody = comment.body;
+  const updated = await editComment(comment, body);
+
+  emitToNote(noteId, 'comment-updated', { noteId, comment: updated });
+  await notifyMentions(note, req.user!.userId, previousBody, body, updated._id);
+
+  res.json({
+    success: true,
+    message: 'Comment updated successfully',
+    data: { comment: updated },
+  });
+});
+
+// Authors remove their own comments, the owner and admins can remove any
+export const deleteComment = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { commentId } = req.params;
+
+  const { note, role } = await loadNote(req, 'read');
+  const noteId = note._id.toString();
+
+  const comment = await findComment(noteId, commentId);
+  const isAuthor = comment.author.toString() === req.user!.userId;
+  if (!(isAuthor && can(role, 'comment')) && !can(role, 'share')) {
+    throw createError('You can only delete your own comments', 403);
+  }
+
+  await removeComment(comment);
+
+  emitToNote(noteId, 'comment-deleted', {
+    noteId,
+    commentId,
+    parent: comment.parent?.toString() ?? null,
+  });
+
+  res.json({
+    success: true,
+    message: 'Comment deleted successfully',
+  });
+});
+
+const setThreadResolved = async (req: AuthRequest, res: Response, resolved: boolean) => {
+  const { commentId } = req.params;
+  const { userId, username } = req.user!;
+
+  const { note } = await loadNote(req, 'comment');
+  const noteId = note._id.toString();
+
+  const thread = await setResolved(await findComment(noteId, commentId), resolved ? userId : null);
+
+  if (resolved) {
+    emitToNote(noteId, 'comment-resolved', {
+      noteId,
+      commentId,
+      resolvedBy: { userId, username },
+      resolvedAt: thread.resolvedAt,
+    });
+  } else {
+    emitToNote(noteId, 'comment-reopened', { noteId, commentId, reopenedBy: { userId, username } });
+  }
+
+  res.json({
+    success: true,
+    message: resolved ? 'Thread resolved successfully' : 'Thread reopened successfully',
+    data: { comment: thread },
+  });
+};
+
+export const resolveComment = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await setThreadResolved(req, res, true);
+});
+
+export const reopenComment = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await setThreadResolved(req, res, false);
+});
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { Response } from 'express';
+import { pipeline } from 'stream/promises';
+import mongoose from 'mongoose';
+import Note from '@/models/Note';
+import { EXPORT_FORMATS, ExportFormat } from '@/models/ExportJob';
+import { AuthRequest } from '@/middleware/auth';
+import { createError, asyncHandler } from '@/middleware/errorHandler';
+import {
+  loadExportNote,
+  renderNote,
+  startExport,
+  listExports,
+  findExport,
+  readExport,
+  deleteExport as removeExport,
+} from '@/services/exportService';
+
+const parseFormat = (format: unknown): ExportFormat => {
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw createError(`Format must be one of ${EXPORT_FORMATS.join(', ')}`, 400);
+  }
+  return format as ExportFormat;
+};
+
+export const exportNote = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const userId = req.user!.userId;
+  const format = parseFormat(req.query.format ?? 'md');
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw createError('Invalid note ID', 400);
+  }
+
+  // Authorized before loading, which saves the note's live edits
+  const access = await Note.findById(id).select('owner collaborators folder');
+  if (!access) {
+    throw createError('Note not found', 404);
+  }
+
+  if (!(await access.isUserAuthorized(userId, 'read'))) {
+    throw createError('Access denied', 403);
+  }
+
+  const note = await loadExportNote(id);
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  const file = await renderNote(note, format, userId);
+
+  res.attachment(file.fileName);
+  res.type(file.contentType);
+  res.send(file.content);
+});
+
+export const createExport = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { format = 'md', includeShared = false } = req.body;
+
+  const job = await startExport(req.user!.userId, format, includeShared);
+
+  res.status(202).json({
+    success: true,
+    message: 'Export started',
+    data: { export: job },
+  });
+});
+
+export const getExports = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const exports = await listExports(req.user!.userId);
+
+  res.json({
+    success: true,
+    data: { exports },
+  });
+});
+
+export const getExport = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const job = await findExport(req.user!.userId, req.params.id);
+
+  res.json({
+    success: true,
+    data: { export: job },
+  });
+});
+
+export const downloadExport = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const job = await findExport(req.user!.userId, req.params.id);
+  const stream = await readExport(job);
+
+  const date = job.createdAt.toISOString().slice(0, 10);
+  res.attachment(`notes-export-${date}.zip`);
+  res.set('Content-Length', String(job.size));
+  res.type('application/zip');
+
+  await pipeline(stream, res);
+});
+
+export const deleteExport = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const job = await findExport(req.user!.userId, req.params.id);
+  await removeExport(job);
+
+  res.json({
+    success: true,
+    message: 'Export deleted successfully',
+  });
+});
\ No newline at end of file
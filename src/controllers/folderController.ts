@@ -0,0 +1,276 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Folder from '@/models/Folder';
+import Note from '@/models/Note';
+import User from '@/models/User';
+import { AuthRequest } from '@/middleware/auth';
+import { createError, asyncHandler } from '@/middleware/errorHandler';
+import {
+  getAuthorizedFolder,
+  moveFolder as moveFolderTo,
+  isFolderEmpty,
+} from '@/services/folderService';
+import { notify } from '@/services/notificationService';
+import { can } from '@/utils/permissions';
+
+export const createFolder = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { name, parent } = req.body;
+  const userId = req.user?.userId;
+
+  let ancestors: mongoose.Types.ObjectId[] = [];
+  if (parent) {
+    const { folder: parentFolder } = await getAuthorizedFolder(parent, userId!, 'write');
+    ancestors = [...parentFolder.ancestors, parentFolder._id];
+  }
+
+  const folder = new Folder({
+    name,
+    owner: userId,
+    parent: parent || null,
+    ancestors,
+  });
+
+  await folder.save();
+
+  res.status(201).json({
+    success: true,
+    message: 'Folder created successfully',
+    data: { folder },
+  });
+});
+
+export const getFolders = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user?.userId;
+
+  const [folders, shared] = await Promise.all([
+    Folder.find({ owner: userId, parent: null }).sort({ name: 1 }),
+    // Folders shared with the user, wherever they sit in someone else's tree
+    Folder.find({ owner: { $ne: userId }, 'collaborators.user': userId })
+      .populate('owner', 'username email')
+      .sort({ name: 1 }),
+  ]);
+
+  res.json({
+    success: true,
+    data: { folders, shared },
+  });
+});
+
+export const getFolder = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const userId = req.user?.userId;
+
+  const { folder, role } = await getAuthorizedFolder(id, userId!);
+  await folder.populate('collaborators.user', 'username email');
+
+  // Breadcrumb from the top level down to the parent
+  const ancestors = await Folder.find({ _id: { $in: folder.ancestors } }).select('name');
+  const path = folder.ancestors
+    .map((ancestorId) => ancestors.find((a) => a._id.equals(ancestorId)))
+    .filter(Boolean);
+
+  res.json({
+    success: true,
+    data: { folder, path, role },
+  });
+});
+
+export const getFolderContents = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const { page = 1, limit = 20 } = req.query;
+  const userId = req.user?.userId;
+
+  const { folder } = await getAuthorizedFolder(id, userId!);
+
+  // Subfolders come first, then notes, paged as one list
+  const pageSize = Number(limit);
+  const skip = (Number(page) - 1) * pageSize;
+
+  const [folderTotal, noteTotal] = await Promise.all([
+    Folder.countDocuments({ parent: folder._id }),
+    Note.countDocuments({ folder: folder._id }),
+  ]);
+
+  const folders = await Folder.find({ parent: folder._id })
+    .sort({ name: 1 })
+    .skip(skip)
+    .limit(pageSize);
+
+  const remaining = pageSize - folders.length;
+  const notes =
+    remaining > 0
+      ? await Note.find({ folder: folder._id })
+          .populate('owner', 'username email')
+          .sort({ updatedAt: -1 })
+          .skip(Math.max(0, skip - folderTotal))
+          .limit(remaining)
+      : [];
+
+  const total = folderTotal + noteTotal;
+
+  res.json({
+    success: true,
+    data: {
+      folders,
+      notes,
+      pagination: {
+        page: Number(page),
+        limit: pageSize,
+        total,
+        pages: Math.ceil(total / pageSize),
+      },
+    },
+  });
+});
+
+export const updateFolder = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const { name } = req.body;
+  const userId = req.user?.userId;
+
+  const { folder } = await getAuthorizedFolder(id, userId!, 'write');
+
+  folder.name = name;
+  await folder.save();
+
+  res.json({
+    success: true,
+    message: 'Folder updated successfully',
+    data: { folder },
+  });
+});
+
+export const moveFolder = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const { parent } = req.body;
+  const userId = req.user?.userId;
+
+  const { folder } = await getAuthorizedFolder(id, userId!);
+
+  // Moving changes who inherits access, so only the owner may do it
+  if (folder.owner.toString() !== userId) {
+    throw createError('Only the owner can move a folder', 403);
+  }
+
+  const target = parent ? (await getAuthorizedFolder(parent, userId!, 'write')).folder : null;
+  await moveFolderTo(folder, target);
+
+  res.json({
+    success: true,
+    message: 'Folder moved successfully',
+    data: { folder },
+  });
+});
+
+export const deleteFolder = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const userId = req.user?.userId;
+
+  const { folder } = await getAuthorizedFolder(id, userId!);
+
+  if (folder.owner.toString() !== userId) {
+    throw createError('Only the owner can delete a folder', 403);
+  }
+
+  if (!(await isFolderEmpty(folder._id))) {
+    throw createError('Folder is not empty', 400);
+  }
+
+  await Folder.findByIdAndDelete(folder._id);
+
+  res.json({
+    success: true,
+    message: 'Folder deleted successfully',
+  });
+});
+
+export const addFolderCollaborator = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const { email, role = 'read' } = req.body;
+  const userId = req.user?.userId;
+
+  const { folder, role: userRole } = await getAuthorizedFolder(id, userId!);
+
+  if (!can(userRole, 'share')) {
+    throw createError('Only the owner or an admin can manage collaborators', 403);
+  }
+
+  const collaboratorUser = await User.findOne({ email });
+  if (!collaboratorUser) {
+    throw createError('User not found', 404);
+  }
+
+  if (!collaboratorUser.emailVerified) {
+    throw createError('User has not verified their email address yet', 400);
+  }
+
+  const existingCollaborator = folder.collaborators.find(
+    (c) => c.user.toString() === collaboratorUser._id.toString()
+  );
+
+  if (userRole !== 'owner' && (role === 'admin' || existingCollaborator?.role === 'admin')) {
+    throw createError('Only the owner can add or remove admins', 403);
+  }
+
+  const previousRole = existingCollaborator?.role;
+  if (existingCollaborator) {
+    existingCollaborator.role = role;
+  } else {
+    folder.collaborators.push({
+      user: collaboratorUser._id,
+      role,
+      addedAt: new Date(),
+    });
+  }
+
+  await folder.save();
+  if (previousRole !== role) {
+    await notify([
+      {
+        user: collaboratorUser._id,
+        actor: userId!,
+        type: existingCollaborator ? 'role-changed' : 'collaborator-added',
+        folder: folder._id,
+        role,
+      },
+    ]);
+  }
+  await folder.populate('collaborators.user', 'username email');
+
+  res.json({
+    success: true,
+    message: 'Collaborator added successfully',
+    data: { folder },
+  });
+});
+
+export const removeFolderCollaborator = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id, collaboratorId } = req.params;
+  const userId = req.user?.userId;
+
+  if (!mongoose.Types.ObjectId.isValid(collaboratorId)) {
+    throw createError('Invalid ID format', 400);
+  }
+
+  const { folder, role: userRole } = await getAuthorizedFolder(id, userId!);
+
+  if (!can(userRole, 'share')) {
+    throw createError('Only the owner or an admin can manage collaborators', 403);
+  }
+
+  const collaborator = folder.collaborators.find((c) => c.user.toString() === collaboratorId);
+  if (userRole !== 'owner' && collaborator?.role === 'admin') {
+    throw createError('Only the owner can add or remove admins', 403);
+  }
+
+  folder.collaborators = folder.collaborators.filter((c) => c.user.toString() !== collaboratorId);
+
+  await folder.save();
+  await folder.populate('collaborators.user', 'username email');
+
+  res.json({
+    success: true,
+    message: 'Collaborator removed successfully',
+    data: { folder },
+  });
+});
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { Response } from 'express';
+import { AuthRequest } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { getAuthorizedFolder } from '@/services/folderService';
+import { startImport, listImports, findImport } from '@/services/importService';
+
+export const importNotes = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { folder } = req.body;
+  const { userId, username } = req.user!;
+
+  if (folder) {
+    await getAuthorizedFolder(folder, userId, 'write');
+  }
+
+  const job = await startImport({ userId, username }, req.file!, folder || null);
+
+  // Archives are still being imported, single files are done
+  const done = job.status === 'completed' || job.status === 'failed';
+  res.status(done ? 201 : 202).json({
+    success: true,
+    message: done ? 'Import finished' : 'Import started',
+    data: { import: job },
+  });
+});
+
+export const getImports = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const imports = await listImports(req.user!.userId);
+
+  res.json({
+    success: true,
+    data: { imports },
+  });
+});
+
+export const getImport = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const job = await findImport(req.user!.userId, req.params.importId);
+
+  res.json({
+    success: true,
+    data: { import: job },
+  });
+});
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { Response } from 'express';
+import { AuthRequest } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import {
+  listInvitations,
+  acceptInvitation as acceptUserInvitation,
+  declineInvitation as declineUserInvitation,
+} from '@/services/invitationService';
+
+export const getInvitations = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const invitations = await listInvitations(req.user!.userId);
+
+  res.json({
+    success: true,
+    data: { invitations },
+  });
+});
+
+export const acceptInvitation = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+
+  const note = await acceptUserInvitation(id, req.user!.userId);
+
+  res.json({
+    success: true,
+    message: 'Invitation accepted successfully',
+    data: { note: { _id: note._id, title: note.title } },
+  });
+});
+
+export const declineInvitation = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+
+  await declineUserInvitation(id, req.user!.userId);
+
+  res.json({
+    success: true,
+    message: 'Invitation declined successfully',
+  });
+});
\ No newline at end of file
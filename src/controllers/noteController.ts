@@ -1,21 +1,184 @@
 import { Response } from 'express';
 import mongoose from 'mongoose';
-import Note from '@/models/Note';
+import Note, { INote } from '@/models/Note';
 import User from '@/models/User';
 import { AuthRequest } from '@/middleware/auth';
+import { NoteEditor, NoteFormat } from '@/types';
 import { createError, asyncHandler } from '@/middleware/errorHandler';
+import { validateNoteContent } from '@/middleware/validation';
+import {
+  getSession,
+  loadLiveState,
+  openSession,
+  isLive,
+  applyChanges,
+  markDirty,
+  flushSession,
+  closeSession,
+  AppliedOperation,
+} from '@/services/collabService';
+import { emitToNote } from '@/sockets/emitter';
+import { getActiveUsersInNote } from '@/sockets/socketHandler';
+import { recordVersion, listVersions, getVersion, labelVersion } from '@/services/versionService';
+import { diffText, summarizeDiff } from '@/utils/diff';
+import { renderHtml, toPlainText } from '@/utils/content';
+import { can } from '@/utils/permissions';
+import { parseNoteQueryFilters } from '@/utils/query';
+import { normalizeTags, presentNote, setNoteTags } from '@/services/tagService';
+import { NoteListFilters, NoteListPage, listNotes } from '@/services/noteListService';
+import { getAuthorizedFolder } from '@/services/folderService';
+import {
+  createShareLink,
+  resolveShareLink,
+  listShareLinks,
+  revokeShareLink,
+} from '@/services/shareLinkService';
+import { config } from '@/config/config';
+import { inviteToNote, listNoteInvitations, cancelInvitation } from '@/services/invitationService';
+import { reanchorComments } from '@/services/commentService';
+import { fromReplacement } from '@/services/ot';
+import { notify, notifyMentions } from '@/services/notificationService';
+import { recordActivity, recordNoteChanges } from '@/services/activityService';
+import {
+  moveToTrash,
+  listTrash,
+  restoreNote,
+  deleteForever,
+  purgeDate,
+} from '@/services/trashService';
+
+// Refuses content that does not fit the format it is saved in
+const checkContent = (content: string, format: NoteFormat): void => {
+  const message = validateNoteContent(content, format);
+  if (message) {
+    throw createError(`Validation Error: ${message}`, 400);
+  }
+};
+
+// Writes title, content and format changes, through the live session when the note is open in one
+const saveNoteChanges = async (
+  note: INote,
+  changes: { title?: string; content?: string; format?: NoteFormat },
+  editor: NoteEditor
+): Promise<INote> => {
+  const { title, content, format } = changes;
+  const id = note._id.toString();
+
+  // Content and format are checked together, whichever of them changes
+  const checkChanges = (current: { content: string; format: NoteFormat }): void => {
+    if (content !== undefined || format !== undefined) {
+      checkContent(content ?? current.content, format ?? current.format);
+    }
+  };
+
+  // A note edited live on any instance is changed through a session so clients stay in sync
+  const local = getSession(id);
+  const session = local ?? ((await isLive(id, note.revision)) ? await openSession(id) : null);
+
+  if (session) {
+    let applied: AppliedOperation | undefined;
+    const contentChanged = content !== undefined && content !== session.content;
+    const formatChanged = format !== undefined && format !== session.format;
+    try {
+      checkChanges(session);
+      if (contentChanged || title !== undefined || formatChanged) {
+        applied = await applyChanges(session, {
+          content,
+          title,
+          format: formatChanged ? format : undefined,
+        });
+        markDirty(session, editor);
+        if (local) await flushSession(id);
+      }
+    } finally {
+      // A session opened only for this change is closed again, nobody edits the note here
+      if (!local) await closeSession(id);
+    }
+
+    const modifiedBy = {
+      userId: editor.userId ?? `guest:${editor.shareLink}`,
+      username: editor.username,
+    };
+    if (formatChanged) {
+      emitToNote(id, 'note-format-updated', { noteId: id, format, modifiedBy });
+    }
+    if (applied) {
+      emitToNote(id, 'note-updated', {
+        noteId: id,
+        revision: applied.revision,
+        operation: applied.operation,
+        title,
+        modifiedBy,
+        timestamp: new Date(),
+      });
+    }
+
+    // Return what the session just saved
+    return (await Note.findById(id)) ?? note;
+  }
+
+  checkChanges(note);
+
+  const contentChanged = content !== undefined && content !== note.content;
+  const titleChanged = title !== undefined && title !== note.title;
+  const formatChanged = format !== undefined && format !== note.format;
+
+  const previous = { title: note.title, content: note.content, format: note.format };
+
+  // Add version history if content, title or format changed
+  if (contentChanged || titleChanged || formatChanged) {
+    await recordVersion(id, previous, editor.userId, editor.shareLink);
+  }
+  if (contentChanged) note.revision += 1;
+
+  // Update note
+  if (title !== undefined) note.title = title;
+  if (content !== undefined) note.content = content;
+  if (format !== undefined) note.format = format;
+
+  await note.save();
+
+  if (contentChanged) {
+    await reanchorComments(id, {
+      content: note.content,
+      revision: note.revision,
+      history: [fromReplacement(previous.content, note.content)],
+      historyStart: note.revision - 1,
+    });
+    // Rich text is scanned as text, so excerpts hold no JSON
+    await notifyMentions(
+      note,
+      editor.userId,
+      toPlainText(previous.content, previous.format),
+      toPlainText(note.content, note.format)
+    );
+  }
+  await recordNoteChanges(note, editor, previous);
+  return note;
+};
 
 export const createNote = asyncHandler(async (req: AuthRequest, res: Response) => {
-  const { title, content = '' } = req.body;
+  const { title, content = '', format = 'plain', tags = [], folder } = req.body;
   const userId = req.user?.userId;
 
+  checkContent(content, format);
+  if (folder) {
+    await getAuthorizedFolder(folder, userId!, 'write');
+  }
+
   const note = new Note({
     title,
     content,
+    format,
     owner: userId,
+    folder: folder || null,
+    tags: normalizeTags(tags),
   });
 
   await note.save();
+  // Only people with access through the folder can be mentioned in a new note
+  await notifyMentions(note, userId!, '', toPlainText(content, format));
+  await recordActivity(note, req.user!, 'note.created');
   await note.populate('owner', 'username email');
 
   res.status(201).json({
@@ -25,41 +188,74 @@ export const createNote = asyncHandler(async (req: AuthRequest, res: Response) =
   });
 });
 
-export const getNotes = asyncHandler(async (req: AuthRequest, res: Response) => {
-  const userId = req.user?.userId;
-  const { page = 1, limit = 10, search } = req.query;
+// ?search=&tags=a,b&match=all|any&ownership=owned|shared&role=&owner=me|<userId>&date=created|updated&from=&to=
+const parseListFilters = (query: AuthRequest['query'], userId: string): NoteListFilters => {
+  const { search, tags, match = 'all', ownership } = query;
+
+  if (match !== 'all' && match !== 'any') {
+    throw createError('match must be "all" or "any"', 400);
+  }
+  if (ownership !== undefined && ownership !== 'owned' && ownership !== 'shared') {
+    throw createError('ownership must be "owned" or "shared"', 400);
+  }
 
-  const query: any = {
-    $or: [
-      { owner: userId },
-      { 'collaborators.user': userId },
-    ],
+  return {
+    ...parseNoteQueryFilters(query, userId),
+    search: search ? String(search) : undefined,
+    tags: tags ? normalizeTags(String(tags).split(',')) : undefined,
+    match,
+    ownership,
   };
+};
 
-  if (search) {
-    query.$text = { $search: search as string };
+// ?sort=updated|created|title&order=asc|desc&limit=&cursor=, or page= for offset paging
+const parseListPage = (query: AuthRequest['query']): NoteListPage => {
+  // Creation dates never change, so a cursor walk over them misses nothing
+  const { sort = 'created', order, limit = 10, cursor, page } = query;
+
+  if (sort !== 'updated' && sort !== 'created' && sort !== 'title') {
+    throw createError('sort must be "updated", "created" or "title"', 400);
+  }
+  if (order !== undefined && order !== 'asc' && order !== 'desc') {
+    throw createError('order must be "asc" or "desc"', 400);
+  }
+  if (cursor !== undefined && page !== undefined) {
+    throw createError('Use either cursor or page, not both', 400);
   }
 
-  const notes = await Note.find(query)
-    .populate('owner', 'username email')
-    .populate('collaborators.user', 'username email')
-    .sort({ updatedAt: -1 })
-    .limit(Number(limit) * 1)
-    .skip((Number(page) - 1) * Number(limit))
-    .select('-versions'); // Exclude version history from list
+  return {
+    sort,
+    // Titles read A to Z, dates newest first
+    order: order ?? (sort === 'title' ? 'asc' : 'desc'),
+    limit: Math.min(Math.max(Number(limit) || 10, 1), 100),
+    cursor: cursor ? String(cursor) : undefined,
+    page: page !== undefined ? Math.max(Number(page) || 1, 1) : undefined,
+  };
+};
 
-  const total = await Note.countDocuments(query);
+export const getNotes = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.userId;
+  const page = parseListPage(req.query);
+
+  // Owned, shared directly or through a folder
+  const { notes, hasMore, nextCursor, facets } = await listNotes(
+    userId,
+    parseListFilters(req.query, userId),
+    page
+  );
 
   res.json({
     success: true,
     data: {
-      notes,
+      notes: notes.map((note) => presentNote(note, userId)),
       pagination: {
-        page: Number(page),
-        limit: Number(limit),
-        total,
-        pages: Math.ceil(total / Number(limit)),
+        limit: page.limit,
+        total: facets.total,
+        hasMore,
+        nextCursor,
+        ...(page.page && { page: page.page, pages: Math.ceil(facets.total / page.limit) }),
       },
+      facets,
     },
   });
 });
@@ -73,59 +269,105 @@ export const getNote = asyncHandler(async (req: AuthRequest, res: Response) => {
   }
 
   const note = await Note.findById(id)
+    .select('+personalTags')
     .populate('owner', 'username email')
-    .populate('collaborators.user', 'username email')
-    .populate('versions.modifiedBy', 'username email');
+    .populate('collaborators.user', 'username email');
 
   if (!note) {
     throw createError('Note not found', 404);
   }
 
-  if (!note.isUserAuthorized(userId!, 'read')) {
+  if (!(await note.isUserAuthorized(userId!, 'read'))) {
     throw createError('Access denied', 403);
   }
 
   res.json({
     success: true,
-    data: { note },
+    data: { note: presentNote(note, userId!) },
   });
 });
 
-export const updateNote = asyncHandler(async (req: AuthRequest, res: Response) => {
+export const renderNoteHtml = asyncHandler(async (req: AuthRequest, res: Response) => {
   const { id } = req.params;
-  const { title, content } = req.body;
   const userId = req.user?.userId;
 
   if (!mongoose.Types.ObjectId.isValid(id)) {
     throw createError('Invalid note ID', 400);
   }
 
-  const note = await Note.findById(id);
+  const note = await Note.findById(id).select(
+    'title content format revision owner collaborators folder'
+  );
   if (!note) {
     throw createError('Note not found', 404);
   }
 
-  if (!note.isUserAuthorized(userId!, 'write')) {
-    throw createError('Write access denied', 403);
+  if (!(await note.isUserAuthorized(userId!, 'read'))) {
+    throw createError('Access denied', 403);
+  }
+
+  // Unsaved live edits are rendered too
+  const { content, format } = await loadLiveState(id, note);
+
+  res.json({
+    success: true,
+    data: {
+      format,
+      html: renderHtml(content, format),
+    },
+  });
+});
+
+// Who has the note open right now, on any instance
+export const getNotePresence = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const userId = req.user?.userId;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw createError('Invalid note ID', 400);
   }
 
-  // Add version history if content changed
-  if (content !== undefined && content !== note.content) {
-    note.addVersion(note.content, userId!);
+  const note = await Note.findById(id).select('owner collaborators folder');
+  if (!note) {
+    throw createError('Note not found', 404);
   }
 
-  // Update note
-  if (title !== undefined) note.title = title;
-  if (content !== undefined) note.content = content;
+  if (!(await note.isUserAuthorized(userId!, 'read'))) {
+    throw createError('Access denied', 403);
+  }
 
-  await note.save();
-  await note.populate('owner', 'username email');
-  await note.populate('collaborators.user', 'username email');
+  res.json({
+    success: true,
+    data: { users: await getActiveUsersInNote(id) },
+  });
+});
+
+export const updateNote = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const { title, content, format } = req.body;
+  const userId = req.user?.userId;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw createError('Invalid note ID', 400);
+  }
+
+  const note = await Note.findById(id);
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  if (!(await note.isUserAuthorized(userId!, 'write'))) {
+    throw createError('Write access denied', 403);
+  }
+
+  const updated = await saveNoteChanges(note, { title, content, format }, req.user!);
+  await updated.populate('owner', 'username email');
+  await updated.populate('collaborators.user', 'username email');
 
   res.json({
     success: true,
     message: 'Note updated successfully',
-    data: { note },
+    data: { note: updated },
   });
 });
 
@@ -143,15 +385,46 @@ export const deleteNote = asyncHandler(async (req: AuthRequest, res: Response) =
   }
 
   // Only owner can delete the note
-  if (note.owner.toString() !== userId) {
+  if (!(await note.isUserAuthorized(userId!, 'delete'))) {
     throw createError('Only the owner can delete this note', 403);
   }
 
-  await Note.findByIdAndDelete(id);
+  await moveToTrash(note, req.user!);
 
   res.json({
     success: true,
-    message: 'Note deleted successfully',
+    message: 'Note moved to trash',
+    data: { purgeAt: purgeDate(new Date()) },
+  });
+});
+
+export const getTrash = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const notes = await listTrash(req.user!.userId);
+
+  res.json({
+    success: true,
+    data: { notes, retentionDays: config.trash.retentionDays },
+  });
+});
+
+export const restoreTrashedNote = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const note = await restoreNote(req.params.id, req.user!);
+  await note.populate('owner', 'username email');
+  await note.populate('collaborators.user', 'username email');
+
+  res.json({
+    success: true,
+    message: 'Note restored successfully',
+    data: { note },
+  });
+});
+
+export const deleteTrashedNote = asyncHandler(async (req: AuthRequest, res: Response) => {
+  await deleteForever(req.params.id, req.user!);
+
+  res.json({
+    success: true,
+    message: 'Note deleted permanently',
   });
 });
 
@@ -169,41 +442,59 @@ export const addCollaborator = asyncHandler(async (req: AuthRequest, res: Respon
     throw createError('Note not found', 404);
   }
 
-  // Only owner can add/remove collaborators
-  if (note.owner.toString() !== userId) {
-    throw createError('Only the owner can manage collaborators', 403);
+  // Owner and admins manage collaborators, but only the owner hands out or takes away admin
+  const userRole = await note.getUserRole(userId!);
+  if (!can(userRole, 'share')) {
+    throw createError('Only the owner or an admin can manage collaborators', 403);
   }
 
-  // Find user by email
-  const collaboratorUser = await User.findOne({ email });
-  if (!collaboratorUser) {
-    throw createError('User not found', 404);
-  }
+  // Existing collaborators just get the new role, anyone else is invited
+  const collaboratorUser = await User.findOne({ email: email.toLowerCase() }).select('_id');
+  const existingCollaborator =
+    collaboratorUser &&
+    note.collaborators.find((c) => c.user.toString() === collaboratorUser._id.toString());
 
-  // Check if user is already a collaborator
-  const existingCollaborator = note.collaborators.find(
-    (c) => c.user.toString() === collaboratorUser._id.toString()
-  );
+  if (userRole !== 'owner' && (role === 'admin' || existingCollaborator?.role === 'admin')) {
+    throw createError('Only the owner can add or remove admins', 403);
+  }
 
   if (existingCollaborator) {
-    // Update existing collaborator role
+    const previousRole = existingCollaborator.role;
     existingCollaborator.role = role;
-  } else {
-    // Add new collaborator
-    note.collaborators.push({
-      user: collaboratorUser._id,
-      role,
-      addedAt: new Date(),
+
+    await note.save();
+    if (previousRole !== role) {
+      await notify([
+        {
+          user: existingCollaborator.user,
+          actor: userId!,
+          type: 'role-changed',
+          note: note._id,
+          role,
+        },
+      ]);
+      await recordActivity(note, req.user!, 'collaborator.role-changed', {
+        user: existingCollaborator.user,
+        from: previousRole,
+        to: role,
+      });
+    }
+    await note.populate('collaborators.user', 'username email');
+
+    res.json({
+      success: true,
+      message: 'Collaborator updated successfully',
+      data: { note },
     });
+    return;
   }
 
-  await note.save();
-  await note.populate('collaborators.user', 'username email');
+  const invitation = await inviteToNote(note, req.user!, email, role);
 
-  res.json({
+  res.status(201).json({
     success: true,
-    message: 'Collaborator added successfully',
-    data: { note },
+    message: 'Invitation sent successfully',
+    data: { invitation },
   });
 });
 
@@ -220,9 +511,14 @@ export const removeCollaborator = asyncHandler(async (req: AuthRequest, res: Res
     throw createError('Note not found', 404);
   }
 
-  // Only owner can remove collaborators
-  if (note.owner.toString() !== userId) {
-    throw createError('Only the owner can manage collaborators', 403);
+  const userRole = await note.getUserRole(userId!);
+  if (!can(userRole, 'share')) {
+    throw createError('Only the owner or an admin can manage collaborators', 403);
+  }
+
+  const collaborator = note.collaborators.find((c) => c.user.toString() === collaboratorId);
+  if (userRole !== 'owner' && collaborator?.role === 'admin') {
+    throw createError('Only the owner can add or remove admins', 403);
   }
 
   // Remove collaborator
@@ -231,6 +527,12 @@ export const removeCollaborator = asyncHandler(async (req: AuthRequest, res: Res
   );
 
   await note.save();
+  if (collaborator) {
+    await recordActivity(note, req.user!, 'collaborator.removed', {
+      user: collaborator.user,
+      role: collaborator.role,
+    });
+  }
   await note.populate('collaborators.user', 'username email');
 
   res.json({
@@ -248,20 +550,512 @@ export const getNoteVersions = asyncHandler(async (req: AuthRequest, res: Respon
     throw createError('Invalid note ID', 400);
   }
 
-  const note = await Note.findById(id)
-    .populate('versions.modifiedBy', 'username email')
-    .select('title versions owner collaborators');
+  const note = await Note.findById(id).select('title owner collaborators folder');
+
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  if (!(await note.isUserAuthorized(userId!, 'read'))) {
+    throw createError('Access denied', 403);
+  }
+
+  res.json({
+    success: true,
+    data: { versions: await listVersions(id) },
+  });
+});
+
+export const getNoteVersion = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id, versionId } = req.params;
+  const userId = req.user?.userId;
+
+  if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(versionId)) {
+    throw createError('Invalid ID format', 400);
+  }
+
+  const note = await Note.findById(id).select('title owner collaborators folder');
+
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  if (!(await note.isUserAuthorized(userId!, 'read'))) {
+    throw createError('Access denied', 403);
+  }
+
+  res.json({
+    success: true,
+    data: { version: await getVersion(id, versionId) },
+  });
+});
+
+export const diffNoteVersions = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const { from, to = 'current', mode = 'line' } = req.query;
+  const userId = req.user?.userId;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw createError('Invalid note ID', 400);
+  }
+
+  if (mode !== 'line' && mode !== 'word') {
+    throw createError('Diff mode must be line or word', 400);
+  }
+
+  // Either side can be a version ID or "current" for the note's latest content
+  const sides = [from, to].map((side) => String(side ?? ''));
+  if (sides.some((side) => side !== 'current' && !mongoose.Types.ObjectId.isValid(side))) {
+    throw createError('from and to must be version IDs or "current"', 400);
+  }
+
+  const note = await Note.findById(id).select(
+    'title content format revision owner collaborators folder'
+  );
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  if (!(await note.isUserAuthorized(userId!, 'read'))) {
+    throw createError('Access denied', 403);
+  }
+
+  // Unsaved live edits are part of the current content
+  const current = sides.includes('current') ? await loadLiveState(id, note) : null;
+  const [fromSide, toSide] = await Promise.all(
+    sides.map(async (side) => {
+      if (side === 'current') {
+        return {
+          id: 'current',
+          title: current!.title,
+          content: current!.content,
+        };
+      }
+      const version = await getVersion(id, side);
+      return {
+        id: side,
+        title: version.title,
+        modifiedAt: version.modifiedAt,
+        content: version.content,
+      };
+    })
+  );
+
+  const changes = diffText(fromSide.content, toSide.content, mode);
+
+  res.json({
+    success: true,
+    data: {
+      from: { id: fromSide.id, title: fromSide.title, modifiedAt: fromSide.modifiedAt },
+      to: { id: toSide.id, title: toSide.title, modifiedAt: toSide.modifiedAt },
+      mode,
+      changes,
+      stats: summarizeDiff(changes),
+    },
+  });
+});
+
+export const restoreNoteVersion = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id, versionId } = req.params;
+  const userId = req.user?.userId;
+
+  if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(versionId)) {
+    throw createError('Invalid ID format', 400);
+  }
+
+  const note = await Note.findById(id);
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  if (!(await note.isUserAuthorized(userId!, 'write'))) {
+    throw createError('Write access denied', 403);
+  }
+
+  // The state being replaced is recorded as a new version, so a restore can be undone
+  const version = await getVersion(id, versionId);
+  const updated = await saveNoteChanges(
+    note,
+    { title: version.title, content: version.content, format: version.format },
+    req.user!
+  );
+  await updated.populate('owner', 'username email');
+  await updated.populate('collaborators.user', 'username email');
+
+  res.json({
+    success: true,
+    message: 'Version restored successfully',
+    data: { note: updated },
+  });
+});
+
+export const labelNoteVersion = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id, versionId } = req.params;
+  const { label } = req.body;
+  const userId = req.user?.userId;
+
+  if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(versionId)) {
+    throw createError('Invalid ID format', 400);
+  }
 
+  const note = await Note.findById(id);
   if (!note) {
     throw createError('Note not found', 404);
   }
 
-  if (!note.isUserAuthorized(userId!, 'read')) {
+  if (!(await note.isUserAuthorized(userId!, 'write'))) {
+    throw createError('Write access denied', 403);
+  }
+
+  // An empty label turns the checkpoint back into a regular version
+  const version = await labelVersion(id, versionId, label);
+
+  res.json({
+    success: true,
+    message: label ? 'Version labeled successfully' : 'Version label removed',
+    data: { version },
+  });
+});
+
+export const updateNoteTags = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const { tags } = req.body;
+  const userId = req.user?.userId;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw createError('Invalid note ID', 400);
+  }
+
+  const note = await Note.findById(id).select('owner collaborators folder');
+
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  // Tagging is personal, so read access is enough
+  if (!(await note.isUserAuthorized(userId!, 'read'))) {
     throw createError('Access denied', 403);
   }
 
+  await setNoteTags(note, userId!, tags);
+
+  const updated = await Note.findById(id)
+    .select('+personalTags')
+    .populate('owner', 'username email')
+    .populate('collaborators.user', 'username email');
+
+  res.json({
+    success: true,
+    message: 'Tags updated successfully',
+    data: { note: presentNote(updated!, userId!) },
+  });
+});
+
+export const moveNote = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const { folder } = req.body;
+  const userId = req.user?.userId;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw createError('Invalid note ID', 400);
+  }
+
+  const note = await Note.findById(id);
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  // Moving changes who inherits access, so only the owner may do it
+  if (note.owner.toString() !== userId) {
+    throw createError('Only the owner can move a note', 403);
+  }
+
+  if (folder) {
+    await getAuthorizedFolder(folder, userId!, 'write');
+  }
+
+  note.folder = folder || null;
+  await note.save();
+
+  res.json({
+    success: true,
+    message: 'Note moved successfully',
+    data: { note },
+  });
+});
+
+export const createNoteShareLink = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const { role = 'read', expiresAt, maxViews, password } = req.body;
+  const userId = req.user?.userId;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw createError('Invalid note ID', 400);
+  }
+
+  const note = await Note.findById(id).select('title owner collaborators folder');
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  if (!(await note.isUserAuthorized(userId!, 'share'))) {
+    throw createError('Only the owner or an admin can manage share links', 403);
+  }
+
+  const { link, token } = await createShareLink(note, userId!, {
+    role,
+    expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+    maxViews,
+    password,
+  });
+  await recordActivity(note, req.user!, 'share-link.created', {
+    link: link._id,
+    role: link.role,
+  });
+
+  // The token cannot be recovered later, only its hash is stored
+  res.status(201).json({
+    success: true,
+    message: 'Share link created successfully',
+    data: { link, token, url: `${config.appUrl}/shared/${token}` },
+  });
+});
+
+export const getNoteShareLinks = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const userId = req.user?.userId;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw createError('Invalid note ID', 400);
+  }
+
+  const note = await Note.findById(id).select('owner collaborators folder');
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  if (!(await note.isUserAuthorized(userId!, 'share'))) {
+    throw createError('Only the owner or an admin can manage share links', 403);
+  }
+
+  const links = await listShareLinks(id);
+
   res.json({
     success: true,
-    data: { versions: note.versions },
+    data: { links },
+  });
+});
+
+export const revokeNoteShareLink = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id, linkId } = req.params;
+  const userId = req.user?.userId;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw createError('Invalid note ID', 400);
+  }
+
+  const note = await Note.findById(id).select('title owner collaborators folder');
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  if (!(await note.isUserAuthorized(userId!, 'share'))) {
+    throw createError('Only the owner or an admin can manage share links', 403);
+  }
+
+  if (!(await revokeShareLink(id, linkId))) {
+    throw createError('Share link not found', 404);
+  }
+  await recordActivity(note, req.user!, 'share-link.revoked', { link: linkId });
+
+  res.json({
+    success: true,
+    message: 'Share link revoked successfully',
+  });
+});
+
+// Passwords travel in a header so they stay out of URLs and access logs
+const sharePassword = (req: AuthRequest): string | undefined => {
+  const header = req.headers['x-share-password'];
+  return typeof header === 'string' ? header : undefined;
+};
+
+export const getSharedNote = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { token } = req.params;
+
+  const link = await resolveShareLink(token, sharePassword(req), { countView: true });
+
+  const note = await Note.findById(link.note)
+    .select('title content format tags revision owner updatedAt')
+    .populate('owner', 'username');
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  // Serve unsaved live edits too, the socket session picks up from this revision
+  const live = await loadLiveState(note._id.toString(), note);
+  note.title = live.title;
+  note.content = live.content;
+  note.format = live.format;
+  note.revision = live.revision;
+
+  await recordActivity(note, req.user ?? null, 'share-link.used', {
+    link: link._id,
+    access: 'view',
+  });
+
+  res.json({
+    success: true,
+    data: {
+      note,
+      link: { role: link.role, expiresAt: link.expiresAt },
+    },
+  });
+});
+
+export const updateSharedNote = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { token } = req.params;
+  const { title, content, format } = req.body;
+
+  const link = await resolveShareLink(token, sharePassword(req), { countView: false });
+  if (!can(link.role, 'write')) {
+    throw createError('Write access denied', 403);
+  }
+
+  const note = await Note.findById(link.note);
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  // Signed-in link holders are credited, anonymous edits are only traced to the link
+  const editor: NoteEditor = req.user ?? {
+    userId: null,
+    username: 'Guest',
+    shareLink: link._id.toString(),
+  };
+  const updated = await saveNoteChanges(note, { title, content, format }, editor);
+  await recordActivity(updated, req.user ?? null, 'share-link.used', {
+    link: link._id,
+    access: 'edit',
+  });
+
+  res.json({
+    success: true,
+    message: 'Note updated successfully',
+    data: {
+      note: {
+        _id: updated._id,
+        title: updated.title,
+        content: updated.content,
+        format: updated.format,
+        revision: updated.revision,
+        updatedAt: updated.updatedAt,
+      },
+    },
+  });
+});
+
+export const getNoteInvitations = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const userId = req.user?.userId;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw createError('Invalid note ID', 400);
+  }
+
+  const note = await Note.findById(id).select('owner collaborators folder');
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  if (!(await note.isUserAuthorized(userId!, 'share'))) {
+    throw createError('Only the owner or an admin can manage collaborators', 403);
+  }
+
+  const invitations = await listNoteInvitations(id);
+
+  res.json({
+    success: true,
+    data: { invitations },
+  });
+});
+
+export const cancelNoteInvitation = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id, invitationId } = req.params;
+  const userId = req.user?.userId;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw createError('Invalid note ID', 400);
+  }
+
+  const note = await Note.findById(id).select('owner collaborators folder');
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  if (!(await note.isUserAuthorized(userId!, 'share'))) {
+    throw createError('Only the owner or an admin can manage collaborators', 403);
+  }
+
+  if (!(await cancelInvitation(id, invitationId))) {
+    throw createError('Invitation not found', 404);
+  }
+
+  res.json({
+    success: true,
+    message: 'Invitation cancelled successfully',
+  });
+});
+
+export const transferOwnership = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+  const { userId: newOwnerId } = req.body;
+  const userId = req.user?.userId;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw createError('Invalid note ID', 400);
+  }
+
+  const note = await Note.findById(id);
+  if (!note) {
+    throw createError('Note not found', 404);
+  }
+
+  if (note.owner.toString() !== userId) {
+    throw createError('Only the owner can transfer ownership', 403);
+  }
+
+  // Ownership goes to someone who already works on the note
+  const newOwner = note.collaborators.find((c) => c.user.toString() === newOwnerId);
+  if (!newOwner) {
+    throw createError('The new owner must already be a collaborator', 400);
+  }
+
+  // The previous owner stays on as an admin
+  note.collaborators = note.collaborators.filter((c) => c.user.toString() !== newOwnerId);
+  note.collaborators.push({
+    user: note.owner,
+    role: 'admin',
+    addedAt: new Date(),
+  });
+  note.owner = newOwner.user;
+
+  await note.save();
+  await notify([
+    { user: note.owner, actor: userId!, type: 'role-changed', note: note._id, role: 'owner' },
+  ]);
+  await recordActivity(note, req.user!, 'note.ownership-transferred', {
+    from: userId,
+    to: note.owner,
+  });
+  await note.populate('owner', 'username email');
+  await note.populate('collaborators.user', 'username email');
+
+  emitToNote(id, 'note-owner-changed', { noteId: id, owner: note.owner });
+
+  res.json({
+    success: true,
+    message: 'Ownership transferred successfully',
+    data: { note },
   });
 });
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { AuthRequest } from '@/middleware/auth';
+import { createError, asyncHandler } from '@/middleware/errorHandler';
+import { listNotifications, markRead, unreadCount } from '@/services/notificationService';
+
+export const getNotifications = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { page = 1, limit = 20, unread } = req.query;
+  const pageNumber = Math.max(Number(page) || 1, 1);
+  const limitNumber = Math.min(Math.max(Number(limit) || 20, 1), 100);
+
+  const result = await listNotifications(req.user!.userId, {
+    unread: unread === 'true',
+    page: pageNumber,
+    limit: limitNumber,
+  });
+
+  res.json({
+    success: true,
+    data: {
+      notifications: result.notifications,
+      unreadCount: result.unreadCount,
+      pagination: {
+        page: pageNumber,
+        limit: limitNumber,
+        total: result.total,
+        pages: Math.ceil(result.total / limitNumber),
+      },
+    },
+  });
+});
+
+export const getUnreadCount = asyncHandler(async (req: AuthRequest, res: Response) => {
+  res.json({
+    success: true,
+    data: { unreadCount: await unreadCount(req.user!.userId) },
+  });
+});
+
+// Marks the listed notifications as read, or all of them without a list
+export const markNotificationsRead = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { ids } = req.body;
+
+  const updated = await markRead(req.user!.userId, ids);
+
+  res.json({
+    success: true,
+    message: 'Notifications marked as read',
+    data: { updated },
+  });
+});
+
+export const markNotificationRead = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    throw createError('Invalid notification ID', 400);
+  }
+
+  await markRead(req.user!.userId, [id]);
+
+  res.json({
+    success: true,
+    message: 'Notification marked as read',
+  });
+});
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { Response } from 'express';
+import { AuthRequest } from '@/middleware/auth';
+import { createError, asyncHandler } from '@/middleware/errorHandler';
+import { SearchFilters, SearchPage, parseSearchQuery, searchNotes } from '@/services/searchService';
+import { parseNoteQueryFilters } from '@/utils/query';
+
+const MAX_QUERY_LENGTH = 200;
+
+// ?owner=me|<userId>&shared=true&role=<role>&date=created|updated&from=<date>&to=<date>&versions=true
+const parseFilters = (query: AuthRequest['query'], userId: string): SearchFilters => {
+  return {
+    ...parseNoteQueryFilters(query, userId),
+    sharedWithMe: query.shared === 'true',
+    includeVersions: query.versions === 'true',
+  };
+};
+
+const parsePage = (query: AuthRequest['query']): SearchPage => {
+  const { page = 1, limit = 20 } = query;
+  return {
+    page: Math.max(Number(page) || 1, 1),
+    limit: Math.min(Math.max(Number(limit) || 20, 1), 50),
+  };
+};
+
+export const search = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.userId;
+  const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+  if (!q) {
+    throw createError('q is required', 400);
+  }
+  if (q.length > MAX_QUERY_LENGTH) {
+    throw createError(`q cannot exceed ${MAX_QUERY_LENGTH} characters`, 400);
+  }
+
+  const page = parsePage(req.query);
+  const { results, total, truncated, versions } = await searchNotes(
+    userId,
+    parseSearchQuery(q),
+    parseFilters(req.query, userId),
+    page
+  );
+
+  res.json({
+    success: true,
+    data: {
+      results,
+      truncated,
+      ...(versions && { versions: versions.matches, versionsTruncated: versions.truncated }),
+      pagination: {
+        page: page.page,
+        limit: page.limit,
+        total,
+        pages: Math.ceil(total / page.limit),
+      },
+    },
+  });
+});
\ No newline at end of file
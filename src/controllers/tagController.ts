@@ -0,0 +1,79 @@
+import { Response } from 'express';
+import { AuthRequest } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import {
+  listTags,
+  suggestTags,
+  renameTag as renameUserTag,
+  mergeTags as mergeUserTags,
+  deleteTag as deleteUserTag,
+} from '@/services/tagService';
+
+export const getTags = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const tags = await listTags(req.user!.userId);
+
+  res.json({
+    success: true,
+    data: { tags },
+  });
+});
+
+export const autocompleteTags = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { q, limit = 10 } = req.query;
+
+  if (!q || typeof q !== 'string') {
+    res.json({
+      success: true,
+      data: { tags: [] },
+    });
+    return;
+  }
+
+  const tags = await suggestTags(
+    req.user!.userId,
+    q,
+    Math.min(Math.max(Number(limit) || 10, 1), 50)
+  );
+
+  res.json({
+    success: true,
+    data: { tags },
+  });
+});
+
+export const renameTag = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { tag } = req.params;
+  const { name } = req.body;
+
+  const modified = await renameUserTag(req.user!.userId, tag, name);
+
+  res.json({
+    success: true,
+    message: 'Tag renamed successfully',
+    data: { modified },
+  });
+});
+
+export const mergeTags = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { tags, into } = req.body;
+
+  const modified = await mergeUserTags(req.user!.userId, tags, into);
+
+  res.json({
+    success: true,
+    message: 'Tags merged successfully',
+    data: { modified },
+  });
+});
+
+export const deleteTag = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const { tag } = req.params;
+
+  const modified = await deleteUserTag(req.user!.userId, tag);
+
+  res.json({
+    success: true,
+    message: 'Tag deleted successfully',
+    data: { modified },
+  });
+});
\ No newline at end of file
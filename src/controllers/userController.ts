@@ -2,6 +2,7 @@ import { Response } from 'express';
 import User from '@/models/User';
 import { AuthRequest } from '@/middleware/auth';
 import { asyncHandler } from '@/middleware/errorHandler';
+import { getStorageUsage } from '@/services/attachmentService';
 
 export const searchUsers = asyncHandler(async (req: AuthRequest, res: Response) => {
   const { q, limit = 10 } = req.query;
@@ -29,4 +30,13 @@ export const searchUsers = asyncHandler(async (req: AuthRequest, res: Response)
     success: true,
     data: { users },
   });
+});
+
+export const getStorage = asyncHandler(async (req: AuthRequest, res: Response) => {
+  const storage = await getStorageUsage(req.user!.userId);
+
+  res.json({
+    success: true,
+    data: { storage },
+  });
 });
\ No newline at end of file
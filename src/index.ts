@@ -12,16 +12,35 @@ import { connectDB } from '@/config/database';
 import { config } from '@/config/config';
 import { errorHandler } from '@/middleware/errorHandler';
 import { setupSwagger } from '@/config/swagger';
-import { setupSocketHandlers } from '@/sockets/socketHandler';
+import {
+  setupSocketHandlers,
+  announceStalePresence,
+  releasePresence,
+  startPresenceSweep,
+} from '@/sockets/socketHandler';
+import { setupSocketAdapter, closeSocketAdapter } from '@/sockets/adapter';
+import { SocketServer } from '@/sockets/emitter';
+import { startPresenceHeartbeat } from '@/services/presenceService';
+import { startTrashPurge } from '@/services/trashService';
+import { startExportCleanup } from '@/services/exportService';
+import { startImportCleanup } from '@/services/importService';
 
 // Import routes
 import authRoutes from '@/routes/auth';
 import noteRoutes from '@/routes/notes';
 import userRoutes from '@/routes/users';
+import tagRoutes from '@/routes/tags';
+import folderRoutes from '@/routes/folders';
+import sharedRoutes from '@/routes/shared';
+import invitationRoutes from '@/routes/invitations';
+import notificationRoutes from '@/routes/notifications';
+import activityRoutes from '@/routes/activity';
+import exportRoutes from '@/routes/exports';
+import searchRoutes from '@/routes/search';
 
 const app = express();
 const server = createServer(app);
-const io = new Server(server, {
+const io: SocketServer = new Server(server, {
   cors: {
     origin: config.corsOrigin,
     credentials: true,
@@ -57,6 +76,14 @@ app.get('/health', (_req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/notes', noteRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/folders', folderRoutes);
+app.use('/api/shared', sharedRoutes);
+app.use('/api/invitations', invitationRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/activity', activityRoutes);
+app.use('/api/exports', exportRoutes);
+app.use('/api/search', searchRoutes);
 
 // Setup Swagger documentation
 setupSwagger(app);
@@ -76,6 +103,20 @@ const startServer = async () => {
   try {
     // Connect to database
     await connectDB();
+    await setupSocketAdapter(io);
+
+    // Tests purge on their own terms
+    if (config.env !== 'test') {
+      startTrashPurge();
+      startExportCleanup();
+      startImportCleanup();
+      startPresenceHeartbeat((entries) => {
+        announceStalePresence(io, entries).catch((error) => {
+          console.error('Error announcing stale presence:', error);
+        });
+      });
+      startPresenceSweep(io);
+    }
     
     // Start server
     server.listen(config.port, () => {
@@ -89,19 +130,27 @@ const startServer = async () => {
   }
 };
 
+// Other instances learn right away that this one's users left
+const shutdown = () => {
+  releasePresence(io)
+    .then(closeSocketAdapter)
+    .catch((error) => console.error('Error releasing presence:', error))
+    .finally(() => {
+      server.close(() => {
+        console.log('Process terminated');
+      });
+    });
+};
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully');
-  server.close(() => {
-    console.log('Process terminated');
-  });
+  shutdown();
 });
 
 process.on('SIGINT', () => {
   console.log('SIGINT received, shutting down gracefully');
-  server.close(() => {
-    console.log('Process terminated');
-  });
+  shutdown();
 });
 
 startServer();
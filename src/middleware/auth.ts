@@ -2,12 +2,17 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { config } from '@/config/config';
 import { AuthPayload } from '@/types';
+import { findActiveSession, touchSession } from '@/services/sessionService';
 
 export interface AuthRequest extends Request {
   user?: AuthPayload;
 }
 
-export const authenticateToken = (req: AuthRequest, res: Response, next: NextFunction): void => {
+export const authenticateToken = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   const authHeader = req.headers.authorization;
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
 
@@ -16,24 +21,40 @@ export const authenticateToken = (req: AuthRequest, res: Response, next: NextFun
     return;
   }
 
+  let decoded: AuthPayload;
   try {
-    const decoded = jwt.verify(token, config.jwt.secret) as AuthPayload;
-    req.user = decoded;
-    next();
+    decoded = jwt.verify(token, config.jwt.secret) as AuthPayload;
   } catch (error) {
     res.status(403).json({ message: 'Invalid or expired token' });
     return;
   }
+
+  try {
+    // Tokens stop working as soon as their session is revoked
+    const session = await findActiveSession(decoded.sessionId);
+    if (!session) {
+      res.status(401).json({ message: 'Session has been revoked' });
+      return;
+    }
+
+    await touchSession(session, { ip: req.ip });
+    req.user = decoded;
+    next();
+  } catch (error) {
+    next(error);
+  }
 };
 
-export const optionalAuth = (req: AuthRequest, _res: Response, next: NextFunction) => {
+export const optionalAuth = async (req: AuthRequest, _res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
   const token = authHeader && authHeader.split(' ')[1];
 
   if (token) {
     try {
       const decoded = jwt.verify(token, config.jwt.secret) as AuthPayload;
-      req.user = decoded;
+      if (await findActiveSession(decoded.sessionId)) {
+        req.user = decoded;
+      }
     } catch (error) {
       // Token is invalid, but we continue without user
     }
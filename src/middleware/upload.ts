@@ -0,0 +1,83 @@
+import { Request, Response, NextFunction } from 'express';
+import path from 'path';
+import multer from 'multer';
+import { config } from '@/config/config';
+import { createError } from '@/middleware/errorHandler';
+
+// What the upload leaves in req.file, as far as the services care
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export interface UploadOptions {
+  maxSizeBytes: number;
+  allowedTypes?: string[];
+  // For formats browsers do not agree on a MIME type for, e.g. Markdown
+  allowedExtensions?: string[];
+}
+
+export const attachmentUploads: UploadOptions = {
+  maxSizeBytes: config.attachments.maxSizeBytes,
+  allowedTypes: config.attachments.allowedTypes,
+};
+
+export const importUploads: UploadOptions = {
+  maxSizeBytes: config.imports.maxSizeBytes,
+  allowedExtensions: ['.md', '.markdown', '.txt', '.zip', '.enex'],
+};
+
+const createUpload = ({ maxSizeBytes, allowedTypes, allowedExtensions }: UploadOptions) => {
+  return multer({
+    // Files are small enough to hold in memory until they are processed
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: maxSizeBytes,
+      files: 1,
+    },
+    // Browsers send UTF-8 file names without saying so
+    defParamCharset: 'utf8',
+    fileFilter: (_req, file, callback) => {
+      if (allowedTypes && !allowedTypes.includes(file.mimetype)) {
+        callback(createError(`File type ${file.mimetype} is not allowed`, 415));
+        return;
+      }
+      const extension = path.extname(file.originalname).toLowerCase();
+      if (allowedExtensions && !allowedExtensions.includes(extension)) {
+        callback(createError(`Only ${allowedExtensions.join(', ')} files are allowed`, 415));
+        return;
+      }
+      callback(null, true);
+    },
+  });
+};
+
+// Parses a single multipart file into req.file, with multer errors turned into API errors
+export const uploadFile = (field: string, options: UploadOptions = attachmentUploads) => {
+  const handler = createUpload(options).single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res, (error?: unknown) => {
+      if (error instanceof multer.MulterError) {
+        if (error.code === 'LIMIT_FILE_SIZE') {
+          const maxSizeMb = options.maxSizeBytes / (1024 * 1024);
+          next(createError(`File cannot exceed ${maxSizeMb} MB`, 413));
+          return;
+        }
+        next(createError(error.message, 400));
+        return;
+      }
+      if (error) {
+        next(error);
+        return;
+      }
+      if (!req.file) {
+        next(createError(`A file is required in the "${field}" field`, 400));
+        return;
+      }
+      next();
+    });
+  };
+};
\ No newline at end of file
@@ -1,5 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
+import { ROLES, LINK_ROLES } from '@/utils/permissions';
+import { EXPORT_FORMATS } from '@/models/ExportJob';
+import { NOTE_FORMATS } from '@/utils/content';
+import { ClientToServerEvents, NoteFormat } from '@/types';
 
 export const validate = (schema: Joi.ObjectSchema) => {
   return (req: Request, res: Response, next: NextFunction): void => {
@@ -18,6 +22,25 @@ export const validate = (schema: Joi.ObjectSchema) => {
   };
 };
 
+// Checks the query string, and replaces it with the converted values (numbers, defaults)
+export const validateQuery = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { error, value } = schema.validate(req.query);
+
+    if (error) {
+      const message = error.details.map((detail) => detail.message).join(', ');
+      res.status(400).json({
+        success: false,
+        message: `Validation Error: ${message}`,
+      });
+      return;
+    }
+
+    req.query = value;
+    next();
+  };
+};
+
 // Validation schemas
 export const registerSchema = Joi.object({
   username: Joi.string().alphanum().min(3).max(30).required(),
@@ -30,17 +53,277 @@ export const loginSchema = Joi.object({
   password: Joi.string().required(),
 });
 
+export const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string().required(),
+});
+
+export const forgotPasswordSchema = Joi.object({
+  email: Joi.string().email().required(),
+});
+
+export const resetPasswordSchema = Joi.object({
+  token: Joi.string().required(),
+  password: Joi.string().min(6).required(),
+});
+
+export const verifyEmailSchema = Joi.object({
+  token: Joi.string().required(),
+});
+
+const tagSchema = Joi.string().trim().min(1).max(50);
+
+const objectIdSchema = Joi.string().hex().length(24);
+
+const noteFormatSchema = Joi.string().valid(...NOTE_FORMATS);
+
+// Rich text documents are trees of ProseMirror-style nodes: { type, attrs, content, text, marks }
+const richTextMarkSchema = Joi.object({
+  type: Joi.string().valid('bold', 'italic', 'underline', 'strike', 'code', 'link').required(),
+  attrs: Joi.when('type', {
+    is: 'link',
+    then: Joi.object({
+      href: Joi.string()
+        .uri({ scheme: ['http', 'https', 'mailto'] })
+        .required(),
+      title: Joi.string().allow(''),
+    }).required(),
+    otherwise: Joi.forbidden(),
+  }),
+});
+
+const RICH_TEXT_BLOCKS = [
+  'paragraph',
+  'heading',
+  'blockquote',
+  'codeBlock',
+  'bulletList',
+  'orderedList',
+  'listItem',
+  'taskList',
+  'taskItem',
+  'horizontalRule',
+];
+
+const richTextNodeSchema = Joi.object({
+  type: Joi.string()
+    .valid(...RICH_TEXT_BLOCKS, 'text', 'hardBreak')
+    .required(),
+  attrs: Joi.when('type', {
+    switch: [
+      {
+        is: 'heading',
+        then: Joi.object({ level: Joi.number().integer().min(1).max(6).required() }),
+      },
+      { is: 'codeBlock', then: Joi.object({ language: Joi.string().max(50).allow(null) }) },
+      { is: 'orderedList', then: Joi.object({ start: Joi.number().integer().min(1) }) },
+      { is: 'taskItem', then: Joi.object({ checked: Joi.boolean().required() }) },
+    ],
+    otherwise: Joi.forbidden(),
+  }),
+  content: Joi.when('type', {
+    is: Joi.valid('text', 'hardBreak', 'horizontalRule'),
+    then: Joi.forbidden(),
+    otherwise: Joi.array().items(Joi.link('#richTextNode')),
+  }),
+  text: Joi.when('type', {
+    is: 'text',
+    then: Joi.string().min(1).required(),
+    otherwise: Joi.forbidden(),
+  }),
+  marks: Joi.when('type', {
+    is: 'text',
+    then: Joi.array().items(richTextMarkSchema),
+    otherwise: Joi.forbidden(),
+  }),
+}).id('richTextNode');
+
+export const richTextDocumentSchema = Joi.object({
+  type: Joi.string().valid('doc').required(),
+  content: Joi.array().items(richTextNodeSchema).required(),
+});
+
+// Deeper documents are refused before they are walked
+const MAX_RICH_TEXT_DEPTH = 50;
+
+const tooDeep = (node: unknown, depth = 0): boolean => {
+  if (depth > MAX_RICH_TEXT_DEPTH) return true;
+  const content = (node as { content?: unknown } | null)?.content;
+  return Array.isArray(content) && content.some((child) => tooDeep(child, depth + 1));
+};
+
+// Checks content against the note's format, returning what is wrong with it if anything
+export const validateNoteContent = (content: string, format: NoteFormat): string | null => {
+  if (format !== 'richtext-json' || content === '') return null;
+
+  let document: unknown;
+  try {
+    document = JSON.parse(content);
+  } catch (error) {
+    return 'content must be a JSON rich text document';
+  }
+  if (tooDeep(document)) {
+    return `content cannot be nested more than ${MAX_RICH_TEXT_DEPTH} levels deep`;
+  }
+
+  const { error } = richTextDocumentSchema.validate(document);
+  return error ? error.details.map((detail) => detail.message).join(', ') : null;
+};
+
 export const createNoteSchema = Joi.object({
   title: Joi.string().max(200).required(),
   content: Joi.string().allow('').default(''),
+  format: noteFormatSchema,
+  tags: Joi.array().items(tagSchema).max(20),
+  folder: objectIdSchema.allow(null),
 });
 
 export const updateNoteSchema = Joi.object({
   title: Joi.string().max(200),
   content: Joi.string().allow(''),
+  format: noteFormatSchema,
 }).min(1);
 
 export const addCollaboratorSchema = Joi.object({
   email: Joi.string().email().required(),
-  role: Joi.string().valid('read', 'write').default('read'),
-});
\ No newline at end of file
+  role: Joi.string()
+    .valid(...ROLES)
+    .default('read'),
+});
+
+export const labelVersionSchema = Joi.object({
+  label: Joi.string().trim().max(100).allow('', null).required(),
+});
+
+export const noteTagsSchema = Joi.object({
+  tags: Joi.array().items(tagSchema).max(20).required(),
+});
+
+export const renameTagSchema = Joi.object({
+  name: tagSchema.required(),
+});
+
+export const mergeTagsSchema = Joi.object({
+  tags: Joi.array().items(tagSchema).min(1).required(),
+  into: tagSchema.required(),
+});
+
+export const moveNoteSchema = Joi.object({
+  folder: objectIdSchema.allow(null).required(),
+});
+
+export const folderContentsQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+export const createFolderSchema = Joi.object({
+  name: Joi.string().trim().max(100).required(),
+  parent: objectIdSchema.allow(null),
+});
+
+export const updateFolderSchema = Joi.object({
+  name: Joi.string().trim().max(100).required(),
+});
+
+export const moveFolderSchema = Joi.object({
+  parent: objectIdSchema.allow(null).required(),
+});
+
+export const createShareLinkSchema = Joi.object({
+  role: Joi.string()
+    .valid(...LINK_ROLES)
+    .default('read'),
+  expiresAt: Joi.date().iso().greater('now'),
+  maxViews: Joi.number().integer().min(1),
+  password: Joi.string().min(4).max(100),
+});
+
+export const transferOwnershipSchema = Joi.object({
+  userId: objectIdSchema.required(),
+});
+
+const commentTextSchema = Joi.string().trim().min(1).max(5000);
+
+export const createCommentSchema = Joi.object({
+  body: commentTextSchema.required(),
+  anchor: Joi.object({
+    start: Joi.number().integer().min(0).required(),
+    end: Joi.number().integer().min(Joi.ref('start')).required(),
+    revision: Joi.number().integer().min(0),
+  }).required(),
+});
+
+export const commentBodySchema = Joi.object({
+  body: commentTextSchema.required(),
+});
+
+export const markNotificationsReadSchema = Joi.object({
+  ids: Joi.array().items(objectIdSchema).min(1).max(100),
+});
+
+export const createExportSchema = Joi.object({
+  format: Joi.string().valid(...EXPORT_FORMATS),
+  includeShared: Joi.boolean(),
+});
+
+// Socket.io event payloads, checked before the event's handler runs
+const socketNoteRefSchema = Joi.object({
+  noteId: objectIdSchema.required(),
+});
+
+// join-note and leave-note also take the bare note ID older clients send
+const noteRefOrIdSchema = Joi.alternatives().try(
+  socketNoteRefSchema,
+  objectIdSchema.custom((noteId) => ({ noteId }))
+);
+
+export const socketEventSchemas = {
+  'join-note': noteRefOrIdSchema.required(),
+  'leave-note': noteRefOrIdSchema.required(),
+  'note-update': Joi.object({
+    noteId: objectIdSchema.required(),
+    revision: Joi.number().integer().min(0).required(),
+    operation: Joi.array().items(Joi.number().integer(), Joi.string()).required(),
+    title: Joi.string().max(200),
+  }).required(),
+  'cursor-update': Joi.object({
+    noteId: objectIdSchema.required(),
+    position: Joi.number().integer().min(0).required(),
+    selection: Joi.object({
+      start: Joi.number().integer().min(0).required(),
+      end: Joi.number().integer().min(Joi.ref('start')).required(),
+    }),
+  }).required(),
+  'typing-start': socketNoteRefSchema.required(),
+  'typing-stop': socketNoteRefSchema.required(),
+  'presence-heartbeat': Joi.object({
+    noteId: objectIdSchema.required(),
+    active: Joi.boolean(),
+  }).required(),
+  // Guests have IDs like guest:<socket ID>, so any ID is accepted
+  'follow-user': Joi.object({
+    noteId: objectIdSchema.required(),
+    userId: Joi.string().max(100).required(),
+  }).required(),
+  'unfollow-user': Joi.any(),
+  'viewport-update': Joi.object({
+    noteId: objectIdSchema.required(),
+    from: Joi.number().integer().min(0).required(),
+    to: Joi.number().integer().min(Joi.ref('from')).required(),
+  }).required(),
+} satisfies Record<keyof ClientToServerEvents, Joi.Schema>;
+
+export type SocketEvent = keyof typeof socketEventSchemas;
+
+// The payload with its conversions applied, or why it is invalid
+export const validateSocketPayload = (
+  event: SocketEvent,
+  payload: unknown
+): { value: unknown; error?: undefined } | { value?: undefined; error: string } => {
+  const { error, value } = socketEventSchemas[event].validate(payload);
+  if (error) {
+    const message = error.details.map((detail) => detail.message).join(', ');
+    return { error: `Validation Error: ${message}` };
+  }
+  return { value };
+};
\ No newline at end of file
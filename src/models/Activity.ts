@@ -0,0 +1,139 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Activity:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Activity entry unique identifier
+ *         note:
+ *           type: string
+ *           description: ID of the note, kept after the note is deleted
+ *         noteTitle:
+ *           type: string
+ *           description: Title of the note when the entry was recorded
+ *         noteOwner:
+ *           type: string
+ *           description: User ID who owned the note at the time
+ *         actor:
+ *           type: string
+ *           nullable: true
+ *           description: User ID who did it, null for share link guests and automatic jobs
+ *         actorName:
+ *           type: string
+ *         action:
+ *           type: string
+ *           enum:
+ *             - note.created
+ *             - note.updated
+ *             - note.title-changed
+ *             - note.deleted
+ *             - note.restored
+ *             - note.purged
+ *             - note.ownership-transferred
+ *             - note.joined
+ *             - collaborator.added
+ *             - collaborator.removed
+ *             - collaborator.role-changed
+ *             - share-link.created
+ *             - share-link.revoked
+ *             - share-link.used
+ *             - attachment.added
+ *             - attachment.deleted
+ *         details:
+ *           type: object
+ *           description: Action specific data, e.g. the old and new title
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export const ACTIVITY_ACTIONS = [
+  'note.created',
+  'note.updated',
+  'note.title-changed',
+  'note.deleted',
+  'note.restored',
+  'note.purged',
+  'note.ownership-transferred',
+  'note.joined',
+  'collaborator.added',
+  'collaborator.removed',
+  'collaborator.role-changed',
+  'share-link.created',
+  'share-link.revoked',
+  'share-link.used',
+  'attachment.added',
+  'attachment.deleted',
+] as const;
+
+export type ActivityAction = (typeof ACTIVITY_ACTIONS)[number];
+
+export interface IActivity extends Document {
+  _id: mongoose.Types.ObjectId;
+  note: mongoose.Types.ObjectId;
+  noteTitle: string;
+  noteOwner: mongoose.Types.ObjectId;
+  actor: mongoose.Types.ObjectId | null;
+  actorName: string;
+  action: ActivityAction;
+  details: Record<string, unknown>;
+  createdAt: Date;
+}
+
+const activitySchema = new Schema<IActivity>(
+  {
+    note: {
+      type: Schema.Types.ObjectId,
+      ref: 'Note',
+      required: true,
+    },
+    noteTitle: {
+      type: String,
+      default: '',
+    },
+    noteOwner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    // Kept as it was, so the trail still reads right after renames and deletions
+    actorName: {
+      type: String,
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: ACTIVITY_ACTIONS,
+      required: true,
+    },
+    details: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    minimize: false,
+  }
+);
+
+// The log is append-only, entries are never changed once written
+activitySchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], function () {
+  throw new Error('Activity entries cannot be changed');
+});
+
+activitySchema.index({ note: 1, createdAt: -1 });
+activitySchema.index({ actor: 1, createdAt: -1 });
+activitySchema.index({ noteOwner: 1, createdAt: -1 });
+
+export default mongoose.model<IActivity>('Activity', activitySchema);
\ No newline at end of file
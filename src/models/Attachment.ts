@@ -0,0 +1,117 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Attachment:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Attachment unique identifier
+ *         note:
+ *           type: string
+ *           description: ID of the note the file is attached to
+ *         uploadedBy:
+ *           $ref: '#/components/schemas/User'
+ *         fileName:
+ *           type: string
+ *         mimeType:
+ *           type: string
+ *         size:
+ *           type: integer
+ *           description: Size in bytes, counted against the uploader's storage quota
+ *         hasThumbnail:
+ *           type: boolean
+ *         width:
+ *           type: integer
+ *           description: Image width in pixels
+ *         height:
+ *           type: integer
+ *           description: Image height in pixels
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export interface IAttachment extends Document {
+  _id: mongoose.Types.ObjectId;
+  note: mongoose.Types.ObjectId;
+  uploadedBy: mongoose.Types.ObjectId;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  storageKey: string;
+  thumbnailKey: string | null;
+  hasThumbnail: boolean;
+  width?: number;
+  height?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const attachmentSchema = new Schema<IAttachment>(
+  {
+    note: {
+      type: Schema.Types.ObjectId,
+      ref: 'Note',
+      required: true,
+    },
+    uploadedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    fileName: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [255, 'File name cannot exceed 255 characters'],
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    // Where the files are in storage, never sent to clients
+    storageKey: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    thumbnailKey: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    hasThumbnail: {
+      type: Boolean,
+      default: false,
+    },
+    width: {
+      type: Number,
+    },
+    height: {
+      type: Number,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: Record<string, unknown>) => {
+        delete ret.storageKey;
+        delete ret.thumbnailKey;
+        return ret;
+      },
+    },
+  }
+);
+
+attachmentSchema.index({ note: 1, createdAt: -1 });
+
+export default mongoose.model<IAttachment>('Attachment', attachmentSchema);
\ No newline at end of file
@@ -0,0 +1,171 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CommentAnchor:
+ *       type: object
+ *       properties:
+ *         start:
+ *           type: integer
+ *           description: Offset of the first commented character
+ *         end:
+ *           type: integer
+ *           description: Offset just past the last commented character
+ *         quote:
+ *           type: string
+ *           description: Text the range covered when the comment was made
+ *         revision:
+ *           type: integer
+ *           description: Note revision the offsets refer to
+ *     Comment:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Comment unique identifier
+ *         note:
+ *           type: string
+ *           description: ID of the note the comment is on
+ *         author:
+ *           $ref: '#/components/schemas/User'
+ *         parent:
+ *           type: string
+ *           nullable: true
+ *           description: ID of the thread's first comment, null for the first comment itself
+ *         body:
+ *           type: string
+ *         anchor:
+ *           $ref: '#/components/schemas/CommentAnchor'
+ *         resolved:
+ *           type: boolean
+ *         resolvedBy:
+ *           type: string
+ *           nullable: true
+ *         resolvedAt:
+ *           type: string
+ *           format: date-time
+ *         editedAt:
+ *           type: string
+ *           format: date-time
+ *         deleted:
+ *           type: boolean
+ *           description: Set on a removed thread start that is kept for its replies
+ *         replies:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Comment'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export interface ICommentAnchor {
+  start: number;
+  end: number;
+  quote: string;
+  revision: number;
+}
+
+export interface IComment extends Document {
+  _id: mongoose.Types.ObjectId;
+  note: mongoose.Types.ObjectId;
+  author: mongoose.Types.ObjectId;
+  parent: mongoose.Types.ObjectId | null;
+  body: string;
+  // Only the first comment of a thread is anchored, replies follow it
+  anchor?: ICommentAnchor;
+  resolved: boolean;
+  resolvedBy: mongoose.Types.ObjectId | null;
+  resolvedAt?: Date;
+  editedAt?: Date;
+  deleted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const anchorSchema = new Schema<ICommentAnchor>(
+  {
+    start: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    end: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    quote: {
+      type: String,
+      default: '',
+    },
+    revision: {
+      type: Number,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const commentSchema = new Schema<IComment>(
+  {
+    note: {
+      type: Schema.Types.ObjectId,
+      ref: 'Note',
+      required: true,
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    parent: {
+      type: Schema.Types.ObjectId,
+      ref: 'Comment',
+      default: null,
+    },
+    body: {
+      type: String,
+      required: [true, 'Comment cannot be empty'],
+      trim: true,
+      maxlength: [5000, 'Comment cannot exceed 5000 characters'],
+    },
+    anchor: {
+      type: anchorSchema,
+    },
+    resolved: {
+      type: Boolean,
+      default: false,
+    },
+    resolvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    resolvedAt: {
+      type: Date,
+    },
+    editedAt: {
+      type: Date,
+    },
+    deleted: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: Record<string, unknown>) => {
+        if (ret.deleted) ret.body = '';
+        return ret;
+      },
+    },
+  }
+);
+
+commentSchema.index({ note: 1, parent: 1, createdAt: 1 });
+
+export default mongoose.model<IComment>('Comment', commentSchema);
\ No newline at end of file
@@ -0,0 +1,121 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ExportJob:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Export unique identifier
+ *         format:
+ *           type: string
+ *           enum: [md, html, json]
+ *         includeShared:
+ *           type: boolean
+ *           description: Whether notes shared with the user are included
+ *         status:
+ *           type: string
+ *           enum: [pending, running, completed, failed]
+ *         noteCount:
+ *           type: integer
+ *         size:
+ *           type: integer
+ *           description: Size of the zip archive in bytes
+ *         error:
+ *           type: string
+ *         completedAt:
+ *           type: string
+ *           format: date-time
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the archive is deleted
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export const EXPORT_FORMATS = ['md', 'html', 'json'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface IExportJob extends Document {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  format: ExportFormat;
+  includeShared: boolean;
+  status: ExportStatus;
+  noteCount: number;
+  size: number;
+  storageKey: string | null;
+  error?: string;
+  completedAt?: Date;
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const exportJobSchema = new Schema<IExportJob>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    format: {
+      type: String,
+      enum: EXPORT_FORMATS,
+      required: true,
+    },
+    includeShared: {
+      type: Boolean,
+      default: false,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'running', 'completed', 'failed'],
+      default: 'pending',
+    },
+    noteCount: {
+      type: Number,
+      default: 0,
+    },
+    size: {
+      type: Number,
+      default: 0,
+    },
+    storageKey: {
+      type: String,
+      default: null,
+      select: false,
+    },
+    error: {
+      type: String,
+    },
+    completedAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: Record<string, unknown>) => {
+        delete ret.storageKey;
+        return ret;
+      },
+    },
+  }
+);
+
+exportJobSchema.index({ user: 1, createdAt: -1 });
+exportJobSchema.index({ expiresAt: 1 });
+
+export default mongoose.model<IExportJob>('ExportJob', exportJobSchema);
\ No newline at end of file
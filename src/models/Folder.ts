@@ -0,0 +1,148 @@
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import { Role } from '@/types';
+import { ROLES, strongestRole } from '@/utils/permissions';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Folder:
+ *       type: object
+ *       required:
+ *         - name
+ *         - owner
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Folder unique identifier
+ *         name:
+ *           type: string
+ *           maxLength: 100
+ *         owner:
+ *           type: string
+ *           description: User ID of the folder owner
+ *         parent:
+ *           type: string
+ *           nullable: true
+ *           description: Parent folder ID, null at the top level
+ *         ancestors:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Folder IDs from the top level down to the parent
+ *         collaborators:
+ *           type: array
+ *           description: Grants inherited by every note and folder inside
+ *           items:
+ *             $ref: '#/components/schemas/Collaborator'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+interface IFolderCollaborator {
+  user: mongoose.Types.ObjectId;
+  role: Role;
+  addedAt: Date;
+}
+
+export interface IFolder extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  owner: mongoose.Types.ObjectId;
+  parent: mongoose.Types.ObjectId | null;
+  ancestors: mongoose.Types.ObjectId[];
+  collaborators: IFolderCollaborator[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface IFolderModel extends Model<IFolder> {
+  roleFor(folderId: mongoose.Types.ObjectId | string, userId: string): Promise<Role | null>;
+}
+
+const collaboratorSchema = new Schema<IFolderCollaborator>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  role: {
+    type: String,
+    enum: ROLES,
+    required: true,
+    default: 'read',
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const folderSchema = new Schema<IFolder, IFolderModel>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    parent: {
+      type: Schema.Types.ObjectId,
+      ref: 'Folder',
+      default: null,
+    },
+    // Materialized path, so a subtree is one query away
+    ancestors: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Folder',
+      },
+    ],
+    collaborators: [collaboratorSchema],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+folderSchema.index({ owner: 1, parent: 1 });
+folderSchema.index({ parent: 1, name: 1 });
+folderSchema.index({ ancestors: 1 });
+folderSchema.index({ 'collaborators.user': 1 });
+
+/**
+ * The role a user gets on a folder from it and the folders above it. Owning a
+ * folder counts as admin access to everything inside; otherwise the strongest
+ * grant along the path wins.
+ */
+folderSchema.statics.roleFor = async function (
+  folderId: mongoose.Types.ObjectId | string,
+  userId: string
+): Promise<Role | null> {
+  const folder = await this.findById(folderId).select('ancestors');
+  if (!folder) return null;
+
+  const path = await this.find({ _id: { $in: [folder._id, ...folder.ancestors] } }).select(
+    'owner collaborators'
+  );
+
+  let role: Role | null = null;
+  for (const entry of path) {
+    if (entry.owner.toString() === userId) return 'admin';
+
+    const grant = entry.collaborators.find((c) => c.user.toString() === userId);
+    role = strongestRole(role, grant?.role);
+  }
+  return role;
+};
+
+export default mongoose.model<IFolder, IFolderModel>('Folder', folderSchema);
\ No newline at end of file
@@ -0,0 +1,160 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ImportResult:
+ *       type: object
+ *       properties:
+ *         file:
+ *           type: string
+ *           description: File name, or the note title for Evernote exports
+ *         status:
+ *           type: string
+ *           enum: [imported, failed, skipped]
+ *         note:
+ *           type: string
+ *           description: ID of the created note
+ *         error:
+ *           type: string
+ *     ImportJob:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Import unique identifier
+ *         fileName:
+ *           type: string
+ *         source:
+ *           type: string
+ *           enum: [markdown, text, zip, enex]
+ *         folder:
+ *           type: string
+ *           nullable: true
+ *           description: Folder the notes are created in
+ *         status:
+ *           type: string
+ *           enum: [pending, running, completed, failed]
+ *         imported:
+ *           type: integer
+ *         failed:
+ *           type: integer
+ *         results:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ImportResult'
+ *         error:
+ *           type: string
+ *         completedAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export const IMPORT_SOURCES = ['markdown', 'text', 'zip', 'enex'] as const;
+
+export type ImportSource = (typeof IMPORT_SOURCES)[number];
+
+export type ImportStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface IImportResult {
+  file: string;
+  status: 'imported' | 'failed' | 'skipped';
+  note?: mongoose.Types.ObjectId;
+  error?: string;
+}
+
+export interface IImportJob extends Document {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  fileName: string;
+  source: ImportSource;
+  folder: mongoose.Types.ObjectId | null;
+  status: ImportStatus;
+  imported: number;
+  failed: number;
+  results: IImportResult[];
+  error?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const importResultSchema = new Schema<IImportResult>(
+  {
+    file: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['imported', 'failed', 'skipped'],
+      required: true,
+    },
+    note: {
+      type: Schema.Types.ObjectId,
+      ref: 'Note',
+    },
+    error: {
+      type: String,
+    },
+  },
+  { _id: false }
+);
+
+const importJobSchema = new Schema<IImportJob>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    fileName: {
+      type: String,
+      required: true,
+    },
+    source: {
+      type: String,
+      enum: IMPORT_SOURCES,
+      required: true,
+    },
+    folder: {
+      type: Schema.Types.ObjectId,
+      ref: 'Folder',
+      default: null,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'running', 'completed', 'failed'],
+      default: 'pending',
+    },
+    imported: {
+      type: Number,
+      default: 0,
+    },
+    failed: {
+      type: Number,
+      default: 0,
+    },
+    results: {
+      type: [importResultSchema],
+      default: [],
+    },
+    error: {
+      type: String,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+importJobSchema.index({ user: 1, createdAt: -1 });
+
+export default mongoose.model<IImportJob>('ImportJob', importJobSchema);
\ No newline at end of file
@@ -0,0 +1,105 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { Role } from '@/types';
+import { ROLES } from '@/utils/permissions';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Invitation:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Invitation unique identifier
+ *         note:
+ *           type: string
+ *           description: ID of the note the invitation is for
+ *         invitedBy:
+ *           type: string
+ *           description: User ID of the owner who sent it
+ *         email:
+ *           type: string
+ *           description: Address the invitation was sent to
+ *         invitee:
+ *           type: string
+ *           nullable: true
+ *           description: User ID once the email belongs to an account
+ *         role:
+ *           type: string
+ *           enum: [read, comment, write, admin]
+ *         status:
+ *           type: string
+ *           enum: [pending, accepted, declined, cancelled]
+ *         respondedAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'cancelled';
+
+export interface IInvitation extends Document {
+  _id: mongoose.Types.ObjectId;
+  note: mongoose.Types.ObjectId;
+  invitedBy: mongoose.Types.ObjectId;
+  email: string;
+  invitee: mongoose.Types.ObjectId | null;
+  role: Role;
+  status: InvitationStatus;
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const invitationSchema = new Schema<IInvitation>(
+  {
+    note: {
+      type: Schema.Types.ObjectId,
+      ref: 'Note',
+      required: true,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    // Set when the invite is sent to a registered email, or when that email signs up
+    invitee: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    role: {
+      type: String,
+      enum: ROLES,
+      required: true,
+      default: 'read',
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'accepted', 'declined', 'cancelled'],
+      default: 'pending',
+    },
+    respondedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+invitationSchema.index({ note: 1, status: 1 });
+invitationSchema.index({ invitee: 1, status: 1 });
+invitationSchema.index({ email: 1, status: 1 });
+
+export default mongoose.model<IInvitation>('Invitation', invitationSchema);
\ No newline at end of file
@@ -1,4 +1,8 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import Folder from '@/models/Folder';
+import { Role, Capability, NoteFormat } from '@/types';
+import { ROLES, can, strongestRole } from '@/utils/permissions';
+import { NOTE_FORMATS, toPlainText } from '@/utils/content';
 
 /**
  * @swagger
@@ -12,24 +16,55 @@ import mongoose, { Schema, Document } from 'mongoose';
  *           description: User ID of the collaborator
  *         role:
  *           type: string
- *           enum: [read, write]
- *           description: Permission level of the collaborator
+ *           enum: [read, comment, write, admin]
+ *           description: Permission level of the collaborator (comment can also comment, admin can also manage sharing)
  *         addedAt:
  *           type: string
  *           format: date-time
  *     
- *     NoteVersion:
+ *     RichTextNode:
  *       type: object
+ *       required:
+ *         - type
  *       properties:
- *         content:
+ *         type:
  *           type: string
- *           description: Previous version content
- *         modifiedBy:
+ *           enum: [paragraph, heading, blockquote, codeBlock, bulletList, orderedList, listItem, taskList, taskItem, horizontalRule, hardBreak, text]
+ *         attrs:
+ *           type: object
+ *           description: "heading: { level }, codeBlock: { language }, orderedList: { start }, taskItem: { checked }"
+ *         content:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/RichTextNode'
+ *         text:
  *           type: string
- *           description: User ID who made the change
- *         modifiedAt:
+ *           description: Only on text nodes
+ *         marks:
+ *           type: array
+ *           description: Only on text nodes; links need attrs.href with an http, https or mailto URL
+ *           items:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [bold, italic, underline, strike, code, link]
+ *               attrs:
+ *                 type: object
+ *     
+ *     RichTextDocument:
+ *       type: object
+ *       required:
+ *         - type
+ *         - content
+ *       properties:
+ *         type:
  *           type: string
- *           format: date-time
+ *           enum: [doc]
+ *         content:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/RichTextNode'
  *     
  *     Note:
  *       type: object
@@ -47,7 +82,12 @@ import mongoose, { Schema, Document } from 'mongoose';
  *           description: Note title
  *         content:
  *           type: string
- *           description: Note content
+ *           description: Note content, written in the note's format
+ *         format:
+ *           type: string
+ *           enum: [plain, markdown, richtext-json]
+ *           default: plain
+ *           description: How the content is written; richtext-json content is a serialized RichTextDocument
  *         owner:
  *           type: string
  *           description: User ID of the note owner
@@ -55,10 +95,28 @@ import mongoose, { Schema, Document } from 'mongoose';
  *           type: array
  *           items:
  *             $ref: '#/components/schemas/Collaborator'
- *         versions:
+ *         folder:
+ *           type: string
+ *           nullable: true
+ *           description: Folder the note is in, its collaborators also get access to the note
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Tags set by the owner, visible to everyone with access
+ *         personalTags:
  *           type: array
  *           items:
- *             $ref: '#/components/schemas/NoteVersion'
+ *             type: string
+ *           description: Tags the requesting collaborator added for themselves
+ *         revision:
+ *           type: integer
+ *           description: Number of content changes applied, used to sync live edits
+ *         deletedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When the note was moved to the trash
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -69,26 +127,34 @@ import mongoose, { Schema, Document } from 'mongoose';
 
 interface ICollaborator {
   user: mongoose.Types.ObjectId;
-  role: 'read' | 'write';
+  role: Role;
   addedAt: Date;
 }
 
-interface INoteVersion {
-  content: string;
-  modifiedBy: mongoose.Types.ObjectId;
-  modifiedAt: Date;
+// Tags a collaborator keeps on someone else's note, only shown to them
+export interface IPersonalTags {
+  user: mongoose.Types.ObjectId;
+  tags: string[];
 }
 
 export interface INote extends Document {
   title: string;
   content: string;
+  format: NoteFormat;
+  plainText: string;
   owner: mongoose.Types.ObjectId;
   collaborators: ICollaborator[];
-  versions: INoteVersion[];
+  folder: mongoose.Types.ObjectId | null;
+  tags: string[];
+  personalTags: IPersonalTags[];
+  revision: number;
+  versionSeq: number;
+  deletedAt: Date | null;
+  deletedBy: mongoose.Types.ObjectId | null;
   createdAt: Date;
   updatedAt: Date;
-  isUserAuthorized(userId: string, requiredRole?: 'read' | 'write'): boolean;
-  addVersion(content: string, modifiedBy: string): void;
+  getUserRole(userId: string): Promise<Role | 'owner' | null>;
+  isUserAuthorized(userId: string, capability?: Capability): Promise<boolean>;
 }
 
 const collaboratorSchema = new Schema<ICollaborator>({
@@ -99,7 +165,7 @@ const collaboratorSchema = new Schema<ICollaborator>({
   },
   role: {
     type: String,
-    enum: ['read', 'write'],
+    enum: ROLES,
     required: true,
     default: 'read',
   },
@@ -109,21 +175,17 @@ const collaboratorSchema = new Schema<ICollaborator>({
   },
 });
 
-const versionSchema = new Schema<INoteVersion>({
-  content: {
-    type: String,
-    required: true,
-  },
-  modifiedBy: {
-    type: Schema.Types.ObjectId,
-    ref: 'User',
-    required: true,
-  },
-  modifiedAt: {
-    type: Date,
-    default: Date.now,
+const personalTagsSchema = new Schema<IPersonalTags>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    tags: [String],
   },
-});
+  { _id: false }
+);
 
 const noteSchema = new Schema<INote>(
   {
@@ -138,67 +200,113 @@ const noteSchema = new Schema<INote>(
       required: [true, 'Content is required'],
       default: '',
     },
+    format: {
+      type: String,
+      enum: NOTE_FORMATS,
+      default: 'plain',
+    },
+    // The content without markup, kept for the text index
+    plainText: {
+      type: String,
+      default: '',
+      select: false,
+    },
     owner: {
       type: Schema.Types.ObjectId,
       ref: 'User',
       required: true,
     },
     collaborators: [collaboratorSchema],
-    versions: [versionSchema],
+    folder: {
+      type: Schema.Types.ObjectId,
+      ref: 'Folder',
+      default: null,
+    },
+    tags: [String],
+    // Holds every collaborator's tags, so it is only loaded where it gets filtered per user
+    personalTags: {
+      type: [personalTagsSchema],
+      select: false,
+    },
+    revision: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Highest sequence number a NoteVersion of this note has used, so seqs never go back
+    versionSeq: {
+      type: Number,
+      default: 0,
+      select: false,
+    },
+    // Set while the note is in the trash
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+// Search indexes the words of a note rather than its markup
+noteSchema.pre('save', function () {
+  if (this.isNew || this.isModified('content') || this.isModified('format')) {
+    this.plainText = toPlainText(this.content, this.format);
+  }
+});
+
+// Trashed notes are left out of every query that does not ask about deletedAt itself
+noteSchema.pre(['find', 'findOne', 'countDocuments', 'findOneAndUpdate'], function () {
+  if (this.getFilter().deletedAt === undefined) {
+    this.where({ deletedAt: null });
+  }
+});
+
 // Indexes for better query performance
 noteSchema.index({ owner: 1 });
 noteSchema.index({ 'collaborators.user': 1 });
-noteSchema.index({ title: 'text', content: 'text' });
+noteSchema.index({ folder: 1, updatedAt: -1 });
+noteSchema.index({ owner: 1, tags: 1 });
+noteSchema.index({ 'personalTags.user': 1, 'personalTags.tags': 1 });
+noteSchema.index({ title: 'text', plainText: 'text' });
+noteSchema.index({ owner: 1, deletedAt: 1 });
+// Keyset pages of the listing, one per sort
+noteSchema.index({ owner: 1, updatedAt: -1, _id: -1 });
+noteSchema.index({ owner: 1, createdAt: -1, _id: -1 });
+noteSchema.index({ owner: 1, title: 1, _id: 1 }, { collation: { locale: 'en', strength: 2 } });
 
-// Instance method to check user authorization
-noteSchema.methods.isUserAuthorized = function (
-  userId: string,
-  requiredRole: 'read' | 'write' = 'read'
-): boolean {
-  // Owner has full access
-  if (this.owner.toString() === userId) {
-    return true;
+// The user's role on the note: owner, a direct grant or one inherited from the folder
+noteSchema.methods.getUserRole = async function (userId: string): Promise<Role | 'owner' | null> {
+  // Owner may be populated, and ObjectId._id is the id itself
+  if (this.owner._id.toString() === userId) {
+    return 'owner';
   }
 
-  // Check collaborator permissions
   const collaborator = this.collaborators.find(
-    (c: ICollaborator) => c.user.toString() === userId
+    (c: ICollaborator) => c.user._id.toString() === userId
   );
 
-  if (!collaborator) {
-    return false;
+  // Admin is the strongest grant, no need to look further
+  if (collaborator?.role === 'admin' || !this.folder) {
+    return collaborator?.role ?? null;
   }
 
-  // If read access is required, both read and write roles are allowed
-  if (requiredRole === 'read') {
-    return true;
-  }
-
-  // If write access is required, only write role is allowed
-  return collaborator.role === 'write';
+  return strongestRole(collaborator?.role, await Folder.roleFor(this.folder._id, userId));
 };
 
-// Instance method to add a version when content changes
-noteSchema.methods.addVersion = function (content: string, modifiedBy: string): void {
-  // Only add version if content actually changed
-  if (this.content !== content) {
-    this.versions.push({
-      content: this.content,
-      modifiedBy: new mongoose.Types.ObjectId(modifiedBy),
-      modifiedAt: new Date(),
-    });
-
-    // Limit version history to last 50 versions
-    if (this.versions.length > 50) {
-      this.versions = this.versions.slice(-50);
-    }
-  }
+// Instance method to check user authorization against the capability matrix
+noteSchema.methods.isUserAuthorized = async function (
+  userId: string,
+  capability: Capability = 'read'
+): Promise<boolean> {
+  return can(await this.getUserRole(userId), capability);
 };
 
 export default mongoose.model<INote>('Note', noteSchema);
\ No newline at end of file
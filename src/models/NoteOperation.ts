@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { NoteFormat, TextOperation } from '@/types';
+import { NOTE_FORMATS } from '@/utils/content';
+
+/**
+ * An operation accepted by a live editing session, shared by every API
+ * instance so they all apply the same operations in the same order. Only one
+ * instance can log the operation that takes a note to a given revision.
+ */
+export interface INoteOperation extends Document {
+  _id: mongoose.Types.ObjectId;
+  note: mongoose.Types.ObjectId;
+  // The revision the operation took the note to
+  revision: number;
+  operation: TextOperation;
+  // Set when the title or format changed along with the operation
+  title?: string;
+  format?: NoteFormat;
+  createdAt: Date;
+}
+
+const noteOperationSchema = new Schema<INoteOperation>(
+  {
+    note: {
+      type: Schema.Types.ObjectId,
+      ref: 'Note',
+      required: true,
+    },
+    revision: {
+      type: Number,
+      required: true,
+    },
+    operation: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    title: {
+      type: String,
+    },
+    format: {
+      type: String,
+      enum: NOTE_FORMATS,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+noteOperationSchema.index({ note: 1, revision: 1 }, { unique: true });
+
+export default mongoose.model<INoteOperation>('NoteOperation', noteOperationSchema);
\ No newline at end of file
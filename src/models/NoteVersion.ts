@@ -0,0 +1,113 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { NoteFormat, TextOperation } from '@/types';
+import { NOTE_FORMATS } from '@/utils/content';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     NoteVersion:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Version unique identifier
+ *         seq:
+ *           type: integer
+ *           description: Position of the version in the note's history
+ *         title:
+ *           type: string
+ *           description: Title before the change
+ *         content:
+ *           type: string
+ *           description: Content before the change
+ *         format:
+ *           type: string
+ *           enum: [plain, markdown, richtext-json]
+ *           description: Format of the content before the change
+ *         modifiedBy:
+ *           type: string
+ *           nullable: true
+ *           description: User ID who made the change, null for anonymous share link holders
+ *         shareLink:
+ *           type: string
+ *           nullable: true
+ *           description: Share link an anonymous change was made through
+ *         modifiedAt:
+ *           type: string
+ *           format: date-time
+ *         label:
+ *           type: string
+ *           description: Checkpoint name, labeled versions are never trimmed
+ */
+
+export interface INoteVersion extends Document {
+  _id: mongoose.Types.ObjectId;
+  note: mongoose.Types.ObjectId;
+  seq: number;
+  // Snapshots store the full content, deltas an operation from the previous version's content
+  kind: 'snapshot' | 'delta';
+  content?: string;
+  delta?: TextOperation;
+  // Unset on versions recorded before notes had formats, which were all plain
+  format?: NoteFormat;
+  title: string;
+  modifiedBy: mongoose.Types.ObjectId | null;
+  shareLink: mongoose.Types.ObjectId | null;
+  modifiedAt: Date;
+  label?: string;
+}
+
+const noteVersionSchema = new Schema<INoteVersion>({
+  note: {
+    type: Schema.Types.ObjectId,
+    ref: 'Note',
+    required: true,
+  },
+  seq: {
+    type: Number,
+    required: true,
+  },
+  kind: {
+    type: String,
+    enum: ['snapshot', 'delta'],
+    required: true,
+  },
+  content: {
+    type: String,
+  },
+  delta: {
+    type: Schema.Types.Mixed,
+  },
+  format: {
+    type: String,
+    enum: NOTE_FORMATS,
+  },
+  title: {
+    type: String,
+    required: true,
+  },
+  modifiedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+  },
+  shareLink: {
+    type: Schema.Types.ObjectId,
+    ref: 'ShareLink',
+    default: null,
+  },
+  modifiedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  label: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Label cannot exceed 100 characters'],
+  },
+});
+
+noteVersionSchema.index({ note: 1, seq: 1 }, { unique: true });
+
+export default mongoose.model<INoteVersion>('NoteVersion', noteVersionSchema);
\ No newline at end of file
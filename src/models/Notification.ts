@@ -0,0 +1,131 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { Role } from '@/types';
+import { ROLES } from '@/utils/permissions';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Notification:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Notification unique identifier
+ *         type:
+ *           type: string
+ *           enum: [mention, invitation, collaborator-added, role-changed]
+ *         actor:
+ *           allOf:
+ *             - $ref: '#/components/schemas/User'
+ *           nullable: true
+ *           description: Who caused it, null for anonymous share link holders
+ *         note:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             _id:
+ *               type: string
+ *             title:
+ *               type: string
+ *         folder:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             _id:
+ *               type: string
+ *             name:
+ *               type: string
+ *         comment:
+ *           type: string
+ *           nullable: true
+ *           description: ID of the comment a mention was made in
+ *         role:
+ *           type: string
+ *           enum: [read, comment, write, admin, owner]
+ *           description: Role given, for invitations, additions and role changes
+ *         excerpt:
+ *           type: string
+ *           description: Text around a mention
+ *         readAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export type NotificationType = 'mention' | 'invitation' | 'collaborator-added' | 'role-changed';
+
+export interface INotification extends Document {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  actor: mongoose.Types.ObjectId | null;
+  type: NotificationType;
+  note: mongoose.Types.ObjectId | null;
+  folder: mongoose.Types.ObjectId | null;
+  comment: mongoose.Types.ObjectId | null;
+  role?: Role | 'owner';
+  excerpt?: string;
+  readAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationSchema = new Schema<INotification>(
+  {
+    // Who receives the notification
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    // Who caused it, null for anonymous share link holders
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    type: {
+      type: String,
+      enum: ['mention', 'invitation', 'collaborator-added', 'role-changed'],
+      required: true,
+    },
+    note: {
+      type: Schema.Types.ObjectId,
+      ref: 'Note',
+      default: null,
+    },
+    folder: {
+      type: Schema.Types.ObjectId,
+      ref: 'Folder',
+      default: null,
+    },
+    comment: {
+      type: Schema.Types.ObjectId,
+      ref: 'Comment',
+      default: null,
+    },
+    role: {
+      type: String,
+      enum: [...ROLES, 'owner'],
+    },
+    excerpt: {
+      type: String,
+      maxlength: 300,
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+notificationSchema.index({ user: 1, readAt: 1, createdAt: -1 });
+notificationSchema.index({ note: 1 });
+
+export default mongoose.model<INotification>('Notification', notificationSchema);
\ No newline at end of file
@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { PresenceStatus } from '@/types';
+
+/**
+ * A socket in a note room, shared by every API instance so presence does not
+ * depend on which instance a client is connected to.
+ */
+export interface IPresence extends Document {
+  _id: mongoose.Types.ObjectId;
+  note: mongoose.Types.ObjectId;
+  // A user ID, or "guest:<socketId>" for share link holders without an account
+  userId: string;
+  username: string;
+  socketId: string;
+  // The API instance holding the socket
+  instanceId: string;
+  status: PresenceStatus;
+  typing: boolean;
+  createdAt: Date;
+}
+
+const presenceSchema = new Schema<IPresence>(
+  {
+    note: {
+      type: Schema.Types.ObjectId,
+      ref: 'Note',
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    username: {
+      type: String,
+      required: true,
+    },
+    socketId: {
+      type: String,
+      required: true,
+    },
+    instanceId: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['active', 'idle', 'away'],
+      default: 'active',
+    },
+    typing: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+presenceSchema.index({ note: 1, socketId: 1 }, { unique: true });
+presenceSchema.index({ instanceId: 1 });
+
+export default mongoose.model<IPresence>('Presence', presenceSchema);
\ No newline at end of file
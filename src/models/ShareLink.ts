@@ -0,0 +1,144 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import bcrypt from 'bcryptjs';
+import { Role } from '@/types';
+import { LINK_ROLES } from '@/utils/permissions';
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ShareLink:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *           description: Share link unique identifier
+ *         note:
+ *           type: string
+ *           description: ID of the shared note
+ *         role:
+ *           type: string
+ *           enum: [read, comment, write]
+ *           description: Access granted to whoever holds the link
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         maxViews:
+ *           type: integer
+ *           nullable: true
+ *           description: Number of times the link can be opened
+ *         views:
+ *           type: integer
+ *         hasPassword:
+ *           type: boolean
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+export interface IShareLink extends Document {
+  _id: mongoose.Types.ObjectId;
+  note: mongoose.Types.ObjectId;
+  createdBy: mongoose.Types.ObjectId;
+  role: Role;
+  tokenHash: string;
+  passwordHash?: string;
+  hasPassword: boolean;
+  expiresAt?: Date;
+  maxViews?: number;
+  views: number;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  comparePassword(candidatePassword: string): Promise<boolean>;
+}
+
+const shareLinkSchema = new Schema<IShareLink>(
+  {
+    note: {
+      type: Schema.Types.ObjectId,
+      ref: 'Note',
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: LINK_ROLES,
+      required: true,
+      default: 'read',
+    },
+    // Only a hash of the token is kept, the link itself is shown once
+    tokenHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    passwordHash: {
+      type: String,
+      select: false,
+    },
+    hasPassword: {
+      type: Boolean,
+      default: false,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    maxViews: {
+      type: Number,
+      min: 1,
+    },
+    views: {
+      type: Number,
+      default: 0,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_doc, ret: Record<string, unknown>) => {
+        delete ret.tokenHash;
+        delete ret.passwordHash;
+        return ret;
+      },
+    },
+  }
+);
+
+shareLinkSchema.index({ tokenHash: 1 }, { unique: true });
+shareLinkSchema.index({ note: 1, revokedAt: 1 });
+
+shareLinkSchema.pre('save', async function (next) {
+  if (!this.isModified('passwordHash') || !this.passwordHash) return next();
+
+  try {
+    const salt = await bcrypt.genSalt(10);
+    this.passwordHash = await bcrypt.hash(this.passwordHash, salt);
+    next();
+  } catch (error) {
+    next(error as Error);
+  }
+});
+
+shareLinkSchema.methods.comparePassword = async function (
+  candidatePassword: string
+): Promise<boolean> {
+  return bcrypt.compare(candidatePassword, this.passwordHash);
+};
+
+export default mongoose.model<IShareLink>('ShareLink', shareLinkSchema);
\ No newline at end of file
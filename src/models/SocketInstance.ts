@@ -0,0 +1,22 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// An API instance holding sockets, kept alive by its heartbeats
+export interface ISocketInstance extends Document<string> {
+  _id: string;
+  heartbeatAt: Date;
+}
+
+const socketInstanceSchema = new Schema<ISocketInstance>({
+  _id: {
+    type: String,
+    required: true,
+  },
+  heartbeatAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+socketInstanceSchema.index({ heartbeatAt: 1 });
+
+export default mongoose.model<ISocketInstance>('SocketInstance', socketInstanceSchema);
\ No newline at end of file
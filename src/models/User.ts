@@ -24,6 +24,12 @@ import bcrypt from 'bcryptjs';
  *           type: string
  *           format: email
  *           description: User's email address
+ *         emailVerified:
+ *           type: boolean
+ *           description: Whether the user confirmed their email address
+ *         storageUsed:
+ *           type: integer
+ *           description: Bytes of attachments uploaded by the user
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -37,6 +43,8 @@ export interface IUser extends Document {
   username: string;
   email: string;
   password: string;
+  emailVerified: boolean;
+  storageUsed: number;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -69,6 +77,15 @@ const userSchema = new Schema<IUser>(
       required: [true, 'Password is required'],
       minlength: [6, 'Password must be at least 6 characters'],
     },
+    emailVerified: {
+      type: Boolean,
+      default: false,
+    },
+    storageUsed: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
   },
   {
     timestamps: true,
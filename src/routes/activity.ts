@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { getActivity } from '@/controllers/activityController';
+import { authenticateToken } from '@/middleware/auth';
+
+const router = Router();
+
+// All activity routes require authentication
+router.use(authenticateToken);
+
+/**
+ * @swagger
+ * /activity:
+ *   get:
+ *     summary: Get the account's activity feed, newest first
+ *     description: Everything the user did, and everything done on notes they owned at the time.
+ *     tags: [Activity]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *         description: Comma-separated actions to keep
+ *       - in: query
+ *         name: actor
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Activity retrieved successfully
+ *       400:
+ *         description: Invalid filter
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', getActivity);
+
+export default router;
\ No newline at end of file
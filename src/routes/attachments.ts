@@ -0,0 +1,189 @@
+import { Router } from 'express';
+import {
+  getAttachments,
+  uploadAttachment,
+  downloadAttachment,
+  getAttachmentThumbnail,
+  deleteAttachment,
+} from '@/controllers/attachmentController';
+import { uploadFile } from '@/middleware/upload';
+
+// Mounted under /notes/:id/attachments, which already requires authentication
+const router = Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * /notes/{id}/attachments:
+ *   get:
+ *     summary: List the files attached to a note
+ *     tags: [Attachments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attachments retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     attachments:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Attachment'
+ *       403:
+ *         description: Access denied
+ */
+router.get('/', getAttachments);
+
+/**
+ * @swagger
+ * /notes/{id}/attachments:
+ *   post:
+ *     summary: Attach a file to a note
+ *     description: Images get a thumbnail. The file counts against your storage quota.
+ *     tags: [Attachments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: File uploaded successfully
+ *       400:
+ *         description: No file, or the file is not a valid image
+ *       403:
+ *         description: Write access denied
+ *       413:
+ *         description: File is too large, or the storage quota is exceeded
+ *       415:
+ *         description: File type is not allowed
+ */
+router.post('/', uploadFile('file'), uploadAttachment);
+
+/**
+ * @swagger
+ * /notes/{id}/attachments/{attachmentId}:
+ *   get:
+ *     summary: Download an attached file
+ *     tags: [Attachments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The file, with its original name in Content-Disposition
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Attachment not found
+ */
+router.get('/:attachmentId', downloadAttachment);
+
+/**
+ * @swagger
+ * /notes/{id}/attachments/{attachmentId}/thumbnail:
+ *   get:
+ *     summary: Get the thumbnail of an attached image
+ *     tags: [Attachments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: A WebP thumbnail
+ *         content:
+ *           image/webp:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Attachment not found, or it has no thumbnail
+ */
+router.get('/:attachmentId/thumbnail', getAttachmentThumbnail);
+
+/**
+ * @swagger
+ * /notes/{id}/attachments/{attachmentId}:
+ *   delete:
+ *     summary: Delete an attached file
+ *     description: Uploaders can delete their own files, the owner and admins any file.
+ *     tags: [Attachments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attachment deleted successfully
+ *       403:
+ *         description: You can only delete files you uploaded
+ *       404:
+ *         description: Attachment not found
+ */
+router.delete('/:attachmentId', deleteAttachment);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,285 @@
+import { Router } from 'express';
+import {
+  getComments,
+  createComment,
+  replyComment,
+  updateComment,
+  deleteComment,
+  resolveComment,
+  reopenComment,
+} from '@/controllers/commentController';
+import { validate, createCommentSchema, commentBodySchema } from '@/middleware/validation';
+
+// Mounted under /notes/:id/comments, which already requires authentication
+const router = Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * /notes/{id}/comments:
+ *   get:
+ *     summary: List a note's comment threads with their replies
+ *     description: Anchors are returned for the note's current revision, including unsaved live edits.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, resolved, all]
+ *           default: open
+ *     responses:
+ *       200:
+ *         description: Comments retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     comments:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Comment'
+ *       403:
+ *         description: Access denied
+ */
+router.get('/', getComments);
+
+/**
+ * @swagger
+ * /notes/{id}/comments:
+ *   post:
+ *     summary: Start a comment thread on a range of the note
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - body
+ *               - anchor
+ *             properties:
+ *               body:
+ *                 type: string
+ *                 maxLength: 5000
+ *               anchor:
+ *                 type: object
+ *                 required:
+ *                   - start
+ *                   - end
+ *                 properties:
+ *                   start:
+ *                     type: integer
+ *                   end:
+ *                     type: integer
+ *                   revision:
+ *                     type: integer
+ *                     description: Revision the offsets refer to, defaults to the current one
+ *     responses:
+ *       201:
+ *         description: Comment added successfully
+ *       400:
+ *         description: Comment range is outside of the note content
+ *       403:
+ *         description: Comment access denied
+ *       409:
+ *         description: Revision is too old, please reload the note
+ */
+router.post('/', validate(createCommentSchema), createComment);
+
+/**
+ * @swagger
+ * /notes/{id}/comments/{commentId}/replies:
+ *   post:
+ *     summary: Reply to a comment thread
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - body
+ *             properties:
+ *               body:
+ *                 type: string
+ *                 maxLength: 5000
+ *     responses:
+ *       201:
+ *         description: Reply added successfully
+ *       403:
+ *         description: Comment access denied
+ *       404:
+ *         description: Comment not found
+ */
+router.post('/:commentId/replies', validate(commentBodySchema), replyComment);
+
+/**
+ * @swagger
+ * /notes/{id}/comments/{commentId}:
+ *   put:
+ *     summary: Edit one of your comments
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - body
+ *             properties:
+ *               body:
+ *                 type: string
+ *                 maxLength: 5000
+ *     responses:
+ *       200:
+ *         description: Comment updated successfully
+ *       403:
+ *         description: You can only edit your own comments
+ *       404:
+ *         description: Comment not found
+ */
+router.put('/:commentId', validate(commentBodySchema), updateComment);
+
+/**
+ * @swagger
+ * /notes/{id}/comments/{commentId}:
+ *   delete:
+ *     summary: Delete a comment
+ *     description: Authors can delete their own comments, the owner and admins any comment.
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Comment deleted successfully
+ *       403:
+ *         description: You can only delete your own comments
+ *       404:
+ *         description: Comment not found
+ */
+router.delete('/:commentId', deleteComment);
+
+/**
+ * @swagger
+ * /notes/{id}/comments/{commentId}/resolve:
+ *   post:
+ *     summary: Resolve a comment thread
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Thread resolved successfully
+ *       400:
+ *         description: Only a thread can be resolved
+ *       403:
+ *         description: Comment access denied
+ *       404:
+ *         description: Comment not found
+ */
+router.post('/:commentId/resolve', resolveComment);
+
+/**
+ * @swagger
+ * /notes/{id}/comments/{commentId}/reopen:
+ *   post:
+ *     summary: Reopen a resolved comment thread
+ *     tags: [Comments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Thread reopened successfully
+ *       400:
+ *         description: Only a thread can be resolved
+ *       403:
+ *         description: Comment access denied
+ *       404:
+ *         description: Comment not found
+ */
+router.post('/:commentId/reopen', reopenComment);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { Router } from 'express';
+import {
+  createExport,
+  getExports,
+  getExport,
+  downloadExport,
+  deleteExport,
+} from '@/controllers/exportController';
+import { authenticateToken } from '@/middleware/auth';
+import { validate, createExportSchema } from '@/middleware/validation';
+
+const router = Router();
+
+// All export routes require authentication
+router.use(authenticateToken);
+
+/**
+ * @swagger
+ * /exports:
+ *   post:
+ *     summary: Export all your notes as a zip archive
+ *     description: The archive is built in the background; poll the export or wait for the export-finished socket event, then download it.
+ *     tags: [Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               format:
+ *                 type: string
+ *                 enum: [md, html, json]
+ *                 default: md
+ *                 description: Format of each note; json also includes the version history
+ *               includeShared:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Also export notes shared with you
+ *     responses:
+ *       202:
+ *         description: Export started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     export:
+ *                       $ref: '#/components/schemas/ExportJob'
+ *       409:
+ *         description: An export is already in progress
+ */
+router.post('/', validate(createExportSchema), createExport);
+
+/**
+ * @swagger
+ * /exports:
+ *   get:
+ *     summary: List your exports, newest first
+ *     tags: [Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Exports retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     exports:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ExportJob'
+ */
+router.get('/', getExports);
+
+/**
+ * @swagger
+ * /exports/{id}:
+ *   get:
+ *     summary: Get the status of an export
+ *     tags: [Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Export retrieved successfully
+ *       404:
+ *         description: Export not found
+ */
+router.get('/:id', getExport);
+
+/**
+ * @swagger
+ * /exports/{id}/download:
+ *   get:
+ *     summary: Download a finished export
+ *     tags: [Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The zip archive
+ *         content:
+ *           application/zip:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Export not found
+ *       409:
+ *         description: Export is not ready
+ */
+router.get('/:id/download', downloadExport);
+
+/**
+ * @swagger
+ * /exports/{id}:
+ *   delete:
+ *     summary: Delete an export before it expires
+ *     tags: [Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Export deleted successfully
+ *       404:
+ *         description: Export not found
+ */
+router.delete('/:id', deleteExport);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,324 @@
+import { Router } from 'express';
+import {
+  createFolder,
+  getFolders,
+  getFolder,
+  getFolderContents,
+  updateFolder,
+  moveFolder,
+  deleteFolder,
+  addFolderCollaborator,
+  removeFolderCollaborator,
+} from '@/controllers/folderController';
+import { authenticateToken } from '@/middleware/auth';
+import {
+  validate,
+  validateQuery,
+  folderContentsQuerySchema,
+  createFolderSchema,
+  updateFolderSchema,
+  moveFolderSchema,
+  addCollaboratorSchema,
+} from '@/middleware/validation';
+
+const router = Router();
+
+// All folder routes require authentication
+router.use(authenticateToken);
+
+/**
+ * @swagger
+ * /folders:
+ *   post:
+ *     summary: Create a folder
+ *     tags: [Folders]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               parent:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Parent folder ID, needs write access
+ *     responses:
+ *       201:
+ *         description: Folder created successfully
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Access denied to the parent folder
+ */
+router.post('/', validate(createFolderSchema), createFolder);
+
+/**
+ * @swagger
+ * /folders:
+ *   get:
+ *     summary: Get the user's top-level folders and the folders shared with them
+ *     tags: [Folders]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Folders retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     folders:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Folder'
+ *                     shared:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Folder'
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', getFolders);
+
+/**
+ * @swagger
+ * /folders/{id}:
+ *   get:
+ *     summary: Get a folder with its path and the user's role on it
+ *     tags: [Folders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Folder retrieved successfully
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Folder not found
+ */
+router.get('/:id', getFolder);
+
+/**
+ * @swagger
+ * /folders/{id}/contents:
+ *   get:
+ *     summary: List the subfolders and notes in a folder
+ *     description: Subfolders are listed before notes and both are paged as one list.
+ *     tags: [Folders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           minimum: 1
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Contents retrieved successfully
+ *       400:
+ *         description: Invalid page or limit
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Folder not found
+ */
+router.get('/:id/contents', validateQuery(folderContentsQuerySchema), getFolderContents);
+
+/**
+ * @swagger
+ * /folders/{id}:
+ *   put:
+ *     summary: Rename a folder
+ *     tags: [Folders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *     responses:
+ *       200:
+ *         description: Folder updated successfully
+ *       403:
+ *         description: Write access denied
+ *       404:
+ *         description: Folder not found
+ */
+router.put('/:id', validate(updateFolderSchema), updateFolder);
+
+/**
+ * @swagger
+ * /folders/{id}/move:
+ *   post:
+ *     summary: Move a folder under another folder or to the top level
+ *     tags: [Folders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - parent
+ *             properties:
+ *               parent:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Folder moved successfully
+ *       400:
+ *         description: Cannot move a folder into itself or one of its subfolders
+ *       403:
+ *         description: Only the owner can move a folder
+ */
+router.post('/:id/move', validate(moveFolderSchema), moveFolder);
+
+/**
+ * @swagger
+ * /folders/{id}:
+ *   delete:
+ *     summary: Delete an empty folder
+ *     tags: [Folders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Folder deleted successfully
+ *       400:
+ *         description: Folder is not empty
+ *       403:
+ *         description: Only the owner can delete a folder
+ */
+router.delete('/:id', deleteFolder);
+
+/**
+ * @swagger
+ * /folders/{id}/collaborators:
+ *   post:
+ *     summary: Share a folder, the role applies to everything inside it
+ *     tags: [Folders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [read, comment, write, admin]
+ *                 default: read
+ *     responses:
+ *       200:
+ *         description: Collaborator added successfully
+ *       403:
+ *         description: Only the owner or an admin can manage collaborators
+ *       404:
+ *         description: Folder or user not found
+ */
+router.post('/:id/collaborators', validate(addCollaboratorSchema), addFolderCollaborator);
+
+/**
+ * @swagger
+ * /folders/{id}/collaborators/{collaboratorId}:
+ *   delete:
+ *     summary: Remove a folder collaborator
+ *     tags: [Folders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: collaboratorId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Collaborator removed successfully
+ *       403:
+ *         description: Only the owner or an admin can manage collaborators
+ */
+router.delete('/:id/collaborators/:collaboratorId', removeFolderCollaborator);
+
+export default router;
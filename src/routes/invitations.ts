@@ -0,0 +1,90 @@
+import { Router } from 'express';
+import {
+  getInvitations,
+  acceptInvitation,
+  declineInvitation,
+} from '@/controllers/invitationController';
+import { authenticateToken } from '@/middleware/auth';
+
+const router = Router();
+
+// All invitation routes require authentication
+router.use(authenticateToken);
+
+/**
+ * @swagger
+ * /invitations:
+ *   get:
+ *     summary: Get the user's pending invitations
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Invitations retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     invitations:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Invitation'
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', getInvitations);
+
+/**
+ * @swagger
+ * /invitations/{id}/accept:
+ *   post:
+ *     summary: Accept an invitation and become a collaborator
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation accepted successfully
+ *       403:
+ *         description: Email address not verified
+ *       404:
+ *         description: Invitation not found
+ */
+router.post('/:id/accept', acceptInvitation);
+
+/**
+ * @swagger
+ * /invitations/{id}/decline:
+ *   post:
+ *     summary: Decline an invitation
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation declined successfully
+ *       404:
+ *         description: Invitation not found
+ */
+router.post('/:id/decline', declineInvitation);
+
+export default router;
\ No newline at end of file
@@ -3,18 +3,46 @@ import {
   createNote,
   getNotes,
   getNote,
+  renderNoteHtml,
+  getNotePresence,
   updateNote,
   deleteNote,
   addCollaborator,
   removeCollaborator,
   getNoteVersions,
+  getNoteVersion,
+  diffNoteVersions,
+  restoreNoteVersion,
+  labelNoteVersion,
+  updateNoteTags,
+  moveNote,
+  createNoteShareLink,
+  getNoteShareLinks,
+  revokeNoteShareLink,
+  getNoteInvitations,
+  cancelNoteInvitation,
+  transferOwnership,
+  getTrash,
+  restoreTrashedNote,
+  deleteTrashedNote,
 } from '@/controllers/noteController';
+import { getNoteActivity } from '@/controllers/activityController';
+import { exportNote } from '@/controllers/exportController';
+import { importNotes, getImports, getImport } from '@/controllers/importController';
+import commentRoutes from '@/routes/comments';
+import attachmentRoutes from '@/routes/attachments';
 import { authenticateToken } from '@/middleware/auth';
+import { uploadFile, importUploads } from '@/middleware/upload';
 import {
   validate,
   createNoteSchema,
   updateNoteSchema,
   addCollaboratorSchema,
+  labelVersionSchema,
+  noteTagsSchema,
+  moveNoteSchema,
+  createShareLinkSchema,
+  transferOwnershipSchema,
 } from '@/middleware/validation';
 
 const router = Router();
@@ -44,6 +72,18 @@ router.use(authenticateToken);
  *                 maxLength: 200
  *               content:
  *                 type: string
+ *                 description: For richtext-json, a serialized RichTextDocument
+ *               format:
+ *                 type: string
+ *                 enum: [plain, markdown, richtext-json]
+ *                 default: plain
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               folder:
+ *                 type: string
+ *                 description: Folder to create the note in, needs write access
  *     responses:
  *       201:
  *         description: Note created successfully
@@ -59,32 +99,319 @@ router.post('/', validate(createNoteSchema), createNote);
  * /notes:
  *   get:
  *     summary: Get user's notes (owned and collaborated)
+ *     description: |
+ *       Pages are walked with `cursor`: pass the `nextCursor` of a response to get the next page.
+ *       Notes edited in between do not repeat or go missing the way they can with `page`, which is kept for older clients.
+ *       `facets` count every note the filters match, not only the page.
  *     tags: [Notes]
  *     security:
  *       - bearerAuth: []
  *     parameters:
  *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: nextCursor of the previous page, for the same sort and order
+ *       - in: query
  *         name: page
  *         schema:
  *           type: integer
- *           default: 1
+ *         description: Offset paging instead of cursor
  *       - in: query
  *         name: limit
  *         schema:
  *           type: integer
  *           default: 10
+ *           maximum: 100
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [updated, created, title]
+ *           default: created
+ *         description: >
+ *           Cursor walks by `updated` are a snapshot, notes edited meanwhile move ahead of the cursor
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *         description: Defaults to asc for title and desc for dates
  *       - in: query
  *         name: search
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: tags
+ *         schema:
+ *           type: string
+ *         description: Comma-separated tags to filter by
+ *       - in: query
+ *         name: match
+ *         schema:
+ *           type: string
+ *           enum: [all, any]
+ *           default: all
+ *         description: Whether notes need all of the tags or any of them
+ *       - in: query
+ *         name: ownership
+ *         schema:
+ *           type: string
+ *           enum: [owned, shared]
+ *         description: Only notes you own, or only notes shared with you
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [owner, read, comment, write, admin]
+ *         description: Only notes you have this role on, including roles from folders
+ *       - in: query
+ *         name: owner
+ *         schema:
+ *           type: string
+ *         description: Only notes owned by this user, "me" or a user ID
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           enum: [created, updated]
+ *           default: updated
+ *         description: Date that from and to apply to
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
  *     responses:
  *       200:
  *         description: Notes retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     notes:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Note'
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         limit:
+ *                           type: integer
+ *                         total:
+ *                           type: integer
+ *                         hasMore:
+ *                           type: boolean
+ *                         nextCursor:
+ *                           type: string
+ *                           nullable: true
+ *                         page:
+ *                           type: integer
+ *                           description: Only with page
+ *                         pages:
+ *                           type: integer
+ *                           description: Only with page
+ *                     facets:
+ *                       type: object
+ *                       properties:
+ *                         total:
+ *                           type: integer
+ *                         ownership:
+ *                           type: object
+ *                           properties:
+ *                             owned:
+ *                               type: integer
+ *                             shared:
+ *                               type: integer
+ *                         roles:
+ *                           type: object
+ *                           description: Notes per role you have on them, owner included
+ *                           additionalProperties:
+ *                             type: integer
+ *                         formats:
+ *                           type: object
+ *                           additionalProperties:
+ *                             type: integer
+ *                         tags:
+ *                           type: array
+ *                           description: The 20 most used note tags
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               tag:
+ *                                 type: string
+ *                               count:
+ *                                 type: integer
+ *       400:
+ *         description: Invalid filter, sort or cursor
  *       401:
  *         description: Unauthorized
  */
 router.get('/', getNotes);
 
+/**
+ * @swagger
+ * /notes/trash:
+ *   get:
+ *     summary: List the notes you deleted, most recent first
+ *     description: Each note comes with the date it will be purged.
+ *     tags: [Trash]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Trash retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/trash', getTrash);
+
+/**
+ * @swagger
+ * /notes/trash/{id}/restore:
+ *   post:
+ *     summary: Restore a note from the trash
+ *     description: Notes whose folder was deleted meanwhile are restored at the top level.
+ *     tags: [Trash]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Note restored successfully
+ *       404:
+ *         description: Note not found in trash
+ */
+router.post('/trash/:id/restore', restoreTrashedNote);
+
+/**
+ * @swagger
+ * /notes/trash/{id}:
+ *   delete:
+ *     summary: Delete a trashed note permanently
+ *     description: Removes the note with its versions, comments, share links and invitations.
+ *     tags: [Trash]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Note deleted permanently
+ *       404:
+ *         description: Note not found in trash
+ */
+router.delete('/trash/:id', deleteTrashedNote);
+
+/**
+ * @swagger
+ * /notes/import:
+ *   post:
+ *     summary: Import notes from Markdown, text, zip or Evernote files
+ *     description: |
+ *       Markdown front matter sets the title, tags and dates of the note. Single .md and .txt
+ *       files are imported right away (201); .zip archives and .enex exports are imported in the
+ *       background (202), so poll the import or wait for the import-finished socket event.
+ *     tags: [Import]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               folder:
+ *                 type: string
+ *                 description: Folder to create the notes in
+ *     responses:
+ *       201:
+ *         description: Import finished, with a result per file
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     import:
+ *                       $ref: '#/components/schemas/ImportJob'
+ *       202:
+ *         description: Import started
+ *       409:
+ *         description: An import is already in progress
+ *       413:
+ *         description: File is too large
+ *       415:
+ *         description: File type is not supported
+ */
+router.post('/import', uploadFile('file', importUploads), importNotes);
+
+/**
+ * @swagger
+ * /notes/import:
+ *   get:
+ *     summary: List your imports, newest first
+ *     tags: [Import]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Imports retrieved successfully, without their per-file results
+ */
+router.get('/import', getImports);
+
+/**
+ * @swagger
+ * /notes/import/{importId}:
+ *   get:
+ *     summary: Get the progress and per-file results of an import
+ *     tags: [Import]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: importId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Import retrieved successfully
+ *       404:
+ *         description: Import not found
+ */
+router.get('/import/:importId', getImport);
+
 /**
  * @swagger
  * /notes/{id}:
@@ -109,6 +436,110 @@ router.get('/', getNotes);
  */
 router.get('/:id', getNote);
 
+/**
+ * @swagger
+ * /notes/{id}/render:
+ *   get:
+ *     summary: Render a note as sanitized HTML
+ *     description: Markdown and rich text are converted to HTML, plain text becomes paragraphs. Scripts, event handlers and links to anything but http, https and mailto are removed.
+ *     tags: [Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rendered note
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     format:
+ *                       type: string
+ *                       enum: [plain, markdown, richtext-json]
+ *                     html:
+ *                       type: string
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Note not found
+ */
+router.get('/:id/render', renderNoteHtml);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ActiveUser:
+ *       type: object
+ *       properties:
+ *         userId:
+ *           type: string
+ *           description: User ID, or guest:<socketId> for share link holders without an account
+ *         username:
+ *           type: string
+ *         connections:
+ *           type: integer
+ *           description: Tabs and devices the user has the note open on
+ *         color:
+ *           type: string
+ *           description: Hex color the user keeps in every note
+ *         status:
+ *           type: string
+ *           enum: [active, idle, away]
+ *           description: The liveliest of the user's connections
+ *         typing:
+ *           type: boolean
+ */
+
+/**
+ * @swagger
+ * /notes/{id}/presence:
+ *   get:
+ *     summary: Users who have the note open, in the order they joined
+ *     tags: [Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Active users
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     users:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ActiveUser'
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Note not found
+ */
+router.get('/:id/presence', getNotePresence);
+
 /**
  * @swagger
  * /notes/{id}:
@@ -135,9 +566,15 @@ router.get('/:id', getNote);
  *                 maxLength: 200
  *               content:
  *                 type: string
+ *               format:
+ *                 type: string
+ *                 enum: [plain, markdown, richtext-json]
+ *                 description: The content, new or current, must be valid in this format
  *     responses:
  *       200:
  *         description: Note updated successfully
+ *       400:
+ *         description: Validation error, e.g. content that is not a valid rich text document
  *       403:
  *         description: Write access denied
  *       404:
@@ -149,7 +586,8 @@ router.put('/:id', validate(updateNoteSchema), updateNote);
  * @swagger
  * /notes/{id}:
  *   delete:
- *     summary: Delete a note (owner only)
+ *     summary: Move a note to the trash (owner only)
+ *     description: The note can be restored until it is purged after the retention period.
  *     tags: [Notes]
  *     security:
  *       - bearerAuth: []
@@ -161,7 +599,7 @@ router.put('/:id', validate(updateNoteSchema), updateNote);
  *           type: string
  *     responses:
  *       200:
- *         description: Note deleted successfully
+ *         description: Note moved to trash
  *       403:
  *         description: Only owner can delete
  *       404:
@@ -173,7 +611,8 @@ router.delete('/:id', deleteNote);
  * @swagger
  * /notes/{id}/collaborators:
  *   post:
- *     summary: Add a collaborator to a note
+ *     summary: Invite a collaborator to a note
+ *     description: Sends an invitation to any email. Changes the role directly if the user already collaborates.
  *     tags: [Notes]
  *     security:
  *       - bearerAuth: []
@@ -197,15 +636,18 @@ router.delete('/:id', deleteNote);
  *                 format: email
  *               role:
  *                 type: string
- *                 enum: [read, write]
+ *                 enum: [read, comment, write, admin]
  *                 default: read
+ *                 description: Only the owner can grant admin
  *     responses:
  *       200:
- *         description: Collaborator added successfully
+ *         description: Collaborator role updated successfully
+ *       201:
+ *         description: Invitation sent successfully
  *       403:
- *         description: Only owner can manage collaborators
+ *         description: Only the owner or an admin can manage collaborators
  *       404:
- *         description: Note or user not found
+ *         description: Note not found
  */
 router.post('/:id/collaborators', validate(addCollaboratorSchema), addCollaborator);
 
@@ -232,7 +674,7 @@ router.post('/:id/collaborators', validate(addCollaboratorSchema), addCollaborat
  *       200:
  *         description: Collaborator removed successfully
  *       403:
- *         description: Only owner can manage collaborators
+ *         description: Only the owner or an admin can manage collaborators
  *       404:
  *         description: Note not found
  */
@@ -262,4 +704,532 @@ router.delete('/:id/collaborators/:collaboratorId', removeCollaborator);
  */
 router.get('/:id/versions', getNoteVersions);
 
+/**
+ * @swagger
+ * /notes/{id}/versions/diff:
+ *   get:
+ *     summary: Compare two versions of a note, or a version and the current content
+ *     tags: [Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Version ID or "current"
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           default: current
+ *         description: Version ID or "current"
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [line, word]
+ *           default: line
+ *     responses:
+ *       200:
+ *         description: Diff computed successfully
+ *       400:
+ *         description: Invalid version reference or mode
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Note or version not found
+ */
+router.get('/:id/versions/diff', diffNoteVersions);
+
+/**
+ * @swagger
+ * /notes/{id}/versions/{versionId}:
+ *   get:
+ *     summary: Get a single version of a note
+ *     tags: [Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: versionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Version retrieved successfully
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Note or version not found
+ */
+router.get('/:id/versions/:versionId', getNoteVersion);
+
+/**
+ * @swagger
+ * /notes/{id}/versions/{versionId}/restore:
+ *   post:
+ *     summary: Restore a note to a previous version
+ *     description: The content being replaced is saved as a new version.
+ *     tags: [Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: versionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Version restored successfully
+ *       403:
+ *         description: Write access denied
+ *       404:
+ *         description: Note or version not found
+ */
+router.post('/:id/versions/:versionId/restore', restoreNoteVersion);
+
+/**
+ * @swagger
+ * /notes/{id}/versions/{versionId}/label:
+ *   put:
+ *     summary: Label a version as a named checkpoint
+ *     description: Labeled versions are kept when old history is trimmed. An empty label removes it.
+ *     tags: [Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: versionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - label
+ *             properties:
+ *               label:
+ *                 type: string
+ *                 maxLength: 100
+ *     responses:
+ *       200:
+ *         description: Version label updated successfully
+ *       403:
+ *         description: Write access denied
+ *       404:
+ *         description: Note or version not found
+ */
+router.put('/:id/versions/:versionId/label', validate(labelVersionSchema), labelNoteVersion);
+
+/**
+ * @swagger
+ * /notes/{id}/tags:
+ *   put:
+ *     summary: Set the user's tags on a note
+ *     description: The owner sets the note's tags; collaborators set personal tags only they see.
+ *     tags: [Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tags
+ *             properties:
+ *               tags:
+ *                 type: array
+ *                 maxItems: 20
+ *                 items:
+ *                   type: string
+ *                   maxLength: 50
+ *     responses:
+ *       200:
+ *         description: Tags updated successfully
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Note not found
+ */
+router.put('/:id/tags', validate(noteTagsSchema), updateNoteTags);
+
+/**
+ * @swagger
+ * /notes/{id}/folder:
+ *   put:
+ *     summary: Move a note into a folder, or out of folders with null
+ *     description: The note inherits the collaborators of its new folder.
+ *     tags: [Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - folder
+ *             properties:
+ *               folder:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Note moved successfully
+ *       403:
+ *         description: Only the owner can move a note, or no write access to the folder
+ *       404:
+ *         description: Note or folder not found
+ */
+router.put('/:id/folder', validate(moveNoteSchema), moveNote);
+
+/**
+ * @swagger
+ * /notes/{id}/share-links:
+ *   post:
+ *     summary: Create a share link for a note
+ *     description: The token is only returned here, store it or the URL right away.
+ *     tags: [Sharing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [read, comment, write]
+ *                 default: read
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *               maxViews:
+ *                 type: integer
+ *                 minimum: 1
+ *               password:
+ *                 type: string
+ *                 minLength: 4
+ *     responses:
+ *       201:
+ *         description: Share link created successfully
+ *       403:
+ *         description: Only the owner or an admin can manage share links
+ *       404:
+ *         description: Note not found
+ */
+router.post('/:id/share-links', validate(createShareLinkSchema), createNoteShareLink);
+
+/**
+ * @swagger
+ * /notes/{id}/share-links:
+ *   get:
+ *     summary: List the active share links of a note
+ *     tags: [Sharing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Share links retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     links:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ShareLink'
+ *       403:
+ *         description: Only the owner or an admin can manage share links
+ */
+router.get('/:id/share-links', getNoteShareLinks);
+
+/**
+ * @swagger
+ * /notes/{id}/share-links/{linkId}:
+ *   delete:
+ *     summary: Revoke a share link
+ *     description: Clients connected through the link are disconnected.
+ *     tags: [Sharing]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: linkId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Share link revoked successfully
+ *       403:
+ *         description: Only the owner or an admin can manage share links
+ *       404:
+ *         description: Share link not found
+ */
+router.delete('/:id/share-links/:linkId', revokeNoteShareLink);
+
+/**
+ * @swagger
+ * /notes/{id}/invitations:
+ *   get:
+ *     summary: List a note's pending invitations
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitations retrieved successfully
+ *       403:
+ *         description: Only the owner or an admin can manage collaborators
+ */
+router.get('/:id/invitations', getNoteInvitations);
+
+/**
+ * @swagger
+ * /notes/{id}/invitations/{invitationId}:
+ *   delete:
+ *     summary: Cancel a pending invitation
+ *     tags: [Invitations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: invitationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invitation cancelled successfully
+ *       403:
+ *         description: Only the owner or an admin can manage collaborators
+ *       404:
+ *         description: Invitation not found
+ */
+router.delete('/:id/invitations/:invitationId', cancelNoteInvitation);
+
+/**
+ * @swagger
+ * /notes/{id}/transfer-ownership:
+ *   post:
+ *     summary: Hand the note over to a collaborator
+ *     description: The previous owner stays on the note as an admin.
+ *     tags: [Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *             properties:
+ *               userId:
+ *                 type: string
+ *                 description: User ID of a current collaborator
+ *     responses:
+ *       200:
+ *         description: Ownership transferred successfully
+ *       400:
+ *         description: The new owner must already be a collaborator
+ *       403:
+ *         description: Only the owner can transfer ownership
+ */
+router.post('/:id/transfer-ownership', validate(transferOwnershipSchema), transferOwnership);
+
+/**
+ * @swagger
+ * /notes/{id}/activity:
+ *   get:
+ *     summary: Get a note's activity log, newest first
+ *     description: Only the owner and admins can see it.
+ *     tags: [Activity]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *         description: Comma-separated actions to keep, e.g. note.updated,note.title-changed
+ *       - in: query
+ *         name: actor
+ *         schema:
+ *           type: string
+ *         description: Only entries by this user ID
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Activity retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     activity:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Activity'
+ *                     pagination:
+ *                       type: object
+ *       400:
+ *         description: Invalid filter
+ *       403:
+ *         description: Only the owner or an admin can view the activity log
+ */
+router.get('/:id/activity', getNoteActivity);
+
+/**
+ * @swagger
+ * /notes/{id}/export:
+ *   get:
+ *     summary: Download a note as a Markdown, HTML or JSON file
+ *     description: Markdown starts with YAML front matter (title, tags, owner, collaborators, timestamps), HTML carries it in meta tags, and JSON also includes the version history.
+ *     tags: [Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [md, html, json]
+ *           default: md
+ *     responses:
+ *       200:
+ *         description: The exported file, named after the note title
+ *       400:
+ *         description: Invalid format
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Note not found
+ */
+router.get('/:id/export', exportNote);
+
+router.use('/:id/comments', commentRoutes);
+router.use('/:id/attachments', attachmentRoutes);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { Router } from 'express';
+import {
+  getNotifications,
+  getUnreadCount,
+  markNotificationsRead,
+  markNotificationRead,
+} from '@/controllers/notificationController';
+import { authenticateToken } from '@/middleware/auth';
+import { validate, markNotificationsReadSchema } from '@/middleware/validation';
+
+const router = Router();
+
+// All notification routes require authentication
+router.use(authenticateToken);
+
+/**
+ * @swagger
+ * /notifications:
+ *   get:
+ *     summary: Get the user's notifications, newest first
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: unread
+ *         schema:
+ *           type: boolean
+ *         description: Only return unread notifications
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Notifications retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     notifications:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Notification'
+ *                     unreadCount:
+ *                       type: integer
+ *                     pagination:
+ *                       type: object
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', getNotifications);
+
+/**
+ * @swagger
+ * /notifications/unread-count:
+ *   get:
+ *     summary: Get the number of unread notifications
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Unread count retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/unread-count', getUnreadCount);
+
+/**
+ * @swagger
+ * /notifications/read:
+ *   post:
+ *     summary: Mark notifications as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ids:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Notifications to mark, all of them when left out
+ *     responses:
+ *       200:
+ *         description: Notifications marked as read
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/read', validate(markNotificationsReadSchema), markNotificationsRead);
+
+/**
+ * @swagger
+ * /notifications/{id}/read:
+ *   post:
+ *     summary: Mark a notification as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Notification marked as read
+ *       400:
+ *         description: Invalid notification ID
+ */
+router.post('/:id/read', markNotificationRead);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { Router } from 'express';
+import { search } from '@/controllers/searchController';
+import { authenticateToken } from '@/middleware/auth';
+
+const router = Router();
+
+// All search routes require authentication
+router.use(authenticateToken);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Snippet:
+ *       type: object
+ *       properties:
+ *         text:
+ *           type: string
+ *           description: Up to 160 characters of the note's text around the first match, with … where it was cut
+ *         highlights:
+ *           type: array
+ *           description: Where the matches are in text, end excluded
+ *           items:
+ *             type: object
+ *             properties:
+ *               start:
+ *                 type: integer
+ *               end:
+ *                 type: integer
+ *     SearchResult:
+ *       type: object
+ *       properties:
+ *         note:
+ *           type: object
+ *           description: The note without its content
+ *         role:
+ *           type: string
+ *           enum: [owner, read, comment, write, admin]
+ *         score:
+ *           type: number
+ *           nullable: true
+ *           description: Text score, null when only prefixes were searched
+ *         titleHighlights:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               start:
+ *                 type: integer
+ *               end:
+ *                 type: integer
+ *         snippet:
+ *           $ref: '#/components/schemas/Snippet'
+ */
+
+/**
+ * @swagger
+ * /search:
+ *   get:
+ *     summary: Search the notes you can read, best matches first
+ *     description: |
+ *       Words are matched through the text index (any of them, including other forms of the word) and ranked by relevance.
+ *       `"quoted phrases"` must all appear, `-word` must not, and `prefix*` matches words starting with the prefix.
+ *     tags: [Search]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           maxLength: 200
+ *       - in: query
+ *         name: owner
+ *         schema:
+ *           type: string
+ *         description: '"me" or a user ID'
+ *       - in: query
+ *         name: shared
+ *         schema:
+ *           type: boolean
+ *         description: Only notes shared with you
+ *       - in: query
+ *         name: role
+ *         schema:
+ *           type: string
+ *           enum: [owner, read, comment, write, admin]
+ *         description: Only notes you have this role on, including roles from folders
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           enum: [created, updated]
+ *           default: updated
+ *         description: Date that from and to apply to
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: versions
+ *         schema:
+ *           type: boolean
+ *         description: Also look through the history of notes that do not match any more
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Search results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     results:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/SearchResult'
+ *                     truncated:
+ *                       type: boolean
+ *                       description: True when more notes matched than the 1000 that are ranked, the rest are left out
+ *                     versions:
+ *                       type: array
+ *                       description: With versions=true, the latest matching version of each note
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           note:
+ *                             type: object
+ *                           version:
+ *                             type: object
+ *                           snippet:
+ *                             $ref: '#/components/schemas/Snippet'
+ *                     versionsTruncated:
+ *                       type: boolean
+ *                       description: With versions=true, true when some notes with history were not looked into
+ *                     pagination:
+ *                       type: object
+ *       400:
+ *         description: Missing query or invalid filter
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', search);
+
+export default router;
\ No newline at end of file
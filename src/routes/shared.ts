@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import { getSharedNote, updateSharedNote } from '@/controllers/noteController';
+import { optionalAuth } from '@/middleware/auth';
+import { validate, updateNoteSchema } from '@/middleware/validation';
+
+const router = Router();
+
+// Share links work without an account; signed-in holders are still recognized
+router.use(optionalAuth);
+
+/**
+ * @swagger
+ * /shared/{token}:
+ *   get:
+ *     summary: Open a note through a share link
+ *     description: Counts as a view of the link. Password protected links need the X-Share-Password header.
+ *     tags: [Sharing]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Share-Password
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Note retrieved successfully
+ *       401:
+ *         description: Password required or invalid
+ *       404:
+ *         description: Share link not found
+ *       410:
+ *         description: Share link has expired or reached its view limit
+ */
+router.get('/:token', getSharedNote);
+
+/**
+ * @swagger
+ * /shared/{token}:
+ *   put:
+ *     summary: Update a note through a write share link
+ *     tags: [Sharing]
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: X-Share-Password
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 maxLength: 200
+ *               content:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Note updated successfully
+ *       403:
+ *         description: The link is read-only
+ *       404:
+ *         description: Share link not found
+ *       410:
+ *         description: Share link has expired
+ */
+router.put('/:token', validate(updateNoteSchema), updateSharedNote);
+
+export default router;
\ No newline at end of file
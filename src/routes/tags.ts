@@ -0,0 +1,177 @@
+import { Router } from 'express';
+import {
+  getTags,
+  autocompleteTags,
+  renameTag,
+  mergeTags,
+  deleteTag,
+} from '@/controllers/tagController';
+import { authenticateToken } from '@/middleware/auth';
+import { validate, renameTagSchema, mergeTagsSchema } from '@/middleware/validation';
+
+const router = Router();
+
+// All tag routes require authentication
+router.use(authenticateToken);
+
+/**
+ * @swagger
+ * /tags:
+ *   get:
+ *     summary: List the tags on the user's notes with note counts
+ *     description: Includes the tags of notes shared with the user and their personal tags.
+ *     tags: [Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tags retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     tags:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           name:
+ *                             type: string
+ *                           count:
+ *                             type: integer
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', getTags);
+
+/**
+ * @swagger
+ * /tags/autocomplete:
+ *   get:
+ *     summary: Suggest tags starting with a prefix
+ *     tags: [Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Tag prefix
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           minimum: 1
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Matching tags, most used first
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/autocomplete', autocompleteTags);
+
+/**
+ * @swagger
+ * /tags/merge:
+ *   post:
+ *     summary: Merge several tags into one
+ *     description: Applies to notes the user owns and to their personal tags on shared notes.
+ *     tags: [Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - tags
+ *               - into
+ *             properties:
+ *               tags:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               into:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tags merged successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.post('/merge', validate(mergeTagsSchema), mergeTags);
+
+/**
+ * @swagger
+ * /tags/{tag}:
+ *   put:
+ *     summary: Rename a tag on all the user's notes
+ *     description: Renaming onto an existing tag merges the two.
+ *     tags: [Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tag
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 50
+ *     responses:
+ *       200:
+ *         description: Tag renamed successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.put('/:tag', validate(renameTagSchema), renameTag);
+
+/**
+ * @swagger
+ * /tags/{tag}:
+ *   delete:
+ *     summary: Remove a tag from all the user's notes
+ *     tags: [Tags]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tag
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tag deleted successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.delete('/:tag', deleteTag);
+
+export default router;
\ No newline at end of file
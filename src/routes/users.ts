@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { searchUsers } from '@/controllers/userController';
+import { searchUsers, getStorage } from '@/controllers/userController';
 import { authenticateToken } from '@/middleware/auth';
 
 const router = Router();
@@ -58,4 +58,39 @@ router.use(authenticateToken);
  */
 router.get('/search', searchUsers);
 
+/**
+ * @swagger
+ * /users/me/storage:
+ *   get:
+ *     summary: Get how much of your storage quota your attachments use
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Storage usage retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     storage:
+ *                       type: object
+ *                       properties:
+ *                         used:
+ *                           type: integer
+ *                           description: Bytes used
+ *                         quota:
+ *                           type: integer
+ *                           description: Bytes allowed
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/me/storage', getStorage);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+import Note from '@/models/Note';
+import { toPlainText } from '@/utils/content';
+import { NoteFormat } from '@/types';
+import { config } from '@/config/config';
+
+const migrateContent = async () => {
+  try {
+    await mongoose.connect(config.mongoUri);
+    console.log('Connected to MongoDB for content migration');
+
+    // A collection has a single text index, the one over raw content makes way for plainText
+    const indexes = await Note.collection.indexes();
+    const contentIndex = indexes.find((index) => index.weights?.content !== undefined);
+    if (contentIndex?.name) {
+      await Note.collection.dropIndex(contentIndex.name);
+      console.log(`Dropped text index ${contentIndex.name}`);
+    }
+
+    // Read raw documents, so trashed notes are migrated too
+    const cursor = Note.collection.find(
+      { plainText: { $exists: false } },
+      { projection: { content: 1, format: 1 } }
+    );
+
+    let migratedNotes = 0;
+    for await (const note of cursor) {
+      // Notes from before formats were all plain text
+      const format: NoteFormat = note.format ?? 'plain';
+      await Note.collection.updateOne(
+        { _id: note._id },
+        { $set: { format, plainText: toPlainText(note.content ?? '', format) } }
+      );
+      migratedNotes++;
+    }
+
+    await Note.createIndexes();
+    console.log(`✅ Extracted plain text from ${migratedNotes} notes`);
+  } catch (error) {
+    console.error('Error migrating content:', error);
+  } finally {
+    await mongoose.connection.close();
+    console.log('Database connection closed');
+  }
+};
+
+// Run the migration
+migrateContent();
\ No newline at end of file
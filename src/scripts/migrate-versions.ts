@@ -0,0 +1,57 @@
+import mongoose from 'mongoose';
+import Note from '@/models/Note';
+import { importVersions, ImportedVersion } from '@/services/versionService';
+import { config } from '@/config/config';
+
+// Shape of the history that used to be embedded in each note document
+interface EmbeddedVersion {
+  content: string;
+  modifiedBy: mongoose.Types.ObjectId;
+  modifiedAt?: Date;
+  label?: string;
+}
+
+const migrateVersions = async () => {
+  try {
+    await mongoose.connect(config.mongoUri);
+    console.log('Connected to MongoDB for version migration');
+
+    // Read raw documents, the Note schema no longer knows about `versions`
+    const cursor = Note.collection.find(
+      { versions: { $exists: true } },
+      { projection: { title: 1, versions: 1 } }
+    );
+
+    let migratedNotes = 0;
+    let migratedVersions = 0;
+
+    for await (const note of cursor) {
+      const embedded = (note.versions ?? []) as EmbeddedVersion[];
+
+      // Embedded versions only kept content, so they take the note's current title
+      const entries: ImportedVersion[] = embedded.map((version) => ({
+        title: note.title,
+        content: version.content,
+        modifiedBy: version.modifiedBy,
+        modifiedAt: version.modifiedAt,
+        label: version.label,
+      }));
+
+      await importVersions(note._id.toString(), entries);
+      await Note.collection.updateOne({ _id: note._id }, { $unset: { versions: '' } });
+
+      migratedNotes++;
+      migratedVersions += entries.length;
+    }
+
+    console.log(`✅ Migrated ${migratedVersions} versions from ${migratedNotes} notes`);
+  } catch (error) {
+    console.error('Error migrating versions:', error);
+  } finally {
+    await mongoose.connection.close();
+    console.log('Database connection closed');
+  }
+};
+
+// Run the migration
+migrateVersions();
\ No newline at end of file
@@ -19,7 +19,46 @@ db.users.createIndex({ username: 1 }, { unique: true });
 
 db.notes.createIndex({ owner: 1 });
 db.notes.createIndex({ 'collaborators.user': 1 });
-db.notes.createIndex({ title: 'text', content: 'text' });
+db.notes.createIndex({ title: 'text', plainText: 'text' });
+db.notes.createIndex({ owner: 1, tags: 1 });
+db.notes.createIndex({ owner: 1, deletedAt: 1 });
+db.notes.createIndex({ 'personalTags.user': 1, 'personalTags.tags': 1 });
 db.notes.createIndex({ updatedAt: -1 });
+db.notes.createIndex({ owner: 1, updatedAt: -1, _id: -1 });
+db.notes.createIndex({ owner: 1, createdAt: -1, _id: -1 });
+db.notes.createIndex({ owner: 1, title: 1, _id: 1 }, { collation: { locale: 'en', strength: 2 } });
+
+db.notes.createIndex({ folder: 1, updatedAt: -1 });
+
+db.folders.createIndex({ owner: 1, parent: 1 });
+db.folders.createIndex({ parent: 1, name: 1 });
+db.folders.createIndex({ ancestors: 1 });
+db.folders.createIndex({ 'collaborators.user': 1 });
+
+db.sharelinks.createIndex({ tokenHash: 1 }, { unique: true });
+db.sharelinks.createIndex({ note: 1, revokedAt: 1 });
+
+db.invitations.createIndex({ note: 1, status: 1 });
+db.invitations.createIndex({ invitee: 1, status: 1 });
+db.invitations.createIndex({ email: 1, status: 1 });
+
+db.comments.createIndex({ note: 1, parent: 1, createdAt: 1 });
+
+db.notifications.createIndex({ user: 1, readAt: 1, createdAt: -1 });
+db.notifications.createIndex({ note: 1 });
+
+db.activities.createIndex({ note: 1, createdAt: -1 });
+db.activities.createIndex({ actor: 1, createdAt: -1 });
+db.activities.createIndex({ noteOwner: 1, createdAt: -1 });
+db.attachments.createIndex({ note: 1, createdAt: -1 });
+db.exportjobs.createIndex({ user: 1, createdAt: -1 });
+db.exportjobs.createIndex({ expiresAt: 1 });
+db.importjobs.createIndex({ user: 1, createdAt: -1 });
+
+db.presences.createIndex({ note: 1, socketId: 1 }, { unique: true });
+db.presences.createIndex({ instanceId: 1 });
+db.socketinstances.createIndex({ heartbeatAt: 1 });
+
+db.noteversions.createIndex({ note: 1, seq: 1 }, { unique: true });
 
 print('Database initialized successfully');
\ No newline at end of file
@@ -20,11 +20,13 @@ const seedData = async () => {
         username: 'dina',
         email: 'dina@example.com',
         password: 'password123',
+        emailVerified: true,
       },
       {
         username: 'mike',
         email: 'mike@example.com',
         password: 'password123',
+        emailVerified: true,
       },
     ];
 
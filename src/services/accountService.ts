@@ -0,0 +1,101 @@
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import User, { IUser } from '@/models/User';
+import { config } from '@/config/config';
+import { createError } from '@/middleware/errorHandler';
+import { sendMail } from '@/services/mailService';
+import { revokeAllSessions } from '@/services/sessionService';
+
+type TokenPurpose = 'password-reset' | 'email-verification';
+
+/**
+ * Account tokens are JWTs signed with a key that includes the state they
+ * change (the password hash, or the verification flag). Using a token changes
+ * that state, which invalidates the token, so each one works only once.
+ */
+const signingKey = (user: IUser, purpose: TokenPurpose): string => {
+  const state =
+    purpose === 'password-reset' ? user.password : `${user.email}:${user.emailVerified}`;
+  return `${config.jwt.secret}:${purpose}:${state}`;
+};
+
+const signToken = (user: IUser, purpose: TokenPurpose): string => {
+  const expiresIn =
+    purpose === 'password-reset'
+      ? config.tokens.passwordResetExpiresIn
+      : config.tokens.emailVerificationExpiresIn;
+
+  return jwt.sign({ sub: user._id.toString(), purpose }, signingKey(user, purpose), { expiresIn });
+};
+
+const verifyToken = async (token: string, purpose: TokenPurpose): Promise<IUser> => {
+  const decoded = jwt.decode(token) as jwt.JwtPayload | null;
+  if (
+    !decoded?.sub ||
+    decoded.purpose !== purpose ||
+    !mongoose.Types.ObjectId.isValid(decoded.sub)
+  ) {
+    throw createError('Invalid or expired token', 400);
+  }
+
+  const user = await User.findById(decoded.sub).select('+password');
+  if (!user) {
+    throw createError('Invalid or expired token', 400);
+  }
+
+  try {
+    jwt.verify(token, signingKey(user, purpose));
+  } catch (error) {
+    throw createError('Invalid or expired token', 400);
+  }
+
+  return user;
+};
+
+export const sendVerificationEmail = async (user: IUser): Promise<void> => {
+  const link = `${config.appUrl}/verify-email?token=${signToken(user, 'email-verification')}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: `Hi ${user.username},\n\nPlease confirm your email address by opening this link:\n${link}\n`,
+    html: `<p>Hi ${user.username},</p><p>Please confirm your email address by opening <a href="${link}">this link</a>.</p>`,
+  });
+};
+
+export const verifyEmail = async (token: string): Promise<IUser> => {
+  const user = await verifyToken(token, 'email-verification');
+
+  user.emailVerified = true;
+  await user.save();
+
+  return user;
+};
+
+// Sends a reset link if the email is registered; callers never learn whether it was
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const user = await User.findOne({ email: email.toLowerCase() }).select('+password');
+  if (!user) return;
+
+  const link = `${config.appUrl}/reset-password?token=${signToken(user, 'password-reset')}`;
+
+  // Not awaited, so a slow or failing send cannot tell registered emails apart
+  sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Hi ${user.username},\n\nYou can choose a new password here:\n${link}\n\nIf you did not ask for this, you can ignore this email.\n`,
+    html: `<p>Hi ${user.username},</p><p>You can choose a new password <a href="${link}">here</a>.</p><p>If you did not ask for this, you can ignore this email.</p>`,
+  }).catch((error) => {
+    console.error('Error sending password reset email:', error);
+  });
+};
+
+// Sets the new password and signs the user out everywhere
+export const resetPassword = async (token: string, password: string): Promise<void> => {
+  const user = await verifyToken(token, 'password-reset');
+
+  user.password = password;
+  await user.save();
+
+  await revokeAllSessions(user._id.toString());
+};
\ No newline at end of file
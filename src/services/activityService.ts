@@ -0,0 +1,118 @@
+import mongoose from 'mongoose';
+import Activity, { ActivityAction } from '@/models/Activity';
+import { INote } from '@/models/Note';
+import { NoteEditor } from '@/types';
+
+/**
+ * Audit trail of what happened to notes and who did it. Entries are only ever
+ * added; they outlive the note so a deletion can still be traced.
+ */
+
+// Share link guests (null) have no account, and 'system' is for automatic jobs
+export type ActivityActor = { userId: string; username: string } | null | 'system';
+
+export interface ActivityFilters {
+  actions?: ActivityAction[];
+  actor?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface ActivityPage {
+  page: number;
+  limit: number;
+}
+
+/**
+ * Appends an entry. Like notifications, a failure is only logged so the
+ * audit trail never blocks the change it describes.
+ */
+export const recordActivity = async (
+  note: Pick<INote, '_id' | 'title' | 'owner'>,
+  actor: ActivityActor,
+  action: ActivityAction,
+  details: Record<string, unknown> = {}
+): Promise<void> => {
+  try {
+    await Activity.create({
+      note: note._id,
+      noteTitle: note.title,
+      // Owner may be populated, and ObjectId._id is the id itself
+      noteOwner: note.owner._id,
+      actor: actor && actor !== 'system' ? actor.userId : null,
+      actorName: actor === 'system' ? 'System' : (actor?.username ?? 'Guest'),
+      action,
+      details,
+    });
+  } catch (error) {
+    console.error(`Error recording ${action} on note ${note._id}:`, error);
+  }
+};
+
+// Who made an edit as an activity actor; anonymous edits keep the share link in the details
+const editorActivity = (editor: NoteEditor) => ({
+  actor: editor.userId ? { userId: editor.userId, username: editor.username } : null,
+  details: editor.shareLink ? { link: editor.shareLink } : {},
+});
+
+// Records a saved edit; new content and a new title are separate entries
+export const recordNoteChanges = async (
+  note: Pick<INote, '_id' | 'title' | 'content' | 'owner' | 'revision'>,
+  editor: NoteEditor,
+  previous: { title: string; content: string }
+): Promise<void> => {
+  const { actor, details } = editorActivity(editor);
+  if (previous.content !== note.content) {
+    await recordActivity(note, actor, 'note.updated', { revision: note.revision, ...details });
+  }
+  if (previous.title !== note.title) {
+    await recordActivity(note, actor, 'note.title-changed', {
+      from: previous.title,
+      to: note.title,
+      ...details,
+    });
+  }
+};
+
+const buildQuery = (base: Record<string, unknown>, filters: ActivityFilters) => {
+  const query: Record<string, unknown> = { ...base };
+
+  if (filters.actions?.length) {
+    query.action = { $in: filters.actions };
+  }
+  if (filters.actor) {
+    query.actor = new mongoose.Types.ObjectId(filters.actor);
+  }
+  if (filters.from || filters.to) {
+    query.createdAt = {
+      ...(filters.from && { $gte: filters.from }),
+      ...(filters.to && { $lte: filters.to }),
+    };
+  }
+  return query;
+};
+
+const findActivity = async (query: Record<string, unknown>, { page, limit }: ActivityPage) => {
+  const [activity, total] = await Promise.all([
+    Activity.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit)
+      .skip((page - 1) * limit),
+    Activity.countDocuments(query),
+  ]);
+  return { activity, total };
+};
+
+export const listNoteActivity = (noteId: string, filters: ActivityFilters, page: ActivityPage) => {
+  return findActivity(buildQuery({ note: noteId }, filters), page);
+};
+
+// What the user did anywhere, and what anyone did on the notes they owned
+export const listAccountActivity = (
+  userId: string,
+  filters: ActivityFilters,
+  page: ActivityPage
+) => {
+  const id = new mongoose.Types.ObjectId(userId);
+  return findActivity(buildQuery({ $or: [{ actor: id }, { noteOwner: id }] }, filters), page);
+};
\ No newline at end of file
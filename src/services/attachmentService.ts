@@ -0,0 +1,167 @@
+import mongoose from 'mongoose';
+import sharp from 'sharp';
+import Attachment, { IAttachment } from '@/models/Attachment';
+import User from '@/models/User';
+import { config } from '@/config/config';
+import { createError } from '@/middleware/errorHandler';
+import { UploadedFile } from '@/middleware/upload';
+import { getStorage } from '@/services/storageService';
+
+/**
+ * Files attached to notes. The bytes go to the storage adapter, the metadata
+ * to the attachments collection, and each file counts against the storage
+ * quota of whoever uploaded it until it is deleted.
+ */
+
+// Formats sharp can read and turn into thumbnails
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+const THUMBNAIL_TYPE = 'image/webp';
+
+export const getStorageUsage = async (userId: string) => {
+  const user = await User.findById(userId).select('storageUsed');
+  return {
+    used: user?.storageUsed ?? 0,
+    quota: config.storage.quotaBytes,
+  };
+};
+
+// Charges the bytes to the user in one update, so concurrent uploads cannot overshoot
+const reserveQuota = async (userId: string, bytes: number): Promise<void> => {
+  const result = await User.updateOne(
+    { _id: userId, storageUsed: { $lte: config.storage.quotaBytes - bytes } },
+    { $inc: { storageUsed: bytes } }
+  );
+  if (result.modifiedCount === 0) {
+    throw createError('Storage quota exceeded', 413);
+  }
+};
+
+const releaseQuota = async (userId: mongoose.Types.ObjectId | string, bytes: number) => {
+  await User.updateOne({ _id: userId }, { $inc: { storageUsed: -bytes } });
+};
+
+// Reads the image size and renders a thumbnail; also proves the file is the image it claims to be
+const processImage = async (buffer: Buffer) => {
+  try {
+    const { width, height, orientation } = await sharp(buffer).metadata();
+    const thumbnail = await sharp(buffer)
+      .rotate()
+      .resize({
+        width: config.attachments.thumbnailSize,
+        height: config.attachments.thumbnailSize,
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .webp()
+      .toBuffer();
+
+    // EXIF orientations 5 to 8 are rotated by a quarter turn
+    const rotated = (orientation ?? 1) >= 5;
+    return { width: rotated ? height : width, height: rotated ? width : height, thumbnail };
+  } catch (error) {
+    throw createError('File is not a valid image', 400);
+  }
+};
+
+export const addAttachment = async (
+  noteId: string,
+  userId: string,
+  file: UploadedFile
+): Promise<IAttachment> => {
+  const image = IMAGE_TYPES.includes(file.mimetype) ? await processImage(file.buffer) : null;
+
+  await reserveQuota(userId, file.size);
+
+  const _id = new mongoose.Types.ObjectId();
+  const storageKey = `attachments/${noteId}/${_id}`;
+  const thumbnailKey = image ? `${storageKey}-thumbnail` : null;
+  const storage = getStorage();
+
+  try {
+    await storage.put(storageKey, file.buffer, file.mimetype);
+    if (image) {
+      await storage.put(thumbnailKey!, image.thumbnail, THUMBNAIL_TYPE);
+    }
+
+    const attachment = await Attachment.create({
+      _id,
+      note: noteId,
+      uploadedBy: userId,
+      fileName: file.originalname,
+      mimeType: file.mimetype,
+      size: file.size,
+      storageKey,
+      thumbnailKey,
+      hasThumbnail: !!image,
+      width: image?.width,
+      height: image?.height,
+    });
+    return attachment.populate('uploadedBy', 'username');
+  } catch (error) {
+    await Promise.allSettled([
+      releaseQuota(userId, file.size),
+      storage.remove(storageKey),
+      ...(thumbnailKey ? [storage.remove(thumbnailKey)] : []),
+    ]);
+    throw error;
+  }
+};
+
+export const listAttachments = async (noteId: string) => {
+  return Attachment.find({ note: noteId })
+    .populate('uploadedBy', 'username')
+    .sort({ createdAt: -1 });
+};
+
+export const findAttachment = async (noteId: string, attachmentId: string) => {
+  if (!mongoose.Types.ObjectId.isValid(attachmentId)) {
+    throw createError('Invalid attachment ID', 400);
+  }
+
+  const attachment = await Attachment.findOne({ _id: attachmentId, note: noteId }).select(
+    '+storageKey +thumbnailKey'
+  );
+  if (!attachment) {
+    throw createError('Attachment not found', 404);
+  }
+  return attachment;
+};
+
+export const readAttachment = async (attachment: IAttachment, thumbnail = false) => {
+  if (thumbnail && !attachment.thumbnailKey) {
+    throw createError('Attachment has no thumbnail', 404);
+  }
+
+  const key = thumbnail ? attachment.thumbnailKey! : attachment.storageKey;
+  return {
+    stream: await getStorage().read(key),
+    contentType: thumbnail ? THUMBNAIL_TYPE : attachment.mimeType,
+  };
+};
+
+const removeFiles = async (attachment: IAttachment): Promise<void> => {
+  const storage = getStorage();
+  await storage.remove(attachment.storageKey);
+  if (attachment.thumbnailKey) {
+    await storage.remove(attachment.thumbnailKey);
+  }
+};
+
+export const deleteAttachment = async (attachment: IAttachment): Promise<void> => {
+  const { deletedCount } = await Attachment.deleteOne({ _id: attachment._id });
+  // Another request deleted it first and gave the space back already
+  if (deletedCount !== 1) return;
+
+  await releaseQuota(attachment.uploadedBy, attachment.size);
+  await removeFiles(attachment);
+};
+
+// Removes every file of a note and gives the space back to the uploaders
+export const deleteAttachments = async (noteId: string): Promise<void> => {
+  const attachments = await Attachment.find({ note: noteId }).select('+storageKey +thumbnailKey');
+
+  for (const attachment of attachments) {
+    await deleteAttachment(attachment);
+  }
+};
\ No newline at end of file
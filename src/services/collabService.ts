@@ -0,0 +1,449 @@
+import Note, { INote } from '@/models/Note';
+import { config } from '@/config/config';
+import { createError } from '@/middleware/errorHandler';
+import { validateNoteContent } from '@/middleware/validation';
+import { NoteEditor, NoteFormat, TextOperation } from '@/types';
+import { apply, baseLength, fromReplacement, transform } from '@/services/ot';
+import { recordVersion } from '@/services/versionService';
+import { reanchorComments } from '@/services/commentService';
+import { notifyMentions } from '@/services/notificationService';
+import { recordNoteChanges } from '@/services/activityService';
+import { getPresence } from '@/services/presenceService';
+import { getOperationLog, LoggedOperation } from '@/services/operationLogService';
+import { emitToNote } from '@/sockets/emitter';
+import { toPlainText } from '@/utils/content';
+
+/**
+ * Server-side state of a note that is being edited live on this instance.
+ * While it is open the content follows the shared operation log, which every
+ * instance editing the note appends to before applying an operation.
+ */
+export interface NoteSession {
+  noteId: string;
+  content: string;
+  title: string;
+  format: NoteFormat;
+  revision: number;
+  // history[i] took the document from revision (historyStart + i) to the next one
+  history: TextOperation[];
+  historyStart: number;
+  // Operations of this session are applied one at a time, in the order they arrive
+  applying: Promise<unknown>;
+  // Autosave state: edits since the last save and who made the latest one
+  dirty: boolean;
+  lastEditor?: NoteEditor;
+  savedRevision: number;
+  saving: Promise<void>;
+  debounceTimer?: NodeJS.Timeout;
+  maxWaitTimer?: NodeJS.Timeout;
+  // Set once the last user left; cleared if someone rejoins before the final save
+  closing: boolean;
+}
+
+export interface AppliedOperation {
+  operation: TextOperation;
+  revision: number;
+}
+
+// Changes made along with an operation
+export interface SessionChanges {
+  title?: string;
+  format?: NoteFormat;
+}
+
+const sessions = new Map<string, NoteSession>();
+const pendingSessions = new Map<string, Promise<NoteSession | null>>();
+
+export const getSession = (noteId: string): NoteSession | undefined => sessions.get(noteId);
+
+export type SavedNote = Pick<INote, 'title' | 'content' | 'format' | 'revision'>;
+
+// The document as readers of a live note see it
+export type LiveState = Pick<
+  NoteSession,
+  'content' | 'title' | 'format' | 'revision' | 'history' | 'historyStart'
+>;
+
+// Starts the session over from the saved note
+const resetSession = (session: NoteSession, note: SavedNote): void => {
+  session.content = note.content;
+  session.title = note.title;
+  session.format = note.format;
+  session.revision = note.revision;
+  session.history = [];
+  session.historyStart = note.revision;
+  session.savedRevision = note.revision;
+};
+
+const record = (session: LiveState, entry: LoggedOperation): AppliedOperation => {
+  session.content = apply(session.content, entry.operation);
+  session.revision += 1;
+  session.history.push(entry.operation);
+  if (entry.title !== undefined) session.title = entry.title;
+  if (entry.format !== undefined) session.format = entry.format;
+
+  const overflow = session.history.length - config.collab.historyLimit;
+  if (overflow > 0) {
+    session.history.splice(0, overflow);
+    session.historyStart += overflow;
+  }
+
+  return { operation: entry.operation, revision: session.revision };
+};
+
+// Runs after everything queued on the session before it
+const enqueue = <T>(session: NoteSession, task: () => Promise<T>): Promise<T> => {
+  const run = session.applying.catch(() => undefined).then(task);
+  session.applying = run;
+  return run;
+};
+
+/**
+ * Applies what other instances logged since the session's revision. A session
+ * that fell behind what the log still holds starts over from the saved note.
+ */
+const catchUp = async (session: NoteSession): Promise<void> => {
+  const log = getOperationLog();
+  const inSequence = (entries: LoggedOperation[]) =>
+    entries.length === 0 || entries[0].revision === session.revision + 1;
+
+  let entries = await log.since(session.noteId, session.revision);
+  if (!inSequence(entries)) {
+    const note = await Note.findById(session.noteId).select('title content format revision');
+    if (!note) {
+      throw createError('Note not found', 404);
+    }
+    resetSession(session, note);
+
+    entries = await log.since(session.noteId, session.revision);
+    if (!inSequence(entries)) {
+      throw createError('Live session is out of sync, please reload the note', 409);
+    }
+  }
+
+  entries.forEach((entry) => record(session, entry));
+};
+
+/**
+ * Logs an operation made against the latest revision and applies it. When
+ * another instance logged that revision first, the session catches up and the
+ * operation is made again against the new one.
+ */
+const commit = (
+  session: NoteSession,
+  make: () => Omit<LoggedOperation, 'revision'>
+): Promise<AppliedOperation> => {
+  return enqueue(session, async () => {
+    for (;;) {
+      await catchUp(session);
+      const entry = { ...make(), revision: session.revision + 1 };
+      if (await getOperationLog().append(session.noteId, entry)) {
+        return record(session, entry);
+      }
+    }
+  });
+};
+
+// Loads the note into a live session, reusing the open one if any
+export const openSession = async (noteId: string): Promise<NoteSession | null> => {
+  const existing = sessions.get(noteId);
+  if (existing) {
+    existing.closing = false;
+    // Whoever joins gets the content as of the latest logged operation
+    await enqueue(existing, () => catchUp(existing));
+    return existing;
+  }
+
+  const pending = pendingSessions.get(noteId);
+  if (pending) return pending;
+
+  const loading = Note.findById(noteId)
+    .select('title content format revision')
+    .then(async (note) => {
+      if (!note) return null;
+
+      const session: NoteSession = {
+        noteId,
+        content: note.content,
+        title: note.title,
+        format: note.format,
+        revision: note.revision,
+        history: [],
+        historyStart: note.revision,
+        applying: Promise.resolve(),
+        dirty: false,
+        savedRevision: note.revision,
+        saving: Promise.resolve(),
+        closing: false,
+      };
+      // Edits made on other instances, or logged and never saved before a crash
+      await catchUp(session);
+      sessions.set(noteId, session);
+      return session;
+    })
+    .finally(() => {
+      pendingSessions.delete(noteId);
+    });
+
+  pendingSessions.set(noteId, loading);
+  return loading;
+};
+
+/**
+ * The latest state of a note, with unsaved live edits from whichever instance
+ * made them: this instance's session, or else the saved note with the
+ * operations logged since.
+ */
+export const loadLiveState = async (noteId: string, note: SavedNote): Promise<LiveState> => {
+  const session = sessions.get(noteId);
+  if (session) {
+    await enqueue(session, () => catchUp(session));
+    return session;
+  }
+
+  const state: LiveState = {
+    content: note.content,
+    title: note.title,
+    format: note.format,
+    revision: note.revision,
+    history: [],
+    historyStart: note.revision,
+  };
+  for (const entry of await getOperationLog().since(noteId, note.revision)) {
+    if (entry.revision !== state.revision + 1) break;
+    record(state, entry);
+  }
+  return state;
+};
+
+// Whether the note is edited live on any instance, or has logged edits that were never saved
+export const isLive = async (noteId: string, savedRevision: number): Promise<boolean> => {
+  if (sessions.has(noteId)) return true;
+  if ((await getPresence().list(noteId)).length > 0) return true;
+  return (await getOperationLog().since(noteId, savedRevision)).length > 0;
+};
+
+const clearTimers = (session: NoteSession): void => {
+  clearTimeout(session.debounceTimer);
+  clearTimeout(session.maxWaitTimer);
+  session.debounceTimer = undefined;
+  session.maxWaitTimer = undefined;
+};
+
+// Follow-up work once live edits are saved; the content is safe by then, so failures are only logged
+const afterSave = async (
+  session: NoteSession,
+  note: INote,
+  editor: NoteEditor,
+  previous: { title: string; content: string; format: NoteFormat }
+): Promise<void> => {
+  const { noteId } = session;
+
+  const results = await Promise.allSettled([
+    reanchorComments(noteId, session),
+    // Rich text is scanned as text, so excerpts hold no JSON
+    notifyMentions(
+      note,
+      editor.userId,
+      toPlainText(previous.content, previous.format),
+      toPlainText(note.content, note.format)
+    ),
+    recordNoteChanges(note, editor, previous),
+    // Sessions lagging a little behind can still catch up from the log
+    getOperationLog().trim(noteId, note.revision - config.collab.historyLimit),
+  ]);
+
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error(`Error after saving note ${noteId}:`, result.reason);
+    }
+  }
+};
+
+// Writes the live content to the note, recording the previous content as a version
+const persist = async (session: NoteSession): Promise<void> => {
+  if (!session.dirty) return;
+
+  const { noteId, content, title, format, revision } = session;
+  session.dirty = false;
+
+  try {
+    const note = await Note.findById(noteId);
+    if (!note) {
+      // Trashed or purged: there is nothing to save into and nobody left to edit it
+      clearTimers(session);
+      if (sessions.get(noteId) === session) sessions.delete(noteId);
+      return;
+    }
+
+    // Another instance editing the note already saved this revision or a later one
+    if (note.revision >= revision) {
+      session.savedRevision = revision;
+      return;
+    }
+    // Nor in between, so an older revision never replaces a newer one
+    note.$where = { revision: note.revision };
+
+    // Edits are always marked with their editor, the owner is only a fallback
+    const editor = session.lastEditor ?? { userId: note.owner.toString(), username: '' };
+    const previous = { title: note.title, content: note.content, format: note.format };
+    if (note.content !== content || note.title !== title || note.format !== format) {
+      await recordVersion(noteId, previous, editor.userId, editor.shareLink);
+    }
+    note.content = content;
+    note.title = title;
+    note.format = format;
+    note.revision = revision;
+    await note.save();
+
+    session.savedRevision = revision;
+    emitToNote(noteId, 'note-saved', { noteId, revision, savedAt: note.updatedAt });
+
+    await afterSave(session, note, editor, previous);
+  } catch (error) {
+    // Keep the edits around so the next save retries them
+    session.dirty = true;
+    throw error;
+  }
+};
+
+// Saves pending edits now; saves for the same note never overlap
+export const flushSession = (noteId: string): Promise<void> => {
+  const session = sessions.get(noteId);
+  if (!session) return Promise.resolve();
+
+  clearTimers(session);
+  session.saving = session.saving.catch(() => undefined).then(() => persist(session));
+  return session.saving;
+};
+
+const autosave = (noteId: string): void => {
+  flushSession(noteId).catch((error) => {
+    console.error(`Error autosaving note ${noteId}:`, error);
+  });
+};
+
+/**
+ * Marks the session as edited and schedules a save once editing goes idle,
+ * or at the latest after the max wait so long typing bursts still get saved.
+ */
+export const markDirty = (session: NoteSession, editor: NoteEditor): void => {
+  session.dirty = true;
+  session.lastEditor = editor;
+
+  clearTimeout(session.debounceTimer);
+  session.debounceTimer = setTimeout(
+    () => autosave(session.noteId),
+    config.collab.autosaveDebounceMs
+  );
+  session.debounceTimer.unref();
+
+  if (!session.maxWaitTimer) {
+    session.maxWaitTimer = setTimeout(
+      () => autosave(session.noteId),
+      config.collab.autosaveMaxWaitMs
+    );
+    session.maxWaitTimer.unref();
+  }
+};
+
+// A failed final save keeps the session, the edits exist nowhere else, and tries again later
+const retryClose = (session: NoteSession): void => {
+  clearTimers(session);
+  session.maxWaitTimer = setTimeout(() => {
+    if (sessions.get(session.noteId) !== session) return;
+
+    // Someone who came back in the meantime keeps it open, it is only saved then
+    const retry = session.closing ? closeSession(session.noteId) : flushSession(session.noteId);
+    retry.catch((error) => {
+      console.error(`Error saving note ${session.noteId}:`, error);
+    });
+  }, config.collab.autosaveMaxWaitMs);
+  session.maxWaitTimer.unref();
+};
+
+// Saves and drops the session once nobody is editing the note anymore
+export const closeSession = async (noteId: string): Promise<void> => {
+  const session = sessions.get(noteId);
+  if (!session) return;
+
+  session.closing = true;
+  try {
+    await flushSession(noteId);
+  } catch (error) {
+    retryClose(session);
+    throw error;
+  }
+
+  if (session.closing && sessions.get(noteId) === session) {
+    sessions.delete(noteId);
+
+    // With nobody in the note on any instance, what was saved needs no replaying
+    if ((await getPresence().list(noteId)).length === 0) {
+      await getOperationLog().trim(noteId, session.savedRevision);
+    }
+  }
+};
+
+/**
+ * Saves every unsaved live edit of the note, whichever instance made it, and
+ * drops this instance's session. Edits only another instance applied so far
+ * are credited to the owner.
+ */
+export const saveLiveEdits = async (noteId: string): Promise<void> => {
+  // Opening catches up with the shared log
+  const session = await openSession(noteId);
+  if (!session) return;
+
+  if (session.revision > session.savedRevision) session.dirty = true;
+  await closeSession(noteId);
+};
+
+/**
+ * Applies an operation a client made against `baseRevision`, transforming it
+ * over everything accepted since then, on this instance or another.
+ */
+export const submitOperation = (
+  session: NoteSession,
+  baseRevision: number,
+  operation: TextOperation,
+  changes: SessionChanges = {}
+): Promise<AppliedOperation> => {
+  return commit(session, () => {
+    if (!Number.isInteger(baseRevision) || baseRevision > session.revision) {
+      throw createError('Unknown revision', 400);
+    }
+    if (baseRevision < session.historyStart) {
+      throw createError('Revision is too old, please reload the note', 409);
+    }
+
+    let transformed = operation;
+    for (const concurrent of session.history.slice(baseRevision - session.historyStart)) {
+      [transformed] = transform(transformed, concurrent);
+    }
+
+    if (baseLength(transformed) !== session.content.length) {
+      throw createError('Operation does not match the document length', 400);
+    }
+
+    // Rich text must stay a valid document, the last valid one is kept otherwise
+    const message = validateNoteContent(apply(session.content, transformed), session.format);
+    if (message) {
+      throw createError(`Validation Error: ${message}`, 400);
+    }
+
+    return { operation: transformed, ...changes };
+  });
+};
+
+// Applies changes made outside the session (e.g. from the REST API), the content given whole
+export const applyChanges = (
+  session: NoteSession,
+  changes: SessionChanges & { content?: string }
+): Promise<AppliedOperation> => {
+  const { content, ...rest } = changes;
+  return commit(session, () => ({
+    operation: fromReplacement(session.content, content ?? session.content),
+    ...rest,
+  }));
+};
\ No newline at end of file
@@ -0,0 +1,249 @@
+import mongoose from 'mongoose';
+import Comment, { IComment, ICommentAnchor } from '@/models/Comment';
+import { createError } from '@/middleware/errorHandler';
+import { TextOperation } from '@/types';
+import { transformIndex } from '@/services/ot';
+
+/**
+ * Comment threads on a note. The first comment of a thread is anchored to a
+ * range of the content; as the content changes the range is carried through
+ * the operations applied to it, so it keeps pointing at the same text.
+ */
+
+// Content of a note at a revision, with the operations that led up to it
+export interface DocumentState {
+  content: string;
+  revision: number;
+  // history[i] took the document from revision (historyStart + i) to the next one
+  history: TextOperation[];
+  historyStart: number;
+}
+
+export type CommentStatus = 'open' | 'resolved' | 'all';
+
+export interface CommentRange {
+  start: number;
+  end: number;
+}
+
+// Finds the quoted text closest to where the range was, or collapses the range
+const relocate = (anchor: ICommentAnchor, content: string): CommentRange => {
+  const { quote } = anchor;
+  let best = -1;
+  for (let i = quote ? content.indexOf(quote) : -1; i !== -1; i = content.indexOf(quote, i + 1)) {
+    if (best === -1 || Math.abs(i - anchor.start) < Math.abs(best - anchor.start)) best = i;
+  }
+  if (best !== -1) return { start: best, end: best + quote.length };
+
+  const start = Math.min(anchor.start, content.length);
+  return { start, end: start };
+};
+
+// Carries a range through operations, text typed at its edges stays outside of it
+export const mapRange = (range: CommentRange, operations: TextOperation[]): CommentRange => {
+  return operations.reduce(({ start, end }, op) => {
+    const mappedStart = transformIndex(op, start, true);
+    return { start: mappedStart, end: Math.max(mappedStart, transformIndex(op, end)) };
+  }, range);
+};
+
+/**
+ * Where an anchor sits in the given document. Anchors older than the kept
+ * history fall back to looking for the text they quoted.
+ */
+export const currentRange = (anchor: ICommentAnchor, doc: DocumentState): CommentRange => {
+  if (anchor.revision === doc.revision) {
+    return { start: anchor.start, end: anchor.end };
+  }
+  if (anchor.revision < doc.historyStart || anchor.revision > doc.revision) {
+    return relocate(anchor, doc.content);
+  }
+
+  const operations = doc.history.slice(
+    anchor.revision - doc.historyStart,
+    doc.revision - doc.historyStart
+  );
+  return mapRange(anchor, operations);
+};
+
+/**
+ * Turns a range a client picked at `revision` into one on the current
+ * content, the same way concurrent edits are transformed.
+ */
+export const anchorAt = (
+  range: CommentRange,
+  doc: DocumentState,
+  revision = doc.revision
+): ICommentAnchor => {
+  if (!Number.isInteger(revision) || revision > doc.revision) {
+    throw createError('Unknown revision', 400);
+  }
+  if (revision < doc.historyStart) {
+    throw createError('Revision is too old, please reload the note', 409);
+  }
+
+  const { start, end } = mapRange(
+    range,
+    doc.history.slice(revision - doc.historyStart, doc.revision - doc.historyStart)
+  );
+  if (start > end || end > doc.content.length) {
+    throw createError('Comment range is outside of the note content', 400);
+  }
+
+  return { start, end, quote: doc.content.slice(start, end), revision: doc.revision };
+};
+
+// Stores the current position of every anchor that refers to an older revision
+export const reanchorComments = async (noteId: string, doc: DocumentState): Promise<number> => {
+  const threads = await Comment.find({
+    note: noteId,
+    parent: null,
+    'anchor.revision': { $lt: doc.revision },
+  }).select('anchor');
+  if (threads.length === 0) return 0;
+
+  const result = await Comment.bulkWrite(
+    threads.map((thread) => {
+      const anchor = thread.anchor!;
+      const { start, end } = currentRange(anchor, doc);
+      return {
+        updateOne: {
+          // Skip threads another save moved on in the meantime
+          filter: { _id: thread._id, 'anchor.revision': anchor.revision },
+          update: {
+            $set: {
+              'anchor.start': start,
+              'anchor.end': end,
+              'anchor.revision': doc.revision,
+            },
+          },
+        },
+      };
+    })
+  );
+  return result.modifiedCount;
+};
+
+const presentThread = (thread: IComment, replies: IComment[], doc: DocumentState) => {
+  return {
+    ...thread.toJSON(),
+    anchor: {
+      ...currentRange(thread.anchor!, doc),
+      quote: thread.anchor!.quote,
+      revision: doc.revision,
+    },
+    replies: replies.map((reply) => reply.toJSON()),
+  };
+};
+
+// Threads with their replies, anchored to the given document
+export const listComments = async (
+  noteId: string,
+  doc: DocumentState,
+  status: CommentStatus = 'open'
+) => {
+  const threads = await Comment.find({
+    note: noteId,
+    parent: null,
+    ...(status !== 'all' && { resolved: status === 'resolved' }),
+  })
+    .populate('author', 'username')
+    .populate('resolvedBy', 'username')
+    .sort({ createdAt: 1 });
+
+  const replies = await Comment.find({ parent: { $in: threads.map((thread) => thread._id) } })
+    .populate('author', 'username')
+    .sort({ createdAt: 1 });
+
+  const repliesByThread = new Map<string, IComment[]>();
+  for (const reply of replies) {
+    const key = reply.parent!.toString();
+    repliesByThread.set(key, [...(repliesByThread.get(key) ?? []), reply]);
+  }
+
+  return threads.map((thread) =>
+    presentThread(thread, repliesByThread.get(thread._id.toString()) ?? [], doc)
+  );
+};
+
+export const findComment = async (noteId: string, commentId: string): Promise<IComment> => {
+  if (!mongoose.Types.ObjectId.isValid(commentId)) {
+    throw createError('Invalid comment ID', 400);
+  }
+
+  const comment = await Comment.findOne({ _id: commentId, note: noteId });
+  if (!comment || comment.deleted) {
+    throw createError('Comment not found', 404);
+  }
+  return comment;
+};
+
+export const createThread = async (
+  noteId: string,
+  authorId: string,
+  body: string,
+  anchor: ICommentAnchor
+): Promise<IComment> => {
+  const comment = await Comment.create({ note: noteId, author: authorId, body, anchor });
+  return comment.populate('author', 'username');
+};
+
+// Replies always go to the thread, replying to a reply adds to the same thread
+export const replyToComment = async (
+  comment: IComment,
+  authorId: string,
+  body: string
+): Promise<IComment> => {
+  const reply = await Comment.create({
+    note: comment.note,
+    author: authorId,
+    parent: comment.parent ?? comment._id,
+    body,
+  });
+  return reply.populate('author', 'username');
+};
+
+export const editComment = async (comment: IComment, body: string): Promise<IComment> => {
+  comment.body = body;
+  comment.editedAt = new Date();
+  await comment.save();
+  return comment.populate('author', 'username');
+};
+
+/**
+ * Removes a comment. A thread start with replies is only blanked so the
+ * conversation stays readable; it goes away with its last reply.
+ */
+export const deleteComment = async (comment: IComment): Promise<void> => {
+  if (!comment.parent) {
+    if (await Comment.exists({ parent: comment._id })) {
+      comment.deleted = true;
+      await comment.save();
+    } else {
+      await comment.deleteOne();
+    }
+    return;
+  }
+
+  await comment.deleteOne();
+  if (!(await Comment.exists({ parent: comment.parent }))) {
+    await Comment.deleteOne({ _id: comment.parent, deleted: true });
+  }
+};
+
+// Resolving applies to the whole thread, passing no user reopens it
+export const setResolved = async (thread: IComment, userId: string | null): Promise<IComment> => {
+  if (thread.parent) {
+    throw createError('Only a thread can be resolved', 400);
+  }
+
+  thread.resolved = Boolean(userId);
+  thread.resolvedBy = userId ? new mongoose.Types.ObjectId(userId) : null;
+  thread.resolvedAt = userId ? new Date() : undefined;
+  await thread.save();
+  return thread.populate('resolvedBy', 'username');
+};
+
+export const deleteComments = async (noteId: string): Promise<void> => {
+  await Comment.deleteMany({ note: noteId });
+};
\ No newline at end of file
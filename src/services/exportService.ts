@@ -0,0 +1,322 @@
+import mongoose from 'mongoose';
+import JSZip from 'jszip';
+import Note, { INote } from '@/models/Note';
+import { IUser } from '@/models/User';
+import ExportJob, { IExportJob, ExportFormat } from '@/models/ExportJob';
+import { config } from '@/config/config';
+import { createError } from '@/middleware/errorHandler';
+import { loadLiveState } from '@/services/collabService';
+import { listVersions } from '@/services/versionService';
+import { noteAccessFilter } from '@/services/folderService';
+import { getStorage } from '@/services/storageService';
+import { emitToUser } from '@/sockets/emitter';
+import { Role } from '@/types';
+import { escapeHtml, renderHtml, toPlainText } from '@/utils/content';
+
+/**
+ * Gets notes out as files: one note at a time, or every note of an account
+ * as a zip archive built in the background. Markdown files start with YAML
+ * front matter, HTML files carry the same metadata in meta tags with the
+ * rendered note, and JSON files also hold the format and version history.
+ */
+
+export interface ExportedFile {
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
+// A note loaded by loadNotes, with the owner and collaborators' usernames
+type ExportNote = Omit<INote, 'owner' | 'collaborators'> & {
+  owner: Pick<IUser, '_id' | 'username'>;
+  collaborators: { user: Pick<IUser, 'username'> | null; role: Role }[];
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const loadNotes = (filter: Record<string, unknown>) => {
+  return Note.find(filter)
+    .select('+personalTags')
+    .populate<{ owner: ExportNote['owner'] }>('owner', 'username')
+    .populate<{ collaborators: ExportNote['collaborators'] }>('collaborators.user', 'username');
+};
+
+// Pending live edits belong in the export, from whichever instance made them
+const withLiveEdits = async (note: ExportNote): Promise<ExportNote> => {
+  const { title, content, format } = await loadLiveState(note._id.toString(), note);
+  return Object.assign(note, { title, content, format });
+};
+
+export const loadExportNote = async (noteId: string): Promise<ExportNote | null> => {
+  const [note] = await loadNotes({ _id: noteId });
+  return note ? withLiveEdits(note) : null;
+};
+
+const metadataOf = (note: ExportNote, userId: string) => {
+  const personalTags =
+    note.personalTags?.find((entry) => entry.user.toString() === userId)?.tags ?? [];
+
+  return {
+    title: note.title,
+    tags: note.tags,
+    ...(personalTags.length > 0 && { personalTags }),
+    owner: note.owner.username,
+    // Accounts that no longer exist are left out
+    collaborators: note.collaborators
+      .filter((collaborator) => collaborator.user)
+      .map((collaborator) => ({ username: collaborator.user!.username, role: collaborator.role })),
+    createdAt: note.createdAt,
+    updatedAt: note.updatedAt,
+  };
+};
+
+// JSON is valid YAML, so each value is written as JSON to avoid quoting rules
+const toMarkdown = (metadata: Record<string, unknown>, content: string): string => {
+  const frontMatter = Object.entries(metadata).map(
+    ([key, value]) => `${key}: ${JSON.stringify(value)}`
+  );
+  return ['---', ...frontMatter, '---', '', content].join('\n');
+};
+
+const toHtml = (metadata: ReturnType<typeof metadataOf>, note: ExportNote): string => {
+  const meta = (name: string, value: string) => {
+    return `  <meta name="${name}" content="${escapeHtml(value)}">`;
+  };
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '  <meta charset="utf-8">',
+    `  <title>${escapeHtml(metadata.title)}</title>`,
+    meta('author', metadata.owner),
+    meta('keywords', metadata.tags.join(', ')),
+    meta(
+      'collaborators',
+      metadata.collaborators.map(({ username, role }) => `${username} (${role})`).join(', ')
+    ),
+    meta('created', metadata.createdAt.toISOString()),
+    meta('modified', metadata.updatedAt.toISOString()),
+    '</head>',
+    '<body>',
+    `  <h1>${escapeHtml(metadata.title)}</h1>`,
+    renderHtml(note.content, note.format),
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+};
+
+const toJson = async (note: ExportNote, metadata: ReturnType<typeof metadataOf>) => {
+  const versions = await listVersions(note._id.toString());
+
+  return JSON.stringify(
+    {
+      id: note._id,
+      ...metadata,
+      revision: note.revision,
+      format: note.format,
+      content: note.content,
+      versions: versions.map((version) => ({
+        seq: version.seq,
+        title: version.title,
+        format: version.format,
+        content: version.content,
+        modifiedBy: version.modifiedBy?.username ?? null,
+        modifiedAt: version.modifiedAt,
+        label: version.label,
+      })),
+    },
+    null,
+    2
+  );
+};
+
+// Reserved in file names on some OS: path separators, wildcards and control characters
+const RESERVED_FILE_NAME_CHARS = new Set('\\/:*?"<>|');
+
+const isReservedFileNameChar = (char: string): boolean => {
+  return char.charCodeAt(0) < 0x20 || RESERVED_FILE_NAME_CHARS.has(char);
+};
+
+// Turns a title into a file name that works on every OS
+const baseName = (title: string): string => {
+  const name = Array.from(title, (char) => (isReservedFileNameChar(char) ? '_' : char))
+    .join('')
+    .trim();
+  return name.slice(0, 100) || 'Untitled';
+};
+
+export const renderNote = async (
+  note: ExportNote,
+  format: ExportFormat,
+  userId: string
+): Promise<ExportedFile> => {
+  const metadata = metadataOf(note, userId);
+
+  let content: string;
+  if (format === 'json') {
+    content = await toJson(note, metadata);
+  } else if (format === 'html') {
+    content = toHtml(metadata, note);
+  } else {
+    // Rich text has no Markdown form, its text is the closest
+    const body =
+      note.format === 'richtext-json' ? toPlainText(note.content, note.format) : note.content;
+    content = toMarkdown(metadata, body);
+  }
+
+  return {
+    fileName: `${baseName(note.title)}.${format}`,
+    contentType: CONTENT_TYPES[format],
+    content,
+  };
+};
+
+// Owned notes go in notes/, notes shared with the user in shared/
+const buildArchive = async (userId: string, format: ExportFormat, includeShared: boolean) => {
+  const user = new mongoose.Types.ObjectId(userId);
+  const filter = includeShared ? await noteAccessFilter(userId) : { owner: user };
+
+  const zip = new JSZip();
+  const used = new Set<string>();
+  let noteCount = 0;
+
+  for await (const note of loadNotes(filter).cursor()) {
+    const file = await renderNote(await withLiveEdits(note), format, userId);
+    const folder = note.owner._id.equals(user) ? 'notes' : 'shared';
+
+    // Notes with the same title get numbered
+    const base = file.fileName.slice(0, -(format.length + 1));
+    let path = `${folder}/${file.fileName}`;
+    for (let n = 2; used.has(path.toLowerCase()); n++) {
+      path = `${folder}/${base} (${n}).${format}`;
+    }
+    used.add(path.toLowerCase());
+
+    zip.file(path, file.content, { date: note.updatedAt });
+    noteCount++;
+  }
+
+  const data = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  return { data, noteCount };
+};
+
+const runExport = async (job: IExportJob): Promise<void> => {
+  const userId = job.user.toString();
+  const expiresAt = () => new Date(Date.now() + config.exports.retentionHours * HOUR_MS);
+
+  try {
+    await ExportJob.updateOne({ _id: job._id }, { status: 'running' });
+
+    const { data, noteCount } = await buildArchive(userId, job.format, job.includeShared);
+    const storageKey = `exports/${userId}/${job._id}.zip`;
+    await getStorage().put(storageKey, data, 'application/zip');
+
+    await ExportJob.updateOne(
+      { _id: job._id },
+      {
+        status: 'completed',
+        storageKey,
+        noteCount,
+        size: data.length,
+        completedAt: new Date(),
+        expiresAt: expiresAt(),
+      }
+    );
+    emitToUser(userId, 'export-finished', { exportId: job._id.toString(), status: 'completed' });
+  } catch (error) {
+    console.error(`Error exporting notes of user ${userId}:`, error);
+    await ExportJob.updateOne(
+      { _id: job._id },
+      { status: 'failed', error: 'Export failed', completedAt: new Date(), expiresAt: expiresAt() }
+    ).catch(() => undefined);
+    emitToUser(userId, 'export-finished', { exportId: job._id.toString(), status: 'failed' });
+  }
+};
+
+// Queues an account export; the archive is built after the response is sent
+export const startExport = async (
+  userId: string,
+  format: ExportFormat,
+  includeShared: boolean
+): Promise<IExportJob> => {
+  if (await ExportJob.exists({ user: userId, status: { $in: ['pending', 'running'] } })) {
+    throw createError('An export is already in progress', 409);
+  }
+
+  const job = await ExportJob.create({ user: userId, format, includeShared });
+  setImmediate(() => {
+    runExport(job);
+  });
+  return job;
+};
+
+export const listExports = async (userId: string) => {
+  return ExportJob.find({ user: userId }).sort({ createdAt: -1 });
+};
+
+export const findExport = async (userId: string, exportId: string): Promise<IExportJob> => {
+  if (!mongoose.Types.ObjectId.isValid(exportId)) {
+    throw createError('Invalid export ID', 400);
+  }
+
+  const job = await ExportJob.findOne({ _id: exportId, user: userId }).select('+storageKey');
+  if (!job) {
+    throw createError('Export not found', 404);
+  }
+  return job;
+};
+
+export const readExport = async (job: IExportJob) => {
+  if (job.status !== 'completed' || !job.storageKey) {
+    throw createError('Export is not ready', 409);
+  }
+  return getStorage().read(job.storageKey);
+};
+
+export const deleteExport = async (job: IExportJob): Promise<void> => {
+  await ExportJob.deleteOne({ _id: job._id });
+  if (job.storageKey) {
+    await getStorage().remove(job.storageKey);
+  }
+};
+
+/**
+ * Deletes archives past their retention, and fails jobs that stopped
+ * making progress, e.g. because the server restarted while they ran.
+ */
+export const purgeExpiredExports = async (now = new Date()): Promise<number> => {
+  await ExportJob.updateMany(
+    {
+      status: { $in: ['pending', 'running'] },
+      updatedAt: { $lte: new Date(now.getTime() - HOUR_MS) },
+    },
+    { status: 'failed', error: 'Export was interrupted', expiresAt: now }
+  );
+
+  const expired = await ExportJob.find({ expiresAt: { $lte: now } }).select('+storageKey');
+  for (const job of expired) {
+    await deleteExport(job);
+  }
+  return expired.length;
+};
+
+export const startExportCleanup = (): NodeJS.Timeout => {
+  const run = () => {
+    purgeExpiredExports().catch((error) => {
+      console.error('Error removing expired exports:', error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, HOUR_MS);
+  timer.unref();
+  return timer;
+};
\ No newline at end of file
@@ -0,0 +1,188 @@
+import mongoose from 'mongoose';
+import Folder, { IFolder } from '@/models/Folder';
+import Note from '@/models/Note';
+import { createError } from '@/middleware/errorHandler';
+import { Role, Capability } from '@/types';
+import { ROLES, can, strongestRole } from '@/utils/permissions';
+
+/**
+ * Folder access is inherited: a grant on a folder covers every folder and note
+ * below it. Folders keep their ancestors, so the subtree under a set of folders
+ * is a single query.
+ */
+
+// Folders the user owns or was granted, plus everything below them
+export const accessibleFolderIds = async (userId: string): Promise<mongoose.Types.ObjectId[]> => {
+  const roots: mongoose.Types.ObjectId[] = await Folder.find({
+    $or: [{ owner: userId }, { 'collaborators.user': userId }],
+  }).distinct('_id');
+  if (roots.length === 0) return [];
+
+  const descendants: mongoose.Types.ObjectId[] = await Folder.find({
+    ancestors: { $in: roots },
+  }).distinct('_id');
+
+  const ids = new Map(roots.concat(descendants).map((id) => [id.toString(), id]));
+  return [...ids.values()];
+};
+
+/**
+ * Filter matching every note the user can read. Ids are ObjectIds so the
+ * filter also works in aggregations, which mongoose does not cast; for the
+ * same reason it leaves out trashed notes itself.
+ */
+export const noteAccessFilter = async (userId: string) => {
+  const user = new mongoose.Types.ObjectId(userId);
+  const folders = await accessibleFolderIds(userId);
+
+  return {
+    deletedAt: null,
+    $or: [
+      { owner: user },
+      { 'collaborators.user': user },
+      ...(folders.length > 0 ? [{ folder: { $in: folders } }] : []),
+    ],
+  };
+};
+
+// The user's role on every folder they can reach, owned folders counting as admin
+export const folderRoles = async (userId: string): Promise<Map<string, Role>> => {
+  const granted = await Folder.find({
+    $or: [{ owner: userId }, { 'collaborators.user': userId }],
+  }).select('owner collaborators');
+
+  const grants = new Map<string, Role>();
+  for (const folder of granted) {
+    const role =
+      folder.owner.toString() === userId
+        ? 'admin'
+        : folder.collaborators.find((c) => c.user.toString() === userId)?.role;
+    if (role) grants.set(folder._id.toString(), role);
+  }
+  if (grants.size === 0) return new Map();
+
+  const roots = granted.map((folder) => folder._id);
+  const folders = await Folder.find({
+    $or: [{ _id: { $in: roots } }, { ancestors: { $in: roots } }],
+  }).select('ancestors');
+
+  const roles = new Map<string, Role>();
+  for (const folder of folders) {
+    const path = [...folder.ancestors, folder._id].map((id) => grants.get(id.toString()));
+    const role = strongestRole(...path);
+    if (role) roles.set(folder._id.toString(), role);
+  }
+  return roles;
+};
+
+/**
+ * One filter per role, matching the notes on which that is the user's role:
+ * the strongest of their direct grant and the one from the note's folder.
+ * Meant to be combined with noteAccessFilter, and aggregation-safe like it.
+ */
+export const noteRoleFilters = async (
+  userId: string
+): Promise<Record<Role | 'owner', Record<string, unknown>>> => {
+  const user = new mongoose.Types.ObjectId(userId);
+  const roles = [...(await folderRoles(userId))];
+
+  const foldersWith = (match: (role: Role) => boolean) => {
+    return roles.filter(([, role]) => match(role)).map(([id]) => new mongoose.Types.ObjectId(id));
+  };
+
+  const filterFor = (role: Role) => {
+    const rank = ROLES.indexOf(role);
+    const stronger = ROLES.slice(rank + 1);
+
+    return {
+      owner: { $ne: user },
+      $or: [
+        {
+          collaborators: { $elemMatch: { user, role } },
+          folder: { $nin: foldersWith((r) => ROLES.indexOf(r) > rank) },
+        },
+        {
+          folder: { $in: foldersWith((r) => r === role) },
+          collaborators: { $not: { $elemMatch: { user, role: { $in: stronger } } } },
+        },
+      ],
+    };
+  };
+
+  return {
+    owner: { owner: user },
+    read: filterFor('read'),
+    comment: filterFor('comment'),
+    write: filterFor('write'),
+    admin: filterFor('admin'),
+  };
+};
+
+// Loads a folder the user may use for the given capability, or throws
+export const getAuthorizedFolder = async (
+  folderId: string,
+  userId: string,
+  capability: Capability = 'read'
+): Promise<{ folder: IFolder; role: Role | 'owner' }> => {
+  if (!mongoose.Types.ObjectId.isValid(folderId)) {
+    throw createError('Invalid folder ID', 400);
+  }
+
+  const folder = await Folder.findById(folderId);
+  if (!folder) {
+    throw createError('Folder not found', 404);
+  }
+
+  const role =
+    folder.owner.toString() === userId ? 'owner' : await Folder.roleFor(folder._id, userId);
+  if (!role || !can(role, capability)) {
+    throw createError('Access denied', 403);
+  }
+
+  return { folder, role };
+};
+
+/**
+ * Moves a folder under a new parent (null for the top level) and rewrites the
+ * ancestors of everything below it.
+ */
+export const moveFolder = async (folder: IFolder, parent: IFolder | null): Promise<void> => {
+  if (
+    parent &&
+    (parent._id.equals(folder._id) || parent.ancestors.some((id) => id.equals(folder._id)))
+  ) {
+    throw createError('Cannot move a folder into itself or one of its subfolders', 400);
+  }
+
+  const ancestors = parent ? [...parent.ancestors, parent._id] : [];
+
+  const descendants = await Folder.find({ ancestors: folder._id }).select('ancestors');
+  const operations = descendants.map((descendant) => {
+    // Keep the part of the path below the moved folder
+    const below = descendant.ancestors.slice(
+      descendant.ancestors.findIndex((id) => id.equals(folder._id))
+    );
+    return {
+      updateOne: {
+        filter: { _id: descendant._id },
+        update: { $set: { ancestors: [...ancestors, ...below] } },
+      },
+    };
+  });
+
+  folder.parent = parent ? parent._id : null;
+  folder.ancestors = ancestors;
+  await folder.save();
+
+  if (operations.length > 0) {
+    await Folder.bulkWrite(operations);
+  }
+};
+
+export const isFolderEmpty = async (folderId: mongoose.Types.ObjectId): Promise<boolean> => {
+  const [folders, notes] = await Promise.all([
+    Folder.countDocuments({ parent: folderId }),
+    Note.countDocuments({ folder: folderId }),
+  ]);
+  return folders === 0 && notes === 0;
+};
\ No newline at end of file
@@ -0,0 +1,406 @@
+import path from 'path';
+import mongoose from 'mongoose';
+import JSZip from 'jszip';
+import yaml from 'js-yaml';
+import { XMLParser } from 'fast-xml-parser';
+import Note, { INote } from '@/models/Note';
+import ImportJob, { IImportJob, IImportResult, ImportSource } from '@/models/ImportJob';
+import { config } from '@/config/config';
+import { AppError, createError } from '@/middleware/errorHandler';
+import { UploadedFile } from '@/middleware/upload';
+import { normalizeTags } from '@/services/tagService';
+import { recordActivity } from '@/services/activityService';
+import { emitToUser } from '@/sockets/emitter';
+import { htmlToText } from '@/utils/content';
+import { NoteFormat } from '@/types';
+
+/**
+ * Creates notes from files exported by other tools: Markdown with optional
+ * YAML front matter, plain text, zip archives of those, and Evernote ENEX
+ * exports. Single files are imported right away; archives run in the
+ * background, and every file gets its own result.
+ */
+
+// Files inside a zip archive that become notes
+const NOTE_EXTENSIONS = ['.md', '.markdown', '.txt'];
+
+const ARCHIVE_SOURCES: ImportSource[] = ['zip', 'enex'];
+
+// Notes accept up to 20 tags of up to 50 characters, like createNote
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const MAX_TITLE_LENGTH = 200;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface ParsedNote {
+  title: string;
+  content: string;
+  format: NoteFormat;
+  tags: string[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Each file of an import, with a way to read it or the reason it is skipped
+type ImportItem =
+  { file: string; read: () => Promise<ParsedNote> } | { file: string; skip: string };
+
+interface ImportActor {
+  userId: string;
+  username: string;
+}
+
+export const sourceOf = (fileName: string): ImportSource => {
+  switch (path.extname(fileName).toLowerCase()) {
+    case '.zip':
+      return 'zip';
+    case '.enex':
+      return 'enex';
+    case '.txt':
+      return 'text';
+    default:
+      return 'markdown';
+  }
+};
+
+const toTitle = (value: string): string => value.trim().slice(0, MAX_TITLE_LENGTH) || 'Untitled';
+
+const titleFromFileName = (fileName: string): string => {
+  return toTitle(path.basename(fileName, path.extname(fileName)));
+};
+
+const toDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number' && !(value instanceof Date)) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+// Front matter tags come as a list or as a comma-separated string
+const toTags = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === 'string') return value.split(',');
+  return [];
+};
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+export const parseMarkdown = (text: string, fileName: string): ParsedNote => {
+  const match = text.match(FRONT_MATTER);
+  if (!match) {
+    return { title: titleFromFileName(fileName), content: text, format: 'markdown', tags: [] };
+  }
+
+  let data: unknown;
+  try {
+    data = yaml.load(match[1]);
+  } catch (error) {
+    throw createError('Front matter is not valid YAML', 400);
+  }
+  const meta = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  const title = typeof meta.title === 'string' || typeof meta.title === 'number';
+
+  return {
+    title: title ? toTitle(String(meta.title)) : titleFromFileName(fileName),
+    // Exports leave a blank line after the front matter
+    content: text.slice(match[0].length).replace(/^\r?\n/, ''),
+    format: 'markdown',
+    tags: toTags(meta.tags),
+    createdAt: toDate(meta.createdAt ?? meta.created ?? meta.date),
+    updatedAt: toDate(meta.updatedAt ?? meta.updated ?? meta.modified),
+  };
+};
+
+export const parseText = (text: string, fileName: string): ParsedNote => {
+  return { title: titleFromFileName(fileName), content: text, format: 'plain', tags: [] };
+};
+
+// Evernote stores notes as ENML, a subset of XHTML with checkboxes of its own
+export const enmlToText = (enml: string): string => {
+  return htmlToText(
+    enml
+      .replace(/<en-todo\b[^>]*checked="true"[^>]*>/gi, '[x] ')
+      .replace(/<en-todo\b[^>]*>/gi, '[ ] ')
+  );
+};
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: true,
+  parseTagValue: false,
+  isArray: (name) => name === 'note' || name === 'tag',
+});
+
+// Evernote dates look like 20240131T094500Z
+const toEnexDate = (value: unknown): Date | undefined => {
+  const match = String(value ?? '').match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return undefined;
+
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+};
+
+export const parseEnex = (xml: string): ParsedNote[] => {
+  let document: Record<string, unknown>;
+  try {
+    document = xmlParser.parse(xml, true);
+  } catch (error) {
+    throw createError('File is not a valid Evernote export', 400);
+  }
+
+  const root = document['en-export'] as { note?: Record<string, unknown>[] } | undefined;
+  if (!root) {
+    throw createError('File is not a valid Evernote export', 400);
+  }
+
+  return (root.note ?? []).map((note) => ({
+    title: toTitle(String(note.title ?? '')),
+    content: enmlToText(String(note.content ?? '')),
+    format: 'plain',
+    tags: ((note.tag as unknown[]) ?? []).map(String),
+    createdAt: toEnexDate(note.created),
+    updatedAt: toEnexDate(note.updated),
+  }));
+};
+
+// Decompresses one archive entry, giving up once it grows past the limit
+const readEntry = (entry: JSZip.JSZipObject, maxBytes: number): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const stream = entry.nodeStream('nodebuffer');
+    stream
+      .on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          stream.pause();
+          reject(createError('File is too large', 413));
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('error', reject)
+      .on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  });
+};
+
+// Hidden files and the resource forks macOS adds to archives are left out silently
+const isHidden = (name: string): boolean => {
+  return name.split('/').some((part) => part.startsWith('.') || part === '__MACOSX');
+};
+
+const listItems = async (
+  source: ImportSource,
+  fileName: string,
+  data: Buffer
+): Promise<ImportItem[]> => {
+  if (source === 'markdown' || source === 'text') {
+    const parse = source === 'markdown' ? parseMarkdown : parseText;
+    return [{ file: fileName, read: async () => parse(data.toString('utf8'), fileName) }];
+  }
+
+  if (source === 'enex') {
+    return parseEnex(data.toString('utf8')).map((note) => ({
+      file: note.title,
+      read: async () => note,
+    }));
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    throw createError('File is not a valid zip archive', 400);
+  }
+
+  return Object.values(zip.files)
+    .filter((entry) => !entry.dir && !isHidden(entry.name))
+    .map((entry): ImportItem => {
+      const extension = path.extname(entry.name).toLowerCase();
+      if (!NOTE_EXTENSIONS.includes(extension)) {
+        return { file: entry.name, skip: 'Unsupported file type' };
+      }
+
+      const parse = extension === '.txt' ? parseText : parseMarkdown;
+      return {
+        file: entry.name,
+        read: async () => parse(await readEntry(entry, config.imports.maxSizeBytes), entry.name),
+      };
+    });
+};
+
+const createNote = async (
+  parsed: ParsedNote,
+  actor: ImportActor,
+  folder: mongoose.Types.ObjectId | null,
+  file: string
+): Promise<INote> => {
+  if (!parsed.content.trim()) {
+    throw createError('Note is empty', 400);
+  }
+
+  // Keep the dates from the other tool, so notes sort the way they did there
+  const createdAt = parsed.createdAt ?? parsed.updatedAt ?? new Date();
+  const note = new Note({
+    title: parsed.title,
+    content: parsed.content,
+    format: parsed.format,
+    owner: actor.userId,
+    folder,
+    tags: normalizeTags(parsed.tags)
+      .filter((tag) => tag.length <= MAX_TAG_LENGTH)
+      .slice(0, MAX_TAGS),
+    createdAt,
+    updatedAt: parsed.updatedAt ?? createdAt,
+  });
+  await note.save({ timestamps: false });
+
+  await recordActivity(note, actor, 'note.created', { importedFrom: file });
+  return note;
+};
+
+const runImport = async (job: IImportJob, data: Buffer, actor: ImportActor): Promise<void> => {
+  const { userId } = actor;
+
+  try {
+    await ImportJob.updateOne({ _id: job._id }, { status: 'running' });
+
+    let imported = 0;
+    for (const item of await listItems(job.source, job.fileName, data)) {
+      let result: IImportResult;
+
+      if ('skip' in item) {
+        result = { file: item.file, status: 'skipped', error: item.skip };
+      } else if (imported >= config.imports.maxNotes) {
+        result = {
+          file: item.file,
+          status: 'skipped',
+          error: `Only ${config.imports.maxNotes} notes can be imported at once`,
+        };
+      } else {
+        try {
+          const note = await createNote(await item.read(), actor, job.folder, item.file);
+          result = { file: item.file, status: 'imported', note: note._id };
+          imported++;
+        } catch (error) {
+          result = { file: item.file, status: 'failed', error: (error as Error).message };
+        }
+      }
+
+      // Saved as it goes, so the progress can be followed
+      await ImportJob.updateOne(
+        { _id: job._id },
+        {
+          $push: { results: result },
+          $inc: {
+            imported: result.status === 'imported' ? 1 : 0,
+            failed: result.status === 'failed' ? 1 : 0,
+          },
+        }
+      );
+    }
+
+    await ImportJob.updateOne({ _id: job._id }, { status: 'completed', completedAt: new Date() });
+  } catch (error) {
+    // Unreadable files are the user's to fix, anything else is on us
+    const message = (error as AppError).isOperational ? (error as Error).message : 'Import failed';
+    if (!(error as AppError).isOperational) {
+      console.error(`Error importing ${job.fileName} for user ${userId}:`, error);
+    }
+    await ImportJob.updateOne(
+      { _id: job._id },
+      { status: 'failed', error: message, completedAt: new Date() }
+    ).catch(() => undefined);
+  }
+
+  const finished = await ImportJob.findById(job._id).select('status imported failed');
+  emitToUser(userId, 'import-finished', {
+    importId: job._id.toString(),
+    status: finished?.status,
+    imported: finished?.imported,
+    failed: finished?.failed,
+  });
+};
+
+/**
+ * Imports an uploaded file. Markdown and text files are done when this
+ * returns; archives are only queued and imported after the response is sent.
+ */
+export const startImport = async (
+  actor: ImportActor,
+  file: UploadedFile,
+  folder: string | null
+): Promise<IImportJob> => {
+  const source = sourceOf(file.originalname);
+  const inBackground = ARCHIVE_SOURCES.includes(source);
+
+  if (
+    inBackground &&
+    (await ImportJob.exists({ user: actor.userId, status: { $in: ['pending', 'running'] } }))
+  ) {
+    throw createError('An import is already in progress', 409);
+  }
+
+  const job = await ImportJob.create({
+    user: actor.userId,
+    fileName: file.originalname,
+    source,
+    folder,
+  });
+
+  if (inBackground) {
+    setImmediate(() => {
+      // Nobody awaits it, so a failure reporting the outcome is only logged
+      runImport(job, file.buffer, actor).catch((error) => {
+        console.error(`Error finishing import ${job._id} for user ${actor.userId}:`, error);
+      });
+    });
+    return job;
+  }
+
+  await runImport(job, file.buffer, actor);
+  return (await ImportJob.findById(job._id))!;
+};
+
+export const listImports = async (userId: string) => {
+  return ImportJob.find({ user: userId }).select('-results').sort({ createdAt: -1 });
+};
+
+export const findImport = async (userId: string, importId: string): Promise<IImportJob> => {
+  if (!mongoose.Types.ObjectId.isValid(importId)) {
+    throw createError('Invalid import ID', 400);
+  }
+
+  const job = await ImportJob.findOne({ _id: importId, user: userId });
+  if (!job) {
+    throw createError('Import not found', 404);
+  }
+  return job;
+};
+
+// Jobs that stopped making progress, e.g. because the server restarted while they ran
+export const failInterruptedImports = async (now = new Date()): Promise<number> => {
+  const result = await ImportJob.updateMany(
+    {
+      status: { $in: ['pending', 'running'] },
+      updatedAt: { $lte: new Date(now.getTime() - HOUR_MS) },
+    },
+    { status: 'failed', error: 'Import was interrupted', completedAt: now }
+  );
+  return result.modifiedCount;
+};
+
+export const startImportCleanup = (): NodeJS.Timeout => {
+  const run = () => {
+    failInterruptedImports().catch((error) => {
+      console.error('Error cleaning up imports:', error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, HOUR_MS);
+  timer.unref();
+  return timer;
+};
\ No newline at end of file
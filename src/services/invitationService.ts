@@ -0,0 +1,199 @@
+import mongoose from 'mongoose';
+import Invitation, { IInvitation } from '@/models/Invitation';
+import Note, { INote } from '@/models/Note';
+import User, { IUser } from '@/models/User';
+import { config } from '@/config/config';
+import { createError } from '@/middleware/errorHandler';
+import { sendMail } from '@/services/mailService';
+import { notify } from '@/services/notificationService';
+import { recordActivity } from '@/services/activityService';
+import { Role } from '@/types';
+import { can } from '@/utils/permissions';
+
+/**
+ * Collaborators join a note by accepting an invitation. Invitations can go to
+ * any email; one sent to an address without an account waits for that address
+ * to sign up and then shows up in the new user's inbox.
+ */
+
+const sendInvitationEmail = async (
+  invitation: IInvitation,
+  note: INote,
+  inviter: { username: string }
+): Promise<void> => {
+  const link = `${config.appUrl}/invitations`;
+
+  await sendMail({
+    to: invitation.email,
+    subject: `${inviter.username} invited you to "${note.title}"`,
+    text: `${inviter.username} invited you to ${can(invitation.role, 'write') ? 'edit' : 'view'} "${note.title}".\n\nSign in or create an account with this email to respond:\n${link}\n`,
+  });
+};
+
+/**
+ * Invites an email to a note. Inviting the same email again while the first
+ * invitation is pending updates its role instead of creating another one.
+ */
+export const inviteToNote = async (
+  note: INote,
+  inviter: { userId: string; username: string },
+  email: string,
+  role: Role
+): Promise<IInvitation> => {
+  const normalizedEmail = email.trim().toLowerCase();
+  const invitee = await User.findOne({ email: normalizedEmail }).select('_id');
+
+  if (invitee?._id.equals(note.owner._id)) {
+    throw createError('The owner cannot be invited to their own note', 400);
+  }
+
+  let invitation = await Invitation.findOne({
+    note: note._id,
+    email: normalizedEmail,
+    status: 'pending',
+  });
+
+  if (invitation) {
+    invitation.role = role;
+    await invitation.save();
+    return invitation;
+  }
+
+  invitation = await Invitation.create({
+    note: note._id,
+    invitedBy: inviter.userId,
+    email: normalizedEmail,
+    invitee: invitee?._id ?? null,
+    role,
+  });
+
+  if (invitee) {
+    await notify([
+      {
+        user: invitee._id,
+        actor: inviter.userId,
+        type: 'invitation',
+        note: note._id,
+        role,
+      },
+    ]);
+  }
+
+  // The invitation is in the inbox either way, a failed email should not fail it
+  sendInvitationEmail(invitation, note, inviter).catch((error) => {
+    console.error('Error sending invitation email:', error);
+  });
+
+  return invitation;
+};
+
+// Hands pending invitations sent to this email over to the newly registered user
+export const attachInvitations = async (user: IUser): Promise<number> => {
+  const result = await Invitation.updateMany(
+    { email: user.email, invitee: null, status: 'pending' },
+    { invitee: user._id }
+  );
+  return result.modifiedCount;
+};
+
+export const listInvitations = async (userId: string) => {
+  return Invitation.find({ invitee: userId, status: 'pending' })
+    .populate('note', 'title')
+    .populate('invitedBy', 'username email')
+    .sort({ createdAt: -1 });
+};
+
+export const listNoteInvitations = async (noteId: string) => {
+  return Invitation.find({ note: noteId, status: 'pending' })
+    .populate('invitee', 'username email')
+    .sort({ createdAt: -1 });
+};
+
+const findPendingInvitation = async (invitationId: string, userId: string) => {
+  if (!mongoose.Types.ObjectId.isValid(invitationId)) {
+    throw createError('Invalid invitation ID', 400);
+  }
+
+  const invitation = await Invitation.findOne({
+    _id: invitationId,
+    invitee: userId,
+    status: 'pending',
+  });
+  if (!invitation) {
+    throw createError('Invitation not found', 404);
+  }
+  return invitation;
+};
+
+// Accepting makes the user a collaborator with the invited role
+export const acceptInvitation = async (invitationId: string, userId: string): Promise<INote> => {
+  const invitation = await findPendingInvitation(invitationId, userId);
+
+  const user = await User.findById(userId);
+  if (!user?.emailVerified) {
+    throw createError('Verify your email address before accepting invitations', 403);
+  }
+
+  const note = await Note.findById(invitation.note);
+  if (!note) {
+    invitation.status = 'cancelled';
+    await invitation.save();
+    throw createError('Note not found', 404);
+  }
+
+  const existingCollaborator = note.collaborators.find((c) => c.user.toString() === userId);
+  const previousRole = existingCollaborator?.role;
+  if (existingCollaborator) {
+    existingCollaborator.role = invitation.role;
+  } else {
+    note.collaborators.push({
+      user: user._id,
+      role: invitation.role,
+      addedAt: new Date(),
+    });
+  }
+  await note.save();
+
+  invitation.status = 'accepted';
+  invitation.respondedAt = new Date();
+  await invitation.save();
+
+  const actor = { userId, username: user.username };
+  if (existingCollaborator) {
+    await recordActivity(note, actor, 'collaborator.role-changed', {
+      user: user._id,
+      from: previousRole,
+      to: invitation.role,
+    });
+  } else {
+    await recordActivity(note, actor, 'collaborator.added', {
+      user: user._id,
+      role: invitation.role,
+      invitedBy: invitation.invitedBy,
+    });
+  }
+
+  return note;
+};
+
+export const declineInvitation = async (invitationId: string, userId: string): Promise<void> => {
+  const invitation = await findPendingInvitation(invitationId, userId);
+
+  invitation.status = 'declined';
+  invitation.respondedAt = new Date();
+  await invitation.save();
+};
+
+export const cancelInvitation = async (noteId: string, invitationId: string): Promise<boolean> => {
+  if (!mongoose.Types.ObjectId.isValid(invitationId)) return false;
+
+  const result = await Invitation.updateOne(
+    { _id: invitationId, note: noteId, status: 'pending' },
+    { status: 'cancelled', respondedAt: new Date() }
+  );
+  return result.modifiedCount > 0;
+};
+
+export const deleteInvitations = async (noteId: string): Promise<void> => {
+  await Invitation.deleteMany({ note: noteId });
+};
\ No newline at end of file
@@ -0,0 +1,77 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { config } from '@/config/config';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export const createSmtpTransport = (): MailTransport => {
+  const { host, port, secure, user, pass } = config.mail.smtp;
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass } : undefined,
+  });
+
+  return {
+    send: async (message) => {
+      await transporter.sendMail(message);
+    },
+  };
+};
+
+// Writes each message as a JSON file, handy to grab links during development
+export const createFileTransport = (dir: string): MailTransport => ({
+  send: async (message) => {
+    await fs.mkdir(dir, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@.]/gi, '_')}.json`;
+    await fs.writeFile(
+      path.join(dir, fileName),
+      JSON.stringify({ ...message, date: new Date() }, null, 2)
+    );
+  },
+});
+
+// Keeps messages in memory, used by the tests to read what was sent
+export const sentMail: (MailMessage & { from: string })[] = [];
+
+export const createMemoryTransport = (): MailTransport => ({
+  send: async (message) => {
+    sentMail.push(message);
+  },
+});
+
+const createTransport = (): MailTransport => {
+  switch (config.mail.transport) {
+    case 'smtp':
+      return createSmtpTransport();
+    case 'memory':
+      return createMemoryTransport();
+    default:
+      return createFileTransport(config.mail.fileDir);
+  }
+};
+
+let transport: MailTransport | null = null;
+
+// Swaps the transport, e.g. for a provider-specific one
+export const setMailTransport = (custom: MailTransport): void => {
+  transport = custom;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  if (!transport) {
+    transport = createTransport();
+  }
+  await transport.send({ ...message, from: config.mail.from });
+};
\ No newline at end of file
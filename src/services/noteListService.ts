@@ -0,0 +1,241 @@
+import mongoose from 'mongoose';
+import Note from '@/models/Note';
+import { createError } from '@/middleware/errorHandler';
+import { noteAccessFilter, noteRoleFilters } from '@/services/folderService';
+import { buildTagFilter } from '@/services/tagService';
+import { NOTE_FORMATS } from '@/utils/content';
+import { ROLES } from '@/utils/permissions';
+import { NoteFormat, Role } from '@/types';
+
+/**
+ * Listing of the notes a user can read. Pages are walked with an opaque cursor
+ * holding the sort value and id of the last note. By creation date, the
+ * default, notes edited while a client pages through neither repeat nor go
+ * missing. By update date the order is only a snapshot: a note edited mid-walk
+ * moves ahead of the cursor and that walk does not return it. Offset pages are
+ * still served for older clients.
+ */
+
+export type NoteSort = 'updated' | 'created' | 'title';
+
+export interface NoteListFilters {
+  search?: string;
+  tags?: string[];
+  match: 'all' | 'any';
+  ownership?: 'owned' | 'shared';
+  role?: Role | 'owner';
+  owner?: string;
+  dateField: 'createdAt' | 'updatedAt';
+  from?: Date;
+  to?: Date;
+}
+
+export interface NoteListPage {
+  sort: NoteSort;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor?: string;
+  // Offset paging, when no cursor is given
+  page?: number;
+}
+
+export interface NoteFacets {
+  total: number;
+  ownership: { owned: number; shared: number };
+  roles: Record<Role | 'owner', number>;
+  formats: Record<NoteFormat, number>;
+  tags: { tag: string; count: number }[];
+}
+
+const SORT_FIELDS: Record<NoteSort, 'updatedAt' | 'createdAt' | 'title'> = {
+  updated: 'updatedAt',
+  created: 'createdAt',
+  title: 'title',
+};
+
+// Titles sort the way people read them, not by code point
+const TITLE_COLLATION = { locale: 'en', strength: 2 };
+
+const TOP_TAGS = 20;
+
+type RoleFilters = Awaited<ReturnType<typeof noteRoleFilters>>;
+
+type Cursor = { sort: NoteSort; order: 'asc' | 'desc'; value: string; id: string };
+
+const encodeCursor = (cursor: Cursor): string => {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+// The sort value and id to continue after, for a cursor made with the same sort
+const decodeCursor = (cursor: string, page: NoteListPage) => {
+  let decoded: Partial<Cursor>;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw createError('Invalid cursor', 400);
+  }
+
+  if (
+    typeof decoded?.value !== 'string' ||
+    typeof decoded.id !== 'string' ||
+    !mongoose.Types.ObjectId.isValid(decoded.id)
+  ) {
+    throw createError('Invalid cursor', 400);
+  }
+  if (decoded.sort !== page.sort || decoded.order !== page.order) {
+    throw createError('The cursor was made for a different sort', 400);
+  }
+
+  const value = page.sort === 'title' ? decoded.value : new Date(decoded.value);
+  if (value instanceof Date && Number.isNaN(value.getTime())) {
+    throw createError('Invalid cursor', 400);
+  }
+  return { value, id: new mongoose.Types.ObjectId(decoded.id) };
+};
+
+const filterConditions = (
+  userId: string,
+  filters: NoteListFilters,
+  roleFilters: RoleFilters
+): Record<string, unknown>[] => {
+  const user = new mongoose.Types.ObjectId(userId);
+  const conditions: Record<string, unknown>[] = [];
+
+  if (filters.tags && filters.tags.length > 0) {
+    conditions.push(buildTagFilter(userId, filters.tags, filters.match));
+  }
+  if (filters.ownership === 'owned') {
+    conditions.push({ owner: user });
+  } else if (filters.ownership === 'shared') {
+    conditions.push({ owner: { $ne: user } });
+  }
+  if (filters.owner) {
+    conditions.push({ owner: new mongoose.Types.ObjectId(filters.owner) });
+  }
+  if (filters.role) {
+    conditions.push(roleFilters[filters.role]);
+  }
+  if (filters.from || filters.to) {
+    conditions.push({
+      [filters.dateField]: {
+        ...(filters.from && { $gte: filters.from }),
+        ...(filters.to && { $lte: filters.to }),
+      },
+    });
+  }
+  return conditions;
+};
+
+// Counts over everything the filters match, whatever page is being read
+const countFacets = async (
+  userId: string,
+  filter: Record<string, unknown>,
+  roleFilters: RoleFilters
+): Promise<NoteFacets> => {
+  const user = new mongoose.Types.ObjectId(userId);
+  const roles: (Role | 'owner')[] = ['owner', ...ROLES];
+  const count = [{ $count: 'count' }];
+
+  const [result] = await Note.aggregate([
+    { $match: filter },
+    {
+      $facet: {
+        total: count,
+        owned: [{ $match: { owner: user } }, ...count],
+        ...Object.fromEntries(
+          roles.map((role) => [`role_${role}`, [{ $match: roleFilters[role] }, ...count]])
+        ),
+        formats: [{ $group: { _id: { $ifNull: ['$format', 'plain'] }, count: { $sum: 1 } } }],
+        tags: [
+          { $unwind: '$tags' },
+          { $group: { _id: '$tags', count: { $sum: 1 } } },
+          { $sort: { count: -1, _id: 1 } },
+          { $limit: TOP_TAGS },
+        ],
+      },
+    },
+  ]);
+
+  const countOf = (key: string): number => result[key][0]?.count ?? 0;
+  const total = countOf('total');
+  const owned = countOf('owned');
+  const roleCounts = Object.fromEntries(roles.map((role) => [role, countOf(`role_${role}`)]));
+  const formats = Object.fromEntries(NOTE_FORMATS.map((format) => [format, 0]));
+  for (const entry of result.formats as { _id: NoteFormat; count: number }[]) {
+    formats[entry._id] = entry.count;
+  }
+
+  return {
+    total,
+    ownership: { owned, shared: total - owned },
+    roles: roleCounts as Record<Role | 'owner', number>,
+    formats: formats as Record<NoteFormat, number>,
+    tags: (result.tags as { _id: string; count: number }[]).map(({ _id, count }) => ({
+      tag: _id,
+      count,
+    })),
+  };
+};
+
+export const listNotes = async (userId: string, filters: NoteListFilters, page: NoteListPage) => {
+  const field = SORT_FIELDS[page.sort];
+  const direction = page.order === 'asc' ? 1 : -1;
+  const roleFilters = await noteRoleFilters(userId);
+  const conditions = filterConditions(userId, filters, roleFilters);
+
+  // $text stays at the top level, where aggregations accept it
+  const filter: Record<string, unknown> = {
+    ...(await noteAccessFilter(userId)),
+    ...(filters.search && { $text: { $search: filters.search } }),
+    ...(conditions.length > 0 && { $and: conditions }),
+  };
+
+  const pageFilter = { ...filter };
+  if (page.cursor) {
+    const after = decodeCursor(page.cursor, page);
+    const op = direction === 1 ? '$gt' : '$lt';
+    pageFilter.$and = [
+      ...conditions,
+      {
+        $or: [
+          { [field]: { [op]: after.value } },
+          { [field]: after.value, _id: { [op]: after.id } },
+        ],
+      },
+    ];
+  }
+
+  let query = Note.find(pageFilter)
+    .select('+personalTags')
+    .populate('owner', 'username email')
+    .populate('collaborators.user', 'username email')
+    .sort({ [field]: direction, _id: direction })
+    .limit(page.limit + 1);
+  if (page.sort === 'title') {
+    query = query.collation(TITLE_COLLATION);
+  }
+  if (!page.cursor && page.page) {
+    query = query.skip((page.page - 1) * page.limit);
+  }
+
+  // One extra note tells whether there is a next page
+  const [found, facets] = await Promise.all([query, countFacets(userId, filter, roleFilters)]);
+  const hasMore = found.length > page.limit;
+  const notes = found.slice(0, page.limit);
+
+  const last = notes[notes.length - 1];
+  const nextCursor =
+    hasMore && last
+      ? encodeCursor({
+          sort: page.sort,
+          order: page.order,
+          value:
+            page.sort === 'title'
+              ? last.title
+              : last[field as 'updatedAt' | 'createdAt'].toISOString(),
+          id: last._id.toString(),
+        })
+      : null;
+
+  return { notes, hasMore, nextCursor, facets };
+};
\ No newline at end of file
@@ -0,0 +1,149 @@
+import mongoose from 'mongoose';
+import Notification, { NotificationType } from '@/models/Notification';
+import { INote } from '@/models/Note';
+import User from '@/models/User';
+import { emitToUser } from '@/sockets/emitter';
+import { Role } from '@/types';
+
+/**
+ * In-app notifications. Each one is stored for the notification center and
+ * pushed to the recipient's connected sockets as it is created.
+ */
+
+export interface NotificationInput {
+  user: string | mongoose.Types.ObjectId;
+  // Null for anonymous share link holders
+  actor: string | mongoose.Types.ObjectId | null;
+  type: NotificationType;
+  note?: mongoose.Types.ObjectId;
+  folder?: mongoose.Types.ObjectId;
+  comment?: mongoose.Types.ObjectId;
+  role?: Role | 'owner';
+  excerpt?: string;
+}
+
+// "@name" preceded by nothing word-like, so email addresses don't count
+const MENTION_PATTERN = /(?:^|[^\w@])@(\w{3,30})/g;
+const EXCERPT_CONTEXT = 80;
+
+export const extractMentions = (text: string): string[] => {
+  const names = Array.from(text.matchAll(MENTION_PATTERN), (match) => match[1].toLowerCase());
+  return [...new Set(names)];
+};
+
+const mentionExcerpt = (text: string, username: string): string => {
+  const index = text.toLowerCase().indexOf(`@${username.toLowerCase()}`);
+  const start = Math.max(0, index - EXCERPT_CONTEXT);
+  const end = Math.min(text.length, index + username.length + 1 + EXCERPT_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+export const unreadCount = (userId: string): Promise<number> => {
+  return Notification.countDocuments({ user: userId, readAt: null });
+};
+
+/**
+ * Stores notifications and pushes them live. Nobody is notified of their own
+ * actions, and a failure is only logged: notifications never fail the change
+ * that caused them.
+ */
+export const notify = async (inputs: NotificationInput[]): Promise<void> => {
+  const wanted = inputs.filter((input) => input.user.toString() !== input.actor?.toString());
+  if (wanted.length === 0) return;
+
+  try {
+    const created = await Notification.insertMany(wanted);
+    await Notification.populate(created, [
+      { path: 'actor', select: 'username' },
+      { path: 'note', select: 'title' },
+      { path: 'folder', select: 'name' },
+    ]);
+
+    await Promise.all(
+      created.map(async (notification) => {
+        const userId = notification.user.toString();
+        emitToUser(userId, 'notification', {
+          notification,
+          unreadCount: await unreadCount(userId),
+        });
+      })
+    );
+  } catch (error) {
+    console.error('Error creating notifications:', error);
+  }
+};
+
+/**
+ * Notifies users mentioned in `text` but not already in `previousText`, as
+ * long as they can read the note.
+ */
+export const notifyMentions = async (
+  note: INote,
+  actorId: string | null,
+  previousText: string,
+  text: string,
+  comment?: mongoose.Types.ObjectId
+): Promise<void> => {
+  const previous = new Set(extractMentions(previousText));
+  const names = extractMentions(text).filter((name) => !previous.has(name));
+  if (names.length === 0) return;
+
+  const users = await User.find({ username: { $in: names } })
+    .collation({ locale: 'en', strength: 2 })
+    .select('username');
+
+  const inputs: NotificationInput[] = [];
+  for (const user of users) {
+    if (await note.isUserAuthorized(user._id.toString(), 'read')) {
+      inputs.push({
+        user: user._id,
+        actor: actorId,
+        type: 'mention',
+        note: note._id,
+        comment,
+        excerpt: mentionExcerpt(text, user.username),
+      });
+    }
+  }
+
+  await notify(inputs);
+};
+
+export const listNotifications = async (
+  userId: string,
+  options: { unread: boolean; page: number; limit: number }
+) => {
+  const query = { user: userId, ...(options.unread && { readAt: null }) };
+
+  const [notifications, total, unread] = await Promise.all([
+    Notification.find(query)
+      .populate('actor', 'username')
+      .populate('note', 'title')
+      .populate('folder', 'name')
+      .sort({ createdAt: -1 })
+      .limit(options.limit)
+      .skip((options.page - 1) * options.limit),
+    Notification.countDocuments(query),
+    unreadCount(userId),
+  ]);
+
+  return { notifications, total, unreadCount: unread };
+};
+
+// Marks some or all of the user's notifications as read and syncs their other tabs
+export const markRead = async (userId: string, ids?: string[]): Promise<number> => {
+  const result = await Notification.updateMany(
+    { user: userId, readAt: null, ...(ids && { _id: { $in: ids } }) },
+    { readAt: new Date() }
+  );
+
+  emitToUser(userId, 'notifications-read', {
+    ids: ids ?? 'all',
+    unreadCount: await unreadCount(userId),
+  });
+  return result.modifiedCount;
+};
+
+export const deleteNoteNotifications = async (noteId: string): Promise<void> => {
+  await Notification.deleteMany({ note: noteId });
+};
\ No newline at end of file
@@ -0,0 +1,111 @@
+import NoteOperation from '@/models/NoteOperation';
+import { config } from '@/config/config';
+import { NoteFormat, TextOperation } from '@/types';
+
+/**
+ * The operations of live editing sessions, in revision order. Instances
+ * editing the same note append to one log and apply what the others appended,
+ * so their sessions never diverge. Operations are kept until the note is saved
+ * well past them, which also lets a session reopened after a crash replay the
+ * edits that were never saved.
+ */
+
+export interface LoggedOperation {
+  // The revision the operation took the note to
+  revision: number;
+  operation: TextOperation;
+  title?: string;
+  format?: NoteFormat;
+}
+
+export interface OperationLog {
+  // False when another instance already logged the operation for that revision
+  append(noteId: string, entry: LoggedOperation): Promise<boolean>;
+  // Operations after the revision, oldest first
+  since(noteId: string, revision: number): Promise<LoggedOperation[]>;
+  // Drops the operations up to the revision
+  trim(noteId: string, revision: number): Promise<void>;
+  // Drops the whole log of the note, e.g. once it is purged
+  remove(noteId: string): Promise<void>;
+}
+
+// For a single instance, where only its own sessions write to the log
+export const createMemoryOperationLog = (): OperationLog => {
+  const logs = new Map<string, LoggedOperation[]>();
+
+  return {
+    append: async (noteId, entry) => {
+      const log = logs.get(noteId) ?? [];
+      if (log.some((logged) => logged.revision === entry.revision)) return false;
+      logs.set(noteId, [...log, entry]);
+      return true;
+    },
+    since: async (noteId, revision) => {
+      return (logs.get(noteId) ?? []).filter((logged) => logged.revision > revision);
+    },
+    trim: async (noteId, revision) => {
+      const log = (logs.get(noteId) ?? []).filter((logged) => logged.revision > revision);
+      if (log.length > 0) logs.set(noteId, log);
+      else logs.delete(noteId);
+    },
+    remove: async (noteId) => {
+      logs.delete(noteId);
+    },
+  };
+};
+
+// MongoDB's error code for a unique index violation
+const DUPLICATE_KEY = 11000;
+
+// Shared through MongoDB, for more than one instance
+export const createMongoOperationLog = (): OperationLog => ({
+  append: async (noteId, entry) => {
+    try {
+      await NoteOperation.create({ note: noteId, ...entry });
+      return true;
+    } catch (error) {
+      if ((error as { code?: number }).code === DUPLICATE_KEY) return false;
+      throw error;
+    }
+  },
+  since: async (noteId, revision) => {
+    const entries = await NoteOperation.find({ note: noteId, revision: { $gt: revision } })
+      .sort({ revision: 1 })
+      .lean();
+    return entries.map(({ revision, operation, title, format }) => ({
+      revision,
+      operation,
+      title,
+      format,
+    }));
+  },
+  trim: async (noteId, revision) => {
+    await NoteOperation.deleteMany({ note: noteId, revision: { $lte: revision } });
+  },
+  remove: async (noteId) => {
+    await NoteOperation.deleteMany({ note: noteId });
+  },
+});
+
+const createOperationLog = (): OperationLog => {
+  switch (config.sockets.adapter) {
+    case 'mongo':
+      return createMongoOperationLog();
+    default:
+      return createMemoryOperationLog();
+  }
+};
+
+let operationLog: OperationLog | null = null;
+
+// Swaps the log, e.g. for one backed by Redis
+export const setOperationLogAdapter = (custom: OperationLog): void => {
+  operationLog = custom;
+};
+
+export const getOperationLog = (): OperationLog => {
+  if (!operationLog) {
+    operationLog = createOperationLog();
+  }
+  return operationLog;
+};
\ No newline at end of file
@@ -0,0 +1,219 @@
+import { createError } from '@/middleware/errorHandler';
+import { OpComponent, TextOperation } from '@/types';
+
+/**
+ * Plain-text operational transform.
+ *
+ * An operation is a list of components walked over the whole document:
+ * - a positive integer retains that many characters
+ * - a negative integer deletes that many characters
+ * - a non-empty string inserts that text
+ *
+ * This is the same wire format as ot.js, so existing clients can use it as is.
+ */
+
+const isRetain = (c: OpComponent | undefined): c is number => typeof c === 'number' && c > 0;
+const isDelete = (c: OpComponent | undefined): c is number => typeof c === 'number' && c < 0;
+const isInsert = (c: OpComponent | undefined): c is string => typeof c === 'string';
+
+const pushRetain = (op: TextOperation, n: number): void => {
+  if (n === 0) return;
+  const last = op[op.length - 1];
+  if (isRetain(last)) {
+    op[op.length - 1] = last + n;
+  } else {
+    op.push(n);
+  }
+};
+
+const pushInsert = (op: TextOperation, text: string): void => {
+  if (text === '') return;
+  const last = op[op.length - 1];
+  if (isInsert(last)) {
+    op[op.length - 1] = last + text;
+  } else if (isDelete(last)) {
+    // Keep inserts before deletes so equivalent operations look the same
+    const beforeDelete = op[op.length - 2];
+    if (isInsert(beforeDelete)) {
+      op[op.length - 2] = beforeDelete + text;
+    } else {
+      op.splice(op.length - 1, 0, text);
+    }
+  } else {
+    op.push(text);
+  }
+};
+
+const pushDelete = (op: TextOperation, n: number): void => {
+  if (n === 0) return;
+  const count = Math.abs(n);
+  const last = op[op.length - 1];
+  if (isDelete(last)) {
+    op[op.length - 1] = last - count;
+  } else {
+    op.push(-count);
+  }
+};
+
+export const isValidOperation = (op: unknown): op is TextOperation => {
+  return (
+    Array.isArray(op) &&
+    op.every(
+      (c) =>
+        (typeof c === 'number' && Number.isInteger(c) && c !== 0) ||
+        (typeof c === 'string' && c.length > 0)
+    )
+  );
+};
+
+// Length of the document the operation can be applied to
+export const baseLength = (op: TextOperation): number => {
+  return op.reduce<number>((length, c) => {
+    if (isInsert(c)) return length;
+    return length + Math.abs(c);
+  }, 0);
+};
+
+// Length of the document after the operation has been applied
+export const targetLength = (op: TextOperation): number => {
+  return op.reduce<number>((length, c) => {
+    if (isInsert(c)) return length + c.length;
+    if (isRetain(c)) return length + c;
+    return length;
+  }, 0);
+};
+
+export const isNoop = (op: TextOperation): boolean => op.every((c) => isRetain(c));
+
+export const apply = (doc: string, op: TextOperation): string => {
+  if (baseLength(op) !== doc.length) {
+    throw createError('Operation does not match the document length', 400);
+  }
+
+  const parts: string[] = [];
+  let index = 0;
+
+  for (const c of op) {
+    if (isRetain(c)) {
+      parts.push(doc.slice(index, index + c));
+      index += c;
+    } else if (isInsert(c)) {
+      parts.push(c);
+    } else {
+      index -= c;
+    }
+  }
+
+  return parts.join('');
+};
+
+/**
+ * Maps a position in the document before `op` to the same place after it.
+ * Text inserted exactly at the position goes before it when `stickToEnd` is
+ * set, after it otherwise; a position inside deleted text moves to where the
+ * deletion happened.
+ */
+export const transformIndex = (op: TextOperation, index: number, stickToEnd = false): number => {
+  let oldIndex = 0;
+  let newIndex = index;
+
+  for (const c of op) {
+    if (oldIndex > index || (oldIndex === index && !(isInsert(c) && stickToEnd))) break;
+
+    if (isRetain(c)) {
+      oldIndex += c;
+    } else if (isInsert(c)) {
+      newIndex += c.length;
+    } else {
+      newIndex -= Math.min(index - oldIndex, -c);
+      oldIndex -= c;
+    }
+  }
+
+  return newIndex;
+};
+
+/**
+ * Transforms two operations made against the same document so that
+ * apply(apply(doc, a), bPrime) === apply(apply(doc, b), aPrime).
+ * When both insert at the same position, `a` goes first.
+ */
+export const transform = (a: TextOperation, b: TextOperation): [TextOperation, TextOperation] => {
+  if (baseLength(a) !== baseLength(b)) {
+    throw createError('Concurrent operations must share the same base document', 400);
+  }
+
+  const aPrime: TextOperation = [];
+  const bPrime: TextOperation = [];
+  let i = 0;
+  let j = 0;
+  let ca: OpComponent | undefined = a[i++];
+  let cb: OpComponent | undefined = b[j++];
+
+  while (ca !== undefined || cb !== undefined) {
+    if (isInsert(ca)) {
+      pushInsert(aPrime, ca);
+      pushRetain(bPrime, ca.length);
+      ca = a[i++];
+      continue;
+    }
+    if (isInsert(cb)) {
+      pushRetain(aPrime, cb.length);
+      pushInsert(bPrime, cb);
+      cb = b[j++];
+      continue;
+    }
+    if (ca === undefined || cb === undefined) {
+      throw createError('Operations have different lengths', 400);
+    }
+
+    const min = Math.min(Math.abs(ca), Math.abs(cb));
+
+    if (isRetain(ca) && isRetain(cb)) {
+      pushRetain(aPrime, min);
+      pushRetain(bPrime, min);
+    } else if (isDelete(ca) && isRetain(cb)) {
+      pushDelete(aPrime, min);
+    } else if (isRetain(ca) && isDelete(cb)) {
+      pushDelete(bPrime, min);
+    }
+    // Both deleting the same text: nothing left to do on either side
+
+    ca = shrink(ca, min);
+    cb = shrink(cb, min);
+    if (ca === undefined) ca = a[i++];
+    if (cb === undefined) cb = b[j++];
+  }
+
+  return [aPrime, bPrime];
+};
+
+// Consumes `n` characters of a retain or delete, returning what is left of it
+const shrink = (c: number, n: number): number | undefined => {
+  const rest = Math.abs(c) - n;
+  if (rest === 0) return undefined;
+  return c > 0 ? rest : -rest;
+};
+
+/**
+ * Builds the smallest single-edit operation turning `from` into `to`,
+ * by keeping their common prefix and suffix.
+ */
+export const fromReplacement = (from: string, to: string): TextOperation => {
+  let prefix = 0;
+  const maxPrefix = Math.min(from.length, to.length);
+  while (prefix < maxPrefix && from[prefix] === to[prefix]) prefix++;
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (suffix < maxSuffix && from[from.length - 1 - suffix] === to[to.length - 1 - suffix]) {
+    suffix++;
+  }
+
+  const op: TextOperation = [];
+  pushRetain(op, prefix);
+  pushInsert(op, to.slice(prefix, to.length - suffix));
+  pushDelete(op, from.length - prefix - suffix);
+  pushRetain(op, suffix);
+  return op;
+};
\ No newline at end of file
@@ -0,0 +1,252 @@
+import { randomUUID } from 'crypto';
+import Presence from '@/models/Presence';
+import SocketInstance from '@/models/SocketInstance';
+import { config } from '@/config/config';
+import { ActiveUser, PresenceStatus } from '@/types';
+
+/**
+ * Who is in which note room. Entries are per socket and carry the instance
+ * that holds the socket, so instances running behind a load balancer share
+ * one view of each room, and the entries of an instance that died can be
+ * dropped once its heartbeats stop.
+ */
+
+export interface PresenceEntry {
+  noteId: string;
+  userId: string;
+  username: string;
+  socketId: string;
+  instanceId: string;
+  status: PresenceStatus;
+  typing: boolean;
+}
+
+export type PresenceChanges = Partial<Pick<PresenceEntry, 'status' | 'typing'>>;
+
+export interface PresenceAdapter {
+  add(entry: PresenceEntry): Promise<void>;
+  // The removed entry, or null if the socket was not in the room
+  remove(noteId: string, socketId: string): Promise<PresenceEntry | null>;
+  // Oldest first
+  list(noteId: string): Promise<PresenceEntry[]>;
+  update(noteId: string, socketId: string, changes: PresenceChanges): Promise<void>;
+  heartbeat(instanceId: string): Promise<void>;
+  // Drops the instance and its entries, returning them
+  removeInstance(instanceId: string): Promise<PresenceEntry[]>;
+  // Drops instances without a heartbeat since the date, returning their entries
+  removeStale(before: Date): Promise<PresenceEntry[]>;
+}
+
+// Identifies this process among the instances sharing presence
+export const instanceId = randomUUID();
+
+export const createMemoryPresence = (): PresenceAdapter => {
+  const rooms = new Map<string, Map<string, PresenceEntry>>();
+  const heartbeats = new Map<string, Date>();
+
+  const removeWhere = (match: (entry: PresenceEntry) => boolean): PresenceEntry[] => {
+    const removed: PresenceEntry[] = [];
+    for (const [noteId, room] of rooms) {
+      for (const [socketId, entry] of room) {
+        if (!match(entry)) continue;
+        room.delete(socketId);
+        removed.push(entry);
+      }
+      if (room.size === 0) rooms.delete(noteId);
+    }
+    return removed;
+  };
+
+  return {
+    add: async (entry) => {
+      if (!rooms.has(entry.noteId)) rooms.set(entry.noteId, new Map());
+      rooms.get(entry.noteId)!.set(entry.socketId, entry);
+    },
+    remove: async (noteId, socketId) => {
+      const entry = rooms.get(noteId)?.get(socketId);
+      if (!entry) return null;
+      return removeWhere((e) => e === entry)[0];
+    },
+    list: async (noteId) => [...(rooms.get(noteId)?.values() ?? [])],
+    update: async (noteId, socketId, changes) => {
+      const entry = rooms.get(noteId)?.get(socketId);
+      if (entry) Object.assign(entry, changes);
+    },
+    heartbeat: async (id) => {
+      heartbeats.set(id, new Date());
+    },
+    removeInstance: async (id) => {
+      heartbeats.delete(id);
+      return removeWhere((entry) => entry.instanceId === id);
+    },
+    removeStale: async (before) => {
+      const stale = [...heartbeats].filter(([, at]) => at < before).map(([id]) => id);
+      stale.forEach((id) => heartbeats.delete(id));
+      return removeWhere((entry) => stale.includes(entry.instanceId));
+    },
+  };
+};
+
+type StoredPresence = Omit<PresenceEntry, 'noteId'> & { note: { toString(): string } };
+
+const toEntry = (stored: StoredPresence): PresenceEntry => ({
+  noteId: stored.note.toString(),
+  userId: stored.userId,
+  username: stored.username,
+  socketId: stored.socketId,
+  instanceId: stored.instanceId,
+  status: stored.status,
+  typing: stored.typing,
+});
+
+// Shared through MongoDB, for more than one instance
+export const createMongoPresence = (): PresenceAdapter => {
+  const removeInstances = async (ids: string[]): Promise<PresenceEntry[]> => {
+    if (ids.length === 0) return [];
+
+    const entries = await Presence.find({ instanceId: { $in: ids } }).lean<StoredPresence[]>();
+    await Presence.deleteMany({ instanceId: { $in: ids } });
+    await SocketInstance.deleteMany({ _id: { $in: ids } });
+    return entries.map(toEntry);
+  };
+
+  return {
+    add: async ({ noteId, ...entry }) => {
+      await Presence.updateOne(
+        { note: noteId, socketId: entry.socketId },
+        { $set: entry },
+        { upsert: true }
+      );
+    },
+    remove: async (noteId, socketId) => {
+      const entry = await Presence.findOneAndDelete({
+        note: noteId,
+        socketId,
+      }).lean<StoredPresence | null>();
+      return entry ? toEntry(entry) : null;
+    },
+    list: async (noteId) => {
+      const entries = await Presence.find({ note: noteId })
+        .sort({ createdAt: 1, _id: 1 })
+        .lean<StoredPresence[]>();
+      return entries.map(toEntry);
+    },
+    update: async (noteId, socketId, changes) => {
+      await Presence.updateOne({ note: noteId, socketId }, { $set: changes });
+    },
+    heartbeat: async (id) => {
+      await SocketInstance.updateOne(
+        { _id: id },
+        { $set: { heartbeatAt: new Date() } },
+        { upsert: true }
+      );
+    },
+    removeInstance: (id) => removeInstances([id]),
+    removeStale: async (before) => {
+      const stale: string[] = await SocketInstance.find({ heartbeatAt: { $lt: before } }).distinct(
+        '_id'
+      );
+      return removeInstances(stale);
+    },
+  };
+};
+
+const createPresence = (): PresenceAdapter => {
+  switch (config.sockets.adapter) {
+    case 'mongo':
+      return createMongoPresence();
+    default:
+      return createMemoryPresence();
+  }
+};
+
+let presence: PresenceAdapter | null = null;
+
+// Swaps the adapter, e.g. for one backed by Redis
+export const setPresenceAdapter = (custom: PresenceAdapter): void => {
+  presence = custom;
+};
+
+export const getPresence = (): PresenceAdapter => {
+  if (!presence) {
+    presence = createPresence();
+  }
+  return presence;
+};
+
+const COLORS = [
+  '#e6194b',
+  '#3cb44b',
+  '#4363d8',
+  '#f58231',
+  '#911eb4',
+  '#42d4f4',
+  '#f032e6',
+  '#9a6324',
+  '#469990',
+  '#808000',
+  '#000075',
+  '#c71585',
+];
+
+// Derived from the user ID, so every instance gives a user the same color
+export const colorFor = (userId: string): string => {
+  let hash = 0;
+  for (const char of userId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return COLORS[hash % COLORS.length];
+};
+
+const STATUS_RANK: Record<PresenceStatus, number> = { away: 0, idle: 1, active: 2 };
+
+// One entry per user, in the order they joined, combining the sockets they have in the room
+export const activeUsers = (entries: PresenceEntry[]): ActiveUser[] => {
+  const users = new Map<string, ActiveUser>();
+  for (const { userId, username, status, typing } of entries) {
+    const user = users.get(userId);
+    if (!user) {
+      users.set(userId, {
+        userId,
+        username,
+        connections: 1,
+        color: colorFor(userId),
+        status,
+        typing,
+      });
+      continue;
+    }
+
+    user.connections++;
+    user.typing ||= typing;
+    if (STATUS_RANK[status] > STATUS_RANK[user.status]) user.status = status;
+  }
+  return [...users.values()];
+};
+
+/**
+ * Heartbeats for this instance, and removal of the entries of instances that
+ * stopped sending them. onStale gets the removed entries, so their rooms can
+ * be told who left.
+ */
+export const startPresenceHeartbeat = (
+  onStale: (entries: PresenceEntry[]) => void
+): NodeJS.Timeout => {
+  const run = () => {
+    const before = new Date(Date.now() - config.sockets.staleAfterSeconds * 1000);
+    getPresence()
+      .heartbeat(instanceId)
+      .then(() => getPresence().removeStale(before))
+      .then((entries) => {
+        if (entries.length > 0) onStale(entries);
+      })
+      .catch((error) => {
+        console.error('Error updating presence:', error);
+      });
+  };
+
+  run();
+  const timer = setInterval(run, config.sockets.heartbeatSeconds * 1000);
+  timer.unref();
+  return timer;
+};
\ No newline at end of file
@@ -0,0 +1,356 @@
+import mongoose from 'mongoose';
+import Note from '@/models/Note';
+import Folder from '@/models/Folder';
+import NoteVersion from '@/models/NoteVersion';
+import { createError } from '@/middleware/errorHandler';
+import { noteAccessFilter, noteRoleFilters } from '@/services/folderService';
+import { listVersions } from '@/services/versionService';
+import { toPlainText } from '@/utils/content';
+import { strongestRole } from '@/utils/permissions';
+import { escapeRegex } from '@/utils/query';
+import { Role } from '@/types';
+
+/**
+ * Full-text search over the notes a user can read. Words go through the text
+ * index and are ranked by its score; "quoted phrases" must all appear, -words
+ * must not, and prefix* terms are matched at the start of words. Results come
+ * with a snippet of the note's text around the first match.
+ */
+
+export interface SearchQuery {
+  words: string[];
+  phrases: string[];
+  prefixes: string[];
+  excluded: string[];
+}
+
+export interface SearchFilters {
+  owner?: string;
+  sharedWithMe?: boolean;
+  role?: Role | 'owner';
+  dateField: 'createdAt' | 'updatedAt';
+  from?: Date;
+  to?: Date;
+  includeVersions?: boolean;
+}
+
+export interface SearchPage {
+  page: number;
+  limit: number;
+}
+
+export interface Snippet {
+  text: string;
+  // [start, end) offsets of the matches in text
+  highlights: { start: number; end: number }[];
+}
+
+// Candidates are ranked in memory for the role filter, so there is a ceiling on them
+const MAX_CANDIDATES = 1000;
+// History is rebuilt from deltas, so only the most recently edited notes are looked into
+const MAX_VERSION_NOTES = 100;
+const MAX_TERMS = 20;
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 60;
+
+type CandidateNote = {
+  _id: mongoose.Types.ObjectId;
+  owner: mongoose.Types.ObjectId;
+  collaborators: { user: mongoose.Types.ObjectId; role: Role }[];
+  folder: mongoose.Types.ObjectId | null;
+  score?: number;
+};
+
+// "exact phrase" -excluded prefix* word
+export const parseSearchQuery = (q: string): SearchQuery => {
+  const query: SearchQuery = { words: [], phrases: [], prefixes: [], excluded: [] };
+
+  for (const match of q.matchAll(/(-?)"([^"]*)"|(-?)([^\s"]+)/g)) {
+    const negated = (match[1] ?? match[3]) === '-';
+    const phrase = match[2]?.trim();
+    const word = match[4];
+
+    const term = (phrase ?? word).replace(/\*+$/, '');
+    // Lone operators and punctuation are not terms
+    if (!/[\p{L}\p{N}]/u.test(term)) continue;
+
+    if (negated) {
+      query.excluded.push(term);
+    } else if (phrase !== undefined) {
+      query.phrases.push(term);
+    } else if (word.endsWith('*')) {
+      query.prefixes.push(term);
+    } else {
+      query.words.push(term);
+    }
+  }
+
+  const terms = query.words.length + query.phrases.length + query.prefixes.length;
+  if (terms === 0) {
+    throw createError('q must contain at least one search term', 400);
+  }
+  if (terms + query.excluded.length > MAX_TERMS) {
+    throw createError(`q cannot have more than ${MAX_TERMS} terms`, 400);
+  }
+  return query;
+};
+
+// Word characters in any script, so prefixes and words match at the start of words
+const WORD_START = '(?<![\\p{L}\\p{N}_])';
+
+const prefixRegex = (prefix: string) => new RegExp(WORD_START + escapeRegex(prefix), 'iu');
+
+// Matches every term as it should be highlighted: words also match their longer forms
+const highlightRegex = (query: SearchQuery): RegExp => {
+  const alternatives = [
+    ...query.phrases.map(escapeRegex),
+    ...[...query.words, ...query.prefixes].map((term) => WORD_START + escapeRegex(term)),
+  ];
+  return new RegExp(`(?:${alternatives.join('|')})[\\p{L}\\p{N}_]*`, 'giu');
+};
+
+// The same matching rules as buildTextFilter, for text that is not indexed (old versions)
+const matchesQuery = (text: string, query: SearchQuery): boolean => {
+  const lower = text.toLowerCase();
+  const has = (term: string) => prefixRegex(term).test(text);
+
+  return (
+    (query.words.length === 0 || query.words.some(has)) &&
+    query.phrases.every((phrase) => lower.includes(phrase.toLowerCase())) &&
+    query.prefixes.every(has) &&
+    !query.excluded.some((term) => lower.includes(term.toLowerCase()))
+  );
+};
+
+const quote = (phrase: string) => `"${phrase.replace(/"/g, '')}"`;
+
+const buildTextFilter = (query: SearchQuery): Record<string, unknown>[] => {
+  const conditions: Record<string, unknown>[] = [];
+  const { words, phrases, prefixes, excluded } = query;
+
+  // $text needs something to look for, so exclusions alone become regexes
+  if (words.length > 0 || phrases.length > 0) {
+    const search = [
+      ...words,
+      ...phrases.map(quote),
+      ...excluded.map((term) => (term.includes(' ') ? `-${quote(term)}` : `-${term}`)),
+    ];
+    conditions.push({ $text: { $search: search.join(' ') } });
+  } else if (excluded.length > 0) {
+    const regexes = excluded.map((term) => new RegExp(escapeRegex(term), 'i'));
+    conditions.push({ $nor: regexes.flatMap((regex) => [{ title: regex }, { plainText: regex }]) });
+  }
+
+  for (const prefix of prefixes) {
+    const regex = prefixRegex(prefix);
+    conditions.push({ $or: [{ title: regex }, { plainText: regex }] });
+  }
+  return conditions;
+};
+
+// Conditions of the filters other than the text itself
+const filterConditions = (userId: string, filters: SearchFilters): Record<string, unknown>[] => {
+  const conditions: Record<string, unknown>[] = [];
+
+  if (filters.owner) {
+    conditions.push({ owner: new mongoose.Types.ObjectId(filters.owner) });
+  }
+  if (filters.sharedWithMe) {
+    conditions.push({ owner: { $ne: new mongoose.Types.ObjectId(userId) } });
+  }
+  if (filters.from || filters.to) {
+    conditions.push({
+      [filters.dateField]: {
+        ...(filters.from && { $gte: filters.from }),
+        ...(filters.to && { $lte: filters.to }),
+      },
+    });
+  }
+  return conditions;
+};
+
+// The user's role on each note, looking up every folder once
+const roleResolver = (userId: string) => {
+  const folderRoles = new Map<string, Promise<Role | null>>();
+
+  return async (note: CandidateNote): Promise<Role | 'owner' | null> => {
+    if (note.owner.toString() === userId) return 'owner';
+
+    const direct = note.collaborators.find((c) => c.user.toString() === userId)?.role;
+    if (!note.folder) return direct ?? null;
+
+    const key = note.folder.toString();
+    if (!folderRoles.has(key)) {
+      folderRoles.set(key, Folder.roleFor(note.folder, userId));
+    }
+    return strongestRole(direct, await folderRoles.get(key));
+  };
+};
+
+// A window of the text around the first match, or its start when only the title matched
+export const buildSnippet = (text: string, query: SearchQuery): Snippet => {
+  // Same length, so offsets found in the original still apply
+  const flat = text.replace(/\s/g, ' ');
+  const first = highlightRegex(query).exec(flat);
+
+  let start = 0;
+  if (first && first.index > SNIPPET_LEAD) {
+    const from = first.index - SNIPPET_LEAD;
+    const space = flat.indexOf(' ', from);
+    start = space !== -1 && space < first.index ? space + 1 : from;
+  }
+  let end = Math.min(start + SNIPPET_LENGTH, flat.length);
+  if (end < flat.length) {
+    const space = flat.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const body = flat.slice(start, end);
+  const highlights = [...body.matchAll(highlightRegex(query))].map((match) => ({
+    start: prefix.length + match.index!,
+    end: prefix.length + match.index! + match[0].length,
+  }));
+
+  return {
+    text: `${prefix}${body}${end < flat.length ? '…' : ''}`,
+    highlights,
+  };
+};
+
+const titleHighlights = (title: string, query: SearchQuery) => {
+  return [...title.matchAll(highlightRegex(query))].map((match) => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+};
+
+// Notes whose earlier versions match, for the ones the current content does not
+const searchVersions = async (
+  userId: string,
+  query: SearchQuery,
+  filters: SearchFilters,
+  exclude: Set<string>,
+  limit: number
+) => {
+  // The text is matched in memory, the other filters still apply
+  const conditions = filterConditions(userId, filters);
+  if (filters.role) {
+    conditions.push((await noteRoleFilters(userId))[filters.role]);
+  }
+  const notes = await Note.find({
+    ...(await noteAccessFilter(userId)),
+    _id: { $nin: [...exclude].map((id) => new mongoose.Types.ObjectId(id)) },
+    ...(conditions.length > 0 && { $and: conditions }),
+  })
+    .select('_id')
+    .sort({ updatedAt: -1 })
+    .limit(MAX_CANDIDATES)
+    .lean();
+
+  const withHistory: mongoose.Types.ObjectId[] = await NoteVersion.distinct('note', {
+    note: { $in: notes.map((note) => note._id) },
+  });
+  const recent = await Note.find({ _id: { $in: withHistory } })
+    .select('title')
+    .sort({ updatedAt: -1 })
+    .limit(MAX_VERSION_NOTES);
+  // Some notes with history were never looked into
+  const truncated = notes.length === MAX_CANDIDATES || withHistory.length > MAX_VERSION_NOTES;
+
+  const matches = [];
+  for (const note of recent) {
+    // Newest first, the latest version that matched is the one shown
+    const versions = (await listVersions(note._id.toString())).reverse();
+    const version = versions.find((v) => {
+      return matchesQuery(`${v.title}\n${toPlainText(v.content, v.format)}`, query);
+    });
+    if (!version) continue;
+
+    matches.push({
+      note: { _id: note._id, title: note.title },
+      version: {
+        _id: version._id,
+        seq: version.seq,
+        title: version.title,
+        modifiedAt: version.modifiedAt,
+      },
+      snippet: buildSnippet(toPlainText(version.content, version.format), query),
+    });
+    if (matches.length === limit) break;
+  }
+  return { matches, truncated };
+};
+
+export const searchNotes = async (
+  userId: string,
+  query: SearchQuery,
+  filters: SearchFilters,
+  page: SearchPage
+) => {
+  const textConditions = buildTextFilter(query);
+  const ranked = textConditions.some((condition) => '$text' in condition);
+  const filter = {
+    ...(await noteAccessFilter(userId)),
+    $and: [...filterConditions(userId, filters), ...textConditions],
+  };
+
+  const candidates: CandidateNote[] = await Note.find(filter, {
+    owner: 1,
+    collaborators: 1,
+    folder: 1,
+    ...(ranked && { score: { $meta: 'textScore' } }),
+  })
+    .sort(ranked ? { score: { $meta: 'textScore' }, updatedAt: -1 } : { updatedAt: -1 })
+    .limit(MAX_CANDIDATES)
+    .lean();
+
+  const roleOf = roleResolver(userId);
+  const withRoles = await Promise.all(
+    candidates.map(async (note) => ({ note, role: await roleOf(note) }))
+  );
+  const matching = filters.role
+    ? withRoles.filter((entry) => entry.role === filters.role)
+    : withRoles;
+
+  const pageEntries = matching.slice((page.page - 1) * page.limit, page.page * page.limit);
+  const notes = await Note.find({ _id: { $in: pageEntries.map((entry) => entry.note._id) } })
+    .select('title format tags owner folder plainText createdAt updatedAt')
+    .populate('owner', 'username');
+  const byId = new Map(notes.map((note) => [note._id.toString(), note]));
+
+  const results = pageEntries
+    .map(({ note: candidate, role }) => {
+      const note = byId.get(candidate._id.toString());
+      if (!note) return null;
+
+      const { plainText, ...fields } = note.toJSON();
+      return {
+        note: fields,
+        role,
+        score: candidate.score ?? null,
+        titleHighlights: titleHighlights(note.title, query),
+        snippet: buildSnippet(plainText ?? '', query),
+      };
+    })
+    .filter((result) => result !== null);
+
+  const versions = filters.includeVersions
+    ? await searchVersions(
+        userId,
+        query,
+        filters,
+        new Set(matching.map((entry) => entry.note._id.toString())),
+        page.limit
+      )
+    : undefined;
+
+  return {
+    results,
+    total: matching.length,
+    // Matches past the ceiling on candidates are neither counted nor returned
+    truncated: candidates.length === MAX_CANDIDATES,
+    versions,
+  };
+};
\ No newline at end of file
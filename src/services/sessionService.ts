@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import Session, { ISession } from '@/models/Session';
+import User, { IUser } from '@/models/User';
+import { config } from '@/config/config';
+import { createError } from '@/middleware/errorHandler';
+import { disconnectSession } from '@/sockets/emitter';
+
+/**
+ * Sign-in sessions. Each one hands out short-lived access tokens and a
+ * refresh token that changes on every use; only a hash of the current
+ * refresh token is stored.
+ */
+
+export interface ClientInfo {
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+}
+
+// Only write last-seen when it is older than this, to spare a write per request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+const hashToken = (secret: string): string => {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+};
+
+const generateAccessToken = (user: IUser, sessionId: string): string => {
+  return jwt.sign(
+    { userId: user._id.toString(), username: user.username, email: user.email, sessionId },
+    config.jwt.secret,
+    { expiresIn: config.jwt.expiresIn }
+  );
+};
+
+const generateRefreshSecret = (): string => crypto.randomBytes(48).toString('base64url');
+
+const refreshExpiry = (): Date => {
+  return new Date(Date.now() + config.jwt.refreshExpiresInDays * 24 * 60 * 60 * 1000);
+};
+
+// Refresh tokens are "<sessionId>.<secret>" so the session can be found without the secret
+const issueRefreshToken = (session: ISession): string => {
+  const secret = generateRefreshSecret();
+  session.refreshTokenHash = hashToken(secret);
+  session.expiresAt = refreshExpiry();
+  return `${session._id.toString()}.${secret}`;
+};
+
+export const createSession = async (user: IUser, client: ClientInfo): Promise<TokenPair> => {
+  const session = new Session({
+    user: user._id,
+    userAgent: client.userAgent?.slice(0, 500),
+    ip: client.ip,
+    lastSeenAt: new Date(),
+  });
+  const refreshToken = issueRefreshToken(session);
+  await session.save();
+
+  return { token: generateAccessToken(user, session._id.toString()), refreshToken };
+};
+
+export const findActiveSession = async (sessionId?: string): Promise<ISession | null> => {
+  if (!sessionId || !mongoose.Types.ObjectId.isValid(sessionId)) return null;
+
+  const session = await Session.findById(sessionId);
+  if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+  return session;
+};
+
+export const touchSession = async (session: ISession, client: ClientInfo): Promise<void> => {
+  if (Date.now() - session.lastSeenAt.getTime() < LAST_SEEN_RESOLUTION_MS) return;
+  await Session.updateOne({ _id: session._id }, { lastSeenAt: new Date(), ip: client.ip });
+};
+
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  await Session.updateOne({ _id: sessionId, revokedAt: null }, { revokedAt: new Date() });
+  disconnectSession(sessionId);
+};
+
+// Revokes every active session of a user, optionally keeping one (usually the caller's)
+export const revokeAllSessions = async (userId: string, exceptSessionId?: string) => {
+  const sessions = await Session.find({
+    user: userId,
+    revokedAt: null,
+    ...(exceptSessionId && { _id: { $ne: exceptSessionId } }),
+  }).select('_id');
+
+  await Promise.all(sessions.map((session) => revokeSession(session._id.toString())));
+  return sessions.length;
+};
+
+/**
+ * Exchanges a refresh token for a new token pair. Presenting a refresh token
+ * that was already rotated means it leaked, so the whole session is revoked.
+ */
+export const refreshSession = async (
+  refreshToken: string,
+  client: ClientInfo
+): Promise<TokenPair> => {
+  const [sessionId, secret] = refreshToken.split('.');
+  if (!secret || !mongoose.Types.ObjectId.isValid(sessionId)) {
+    throw createError('Invalid refresh token', 401);
+  }
+
+  const session = await Session.findById(sessionId).select('+refreshTokenHash');
+  if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+    throw createError('Invalid refresh token', 401);
+  }
+
+  if (session.refreshTokenHash !== hashToken(secret)) {
+    await revokeSession(sessionId);
+    throw createError('Refresh token has already been used, session revoked', 401);
+  }
+
+  const user = await User.findById(session.user);
+  if (!user) {
+    throw createError('Invalid refresh token', 401);
+  }
+
+  // Rotates only if the token is still the current one, so of two requests racing
+  // with the same token one loses and is treated as reuse
+  const newSecret = generateRefreshSecret();
+  const rotated = await Session.findOneAndUpdate(
+    { _id: sessionId, refreshTokenHash: hashToken(secret), revokedAt: null },
+    {
+      refreshTokenHash: hashToken(newSecret),
+      expiresAt: refreshExpiry(),
+      lastSeenAt: new Date(),
+      ip: client.ip,
+    }
+  );
+  if (!rotated) {
+    await revokeSession(sessionId);
+    throw createError('Refresh token has already been used, session revoked', 401);
+  }
+
+  return {
+    token: generateAccessToken(user, sessionId),
+    refreshToken: `${sessionId}.${newSecret}`,
+  };
+};
+
+export const listSessions = async (userId: string) => {
+  return Session.find({ user: userId, revokedAt: null, expiresAt: { $gt: new Date() } }).sort({
+    lastSeenAt: -1,
+  });
+};
\ No newline at end of file
@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import ShareLink, { IShareLink } from '@/models/ShareLink';
+import { INote } from '@/models/Note';
+import { createError } from '@/middleware/errorHandler';
+import { disconnectShareLink } from '@/sockets/emitter';
+import { Role } from '@/types';
+
+/**
+ * Share links give anyone holding the token access to one note, without an
+ * account. Tokens are random and only their hash is stored; a link can expire,
+ * be limited to a number of views and require a password.
+ */
+
+export interface ShareLinkOptions {
+  role: Role;
+  expiresAt?: Date;
+  maxViews?: number;
+  password?: string;
+}
+
+const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+export const createShareLink = async (
+  note: INote,
+  userId: string,
+  options: ShareLinkOptions
+): Promise<{ link: IShareLink; token: string }> => {
+  const token = crypto.randomBytes(24).toString('base64url');
+
+  const link = new ShareLink({
+    note: note._id,
+    createdBy: userId,
+    role: options.role,
+    tokenHash: hashToken(token),
+    // Hashed by the model before saving
+    passwordHash: options.password,
+    hasPassword: Boolean(options.password),
+    expiresAt: options.expiresAt,
+    maxViews: options.maxViews,
+  });
+  await link.save();
+
+  return { link, token };
+};
+
+/**
+ * Finds the link for a token and checks it can still be used. Opening the
+ * note counts a view, which is what the view limit caps; joining the live
+ * session or saving through the link does not.
+ */
+export const resolveShareLink = async (
+  token: string,
+  password: string | undefined,
+  { countView }: { countView: boolean }
+): Promise<IShareLink> => {
+  const link = await ShareLink.findOne({ tokenHash: hashToken(token) }).select('+passwordHash');
+  if (!link || link.revokedAt) {
+    throw createError('Share link not found', 404);
+  }
+
+  if (link.expiresAt && link.expiresAt.getTime() <= Date.now()) {
+    throw createError('Share link has expired', 410);
+  }
+
+  if (link.hasPassword) {
+    if (!password) {
+      throw createError('Share link password required', 401);
+    }
+    if (!(await link.comparePassword(password))) {
+      throw createError('Invalid share link password', 401);
+    }
+  }
+
+  const now = new Date();
+  if (countView) {
+    // Conditional increment, so concurrent opens cannot go past the limit
+    const counted = await ShareLink.findOneAndUpdate(
+      {
+        _id: link._id,
+        $or: [{ maxViews: null }, { $expr: { $lt: ['$views', '$maxViews'] } }],
+      },
+      { $inc: { views: 1 }, lastUsedAt: now },
+      { new: true }
+    );
+    if (!counted) {
+      throw createError('Share link has reached its view limit', 410);
+    }
+    return counted;
+  }
+
+  await ShareLink.updateOne({ _id: link._id }, { lastUsedAt: now });
+  return link;
+};
+
+export const listShareLinks = async (noteId: string) => {
+  return ShareLink.find({ note: noteId, revokedAt: null })
+    .populate('createdBy', 'username email')
+    .sort({ createdAt: -1 });
+};
+
+// Revokes a link and drops the sockets that joined through it
+export const revokeShareLink = async (noteId: string, linkId: string): Promise<boolean> => {
+  if (!mongoose.Types.ObjectId.isValid(linkId)) return false;
+
+  const result = await ShareLink.updateOne(
+    { _id: linkId, note: noteId, revokedAt: null },
+    { revokedAt: new Date() }
+  );
+  if (result.modifiedCount === 0) return false;
+
+  disconnectShareLink(linkId);
+  return true;
+};
+
+export const deleteShareLinks = async (noteId: string): Promise<void> => {
+  const links = await ShareLink.find({ note: noteId, revokedAt: null }).select('_id');
+  await ShareLink.deleteMany({ note: noteId });
+  links.forEach((link) => disconnectShareLink(link._id.toString()));
+};
\ No newline at end of file
@@ -0,0 +1,91 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { config } from '@/config/config';
+import { createError } from '@/middleware/errorHandler';
+
+/**
+ * Where uploaded files live. Keys are generated by the server, e.g.
+ * "attachments/<noteId>/<attachmentId>"; an S3-compatible adapter only has
+ * to map them to object keys.
+ */
+export interface StorageAdapter {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  read(key: string): Promise<Readable>;
+  // Removing a missing file is not an error
+  remove(key: string): Promise<void>;
+}
+
+const fileNotFound = () => createError('File not found', 404);
+
+export const createLocalStorage = (dir: string): StorageAdapter => {
+  const root = path.resolve(dir);
+
+  const resolve = (key: string): string => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw createError('Invalid storage key', 400);
+    }
+    return file;
+  };
+
+  return {
+    put: async (key, data) => {
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, data);
+    },
+    read: async (key) => {
+      try {
+        const handle = await fs.open(resolve(key), 'r');
+        return handle.createReadStream();
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') throw fileNotFound();
+        throw error;
+      }
+    },
+    remove: async (key) => {
+      await fs.rm(resolve(key), { force: true });
+    },
+  };
+};
+
+// Keeps files in memory, used by the tests
+export const storedFiles = new Map<string, { data: Buffer; contentType: string }>();
+
+export const createMemoryStorage = (): StorageAdapter => ({
+  put: async (key, data, contentType) => {
+    storedFiles.set(key, { data, contentType });
+  },
+  read: async (key) => {
+    const file = storedFiles.get(key);
+    if (!file) throw fileNotFound();
+    return Readable.from(file.data);
+  },
+  remove: async (key) => {
+    storedFiles.delete(key);
+  },
+});
+
+const createStorage = (): StorageAdapter => {
+  switch (config.storage.driver) {
+    case 'memory':
+      return createMemoryStorage();
+    default:
+      return createLocalStorage(config.storage.dir);
+  }
+};
+
+let storage: StorageAdapter | null = null;
+
+// Swaps the adapter, e.g. for an S3-compatible one
+export const setStorageAdapter = (custom: StorageAdapter): void => {
+  storage = custom;
+};
+
+export const getStorage = (): StorageAdapter => {
+  if (!storage) {
+    storage = createStorage();
+  }
+  return storage;
+};
\ No newline at end of file
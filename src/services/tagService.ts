@@ -0,0 +1,187 @@
+import mongoose, { PipelineStage } from 'mongoose';
+import Note, { INote } from '@/models/Note';
+import { TagCount } from '@/types';
+import { noteAccessFilter } from '@/services/folderService';
+import { escapeRegex } from '@/utils/query';
+
+/**
+ * Tags are lowercase labels on notes. The owner's tags belong to the note and
+ * everyone with access sees them; collaborators can add personal tags to a
+ * shared note that only they see. Both kinds work the same for filtering.
+ */
+
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const normalizeTags = (tags: string[]): string[] => {
+  return [...new Set(tags.map(normalizeTag).filter(Boolean))];
+};
+
+/**
+ * Builds a note filter for the given tags as seen by the user, matching the
+ * note's own tags or the user's personal tags on it. The user id is an
+ * ObjectId so the filter also works in aggregations.
+ */
+export const buildTagFilter = (
+  userId: string,
+  tags: string[],
+  match: 'all' | 'any' = 'all'
+): Record<string, unknown> => {
+  const user = new mongoose.Types.ObjectId(userId);
+  const hasTag = (tag: string | { $in: string[] }) => ({
+    $or: [{ tags: tag }, { personalTags: { $elemMatch: { user, tags: tag } } }],
+  });
+
+  if (match === 'any') {
+    return hasTag({ $in: tags });
+  }
+  return { $and: tags.map((tag) => hasTag(tag)) };
+};
+
+// The personal tags of one user on a note loaded with +personalTags
+export const personalTagsOf = (note: INote, userId: string): string[] => {
+  return note.personalTags?.find((entry) => entry.user.toString() === userId)?.tags ?? [];
+};
+
+// Plain note object for a response, with the other collaborators' tags stripped out
+export const presentNote = (note: INote, userId: string) => {
+  return { ...note.toJSON(), personalTags: personalTagsOf(note, userId) };
+};
+
+/**
+ * Replaces the user's tags on a note: the owner edits the note's tags, anyone
+ * else their personal ones.
+ */
+export const setNoteTags = async (note: INote, userId: string, tags: string[]): Promise<void> => {
+  const normalized = normalizeTags(tags);
+
+  if (note.owner.toString() === userId) {
+    await Note.updateOne({ _id: note._id }, { $set: { tags: normalized } });
+    return;
+  }
+
+  await Note.updateOne({ _id: note._id }, { $pull: { personalTags: { user: userId } } });
+  if (normalized.length > 0) {
+    await Note.updateOne(
+      { _id: note._id },
+      { $push: { personalTags: { user: userId, tags: normalized } } }
+    );
+  }
+};
+
+// Every tag the user sees on each accessible note
+const visibleTagsPipeline = async (userId: string): Promise<PipelineStage[]> => {
+  const user = new mongoose.Types.ObjectId(userId);
+  return [
+    { $match: await noteAccessFilter(userId) },
+    {
+      $project: {
+        tags: {
+          $setUnion: [
+            { $ifNull: ['$tags', []] },
+            {
+              $reduce: {
+                input: {
+                  $filter: {
+                    input: { $ifNull: ['$personalTags', []] },
+                    cond: { $eq: ['$$this.user', user] },
+                  },
+                },
+                initialValue: [],
+                in: { $concatArrays: ['$$value', '$$this.tags'] },
+              },
+            },
+          ],
+        },
+      },
+    },
+    { $unwind: '$tags' },
+  ];
+};
+
+// Tags with the number of notes carrying them, most used first
+export const listTags = async (userId: string): Promise<TagCount[]> => {
+  return Note.aggregate<TagCount>([
+    ...(await visibleTagsPipeline(userId)),
+    { $group: { _id: '$tags', count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } },
+    { $project: { _id: 0, name: '$_id', count: 1 } },
+  ]);
+};
+
+export const suggestTags = async (
+  userId: string,
+  prefix: string,
+  limit: number
+): Promise<TagCount[]> => {
+  return Note.aggregate<TagCount>([
+    ...(await visibleTagsPipeline(userId)),
+    { $match: { tags: { $regex: `^${escapeRegex(normalizeTag(prefix))}` } } },
+    { $group: { _id: '$tags', count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } },
+    { $limit: limit },
+    { $project: { _id: 0, name: '$_id', count: 1 } },
+  ]);
+};
+
+const dropEmptyPersonalTags = async (userId: string): Promise<void> => {
+  await Note.updateMany(
+    { personalTags: { $elemMatch: { user: userId, tags: { $size: 0 } } } },
+    { $pull: { personalTags: { user: userId, tags: { $size: 0 } } } }
+  );
+};
+
+/**
+ * Replaces the source tags with the target on every note where the user
+ * controls them: the tags of notes they own and their personal tags. Renaming
+ * onto an existing tag merges the two. Returns the number of notes changed.
+ */
+export const mergeTags = async (
+  userId: string,
+  sources: string[],
+  target: string
+): Promise<number> => {
+  const to = normalizeTag(target);
+  const from = normalizeTags(sources).filter((tag) => tag !== to);
+  if (from.length === 0) return 0;
+
+  const owned = { owner: userId, tags: { $in: from } };
+  const ownedNotes = await Note.countDocuments(owned);
+  await Note.updateMany(owned, { $addToSet: { tags: to } });
+  await Note.updateMany({ owner: userId }, { $pull: { tags: { $in: from } } });
+
+  const personal = { personalTags: { $elemMatch: { user: userId, tags: { $in: from } } } };
+  const arrayFilters = [{ 'entry.user': new mongoose.Types.ObjectId(userId) }];
+  const personalNotes = await Note.countDocuments(personal);
+  await Note.updateMany(
+    personal,
+    { $addToSet: { 'personalTags.$[entry].tags': to } },
+    { arrayFilters }
+  );
+  await Note.updateMany(
+    { 'personalTags.user': userId },
+    { $pull: { 'personalTags.$[entry].tags': { $in: from } } },
+    { arrayFilters }
+  );
+  await dropEmptyPersonalTags(userId);
+
+  return ownedNotes + personalNotes;
+};
+
+export const renameTag = async (userId: string, tag: string, name: string): Promise<number> => {
+  return mergeTags(userId, [tag], name);
+};
+
+// Removes a tag from every note where the user controls it
+export const deleteTag = async (userId: string, tag: string): Promise<number> => {
+  const name = normalizeTag(tag);
+
+  const owned = await Note.updateMany({ owner: userId, tags: name }, { $pull: { tags: name } });
+  const personal = await Note.updateMany(
+    { personalTags: { $elemMatch: { user: userId, tags: name } } },
+    { $pull: { 'personalTags.$[entry].tags': name } },
+    { arrayFilters: [{ 'entry.user': new mongoose.Types.ObjectId(userId) }] }
+  );
+  await dropEmptyPersonalTags(userId);
+
+  return owned.modifiedCount + personal.modifiedCount;
+};
\ No newline at end of file
@@ -0,0 +1,144 @@
+import mongoose from 'mongoose';
+import Note, { INote } from '@/models/Note';
+import Folder from '@/models/Folder';
+import { config } from '@/config/config';
+import { createError } from '@/middleware/errorHandler';
+import { saveLiveEdits } from '@/services/collabService';
+import { deleteVersions } from '@/services/versionService';
+import { getOperationLog } from '@/services/operationLogService';
+import { getPresence } from '@/services/presenceService';
+import { deleteShareLinks } from '@/services/shareLinkService';
+import { deleteInvitations } from '@/services/invitationService';
+import { deleteComments } from '@/services/commentService';
+import { deleteAttachments } from '@/services/attachmentService';
+import { deleteNoteNotifications } from '@/services/notificationService';
+import { ActivityActor, recordActivity } from '@/services/activityService';
+import { emitToNote, leaveNote } from '@/sockets/emitter';
+
+/**
+ * Deleted notes go to their owner's trash first. Everything else treats a
+ * trashed note as gone (see the Note model); it can be restored until it is
+ * purged, by hand or once the retention period is over.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const purgeDate = (deletedAt: Date): Date => {
+  return new Date(deletedAt.getTime() + config.trash.retentionDays * DAY_MS);
+};
+
+export const moveToTrash = async (
+  note: INote,
+  actor: { userId: string; username: string }
+): Promise<void> => {
+  const noteId = note._id.toString();
+
+  // Save pending live edits first, from every instance, so restoring brings them back too.
+  // Any that land after this stay in the operation log and are replayed on restore.
+  await saveLiveEdits(noteId);
+
+  await Note.updateOne(
+    { _id: note._id, deletedAt: null },
+    { deletedAt: new Date(), deletedBy: actor.userId },
+    { timestamps: false }
+  );
+  await recordActivity(note, actor, 'note.deleted');
+
+  emitToNote(noteId, 'note-deleted', { noteId, deletedBy: actor });
+
+  // Nobody stays in the note, whichever instance they are connected to
+  leaveNote(noteId);
+  const presence = getPresence();
+  for (const entry of await presence.list(noteId)) {
+    await presence.remove(noteId, entry.socketId);
+  }
+};
+
+export const listTrash = async (userId: string) => {
+  const notes = await Note.find({ owner: userId, deletedAt: { $ne: null } })
+    .select('title folder tags deletedAt deletedBy updatedAt')
+    .populate('deletedBy', 'username')
+    .sort({ deletedAt: -1 });
+
+  return notes.map((note) => ({ ...note.toJSON(), purgeAt: purgeDate(note.deletedAt!) }));
+};
+
+const findTrashedNote = async (noteId: string, userId: string): Promise<INote> => {
+  if (!mongoose.Types.ObjectId.isValid(noteId)) {
+    throw createError('Invalid note ID', 400);
+  }
+
+  const note = await Note.findOne({ _id: noteId, owner: userId, deletedAt: { $ne: null } });
+  if (!note) {
+    throw createError('Note not found in trash', 404);
+  }
+  return note;
+};
+
+// Puts the note back where it was, or at the top level if its folder is gone
+export const restoreNote = async (
+  noteId: string,
+  actor: { userId: string; username: string }
+): Promise<INote> => {
+  const note = await findTrashedNote(noteId, actor.userId);
+
+  if (note.folder && !(await Folder.exists({ _id: note.folder }))) {
+    note.folder = null;
+  }
+  note.deletedAt = null;
+  note.deletedBy = null;
+  await note.save();
+
+  await recordActivity(note, actor, 'note.restored');
+  return note;
+};
+
+// Removes a note and everything that belongs to it for good
+const purge = async (note: INote, actor: ActivityActor): Promise<void> => {
+  const noteId = note._id.toString();
+
+  await Note.deleteOne({ _id: note._id });
+  await recordActivity(note, actor, 'note.purged');
+  await deleteVersions(noteId);
+  await deleteShareLinks(noteId);
+  await deleteInvitations(noteId);
+  await deleteComments(noteId);
+  await deleteAttachments(noteId);
+  await deleteNoteNotifications(noteId);
+  await getOperationLog().remove(noteId);
+};
+
+export const deleteForever = async (
+  noteId: string,
+  actor: { userId: string; username: string }
+): Promise<void> => {
+  await purge(await findTrashedNote(noteId, actor.userId), actor);
+};
+
+// Purges notes that have been in the trash longer than the retention period
+export const purgeExpired = async (now = new Date()): Promise<number> => {
+  const cutoff = new Date(now.getTime() - config.trash.retentionDays * DAY_MS);
+  const expired = await Note.find({ deletedAt: { $ne: null, $lte: cutoff } });
+
+  for (const note of expired) {
+    await purge(note, 'system');
+  }
+  return expired.length;
+};
+
+export const startTrashPurge = (): NodeJS.Timeout => {
+  const run = () => {
+    purgeExpired()
+      .then((count) => {
+        if (count > 0) console.log(`🗑️  Purged ${count} note(s) from the trash`);
+      })
+      .catch((error) => {
+        console.error('Error purging the trash:', error);
+      });
+  };
+
+  run();
+  const timer = setInterval(run, config.trash.purgeIntervalMinutes * 60 * 1000);
+  timer.unref();
+  return timer;
+};
\ No newline at end of file
@@ -0,0 +1,275 @@
+import mongoose from 'mongoose';
+import Note from '@/models/Note';
+import NoteVersion, { INoteVersion } from '@/models/NoteVersion';
+import { IUser } from '@/models/User';
+import { config } from '@/config/config';
+import { createError } from '@/middleware/errorHandler';
+import { NoteFormat, TextOperation } from '@/types';
+import { apply } from '@/services/ot';
+import { diffText } from '@/utils/diff';
+
+/**
+ * Note history lives in its own collection. Each version stores the title and
+ * content a note had before a change; content is kept as a delta from the
+ * previous version, with a full snapshot every few versions so rebuilding
+ * one never has to walk the whole history.
+ */
+
+export interface NoteState {
+  title: string;
+  content: string;
+  format?: NoteFormat;
+}
+
+export interface ImportedVersion extends NoteState {
+  modifiedBy: mongoose.Types.ObjectId | string | null;
+  modifiedAt?: Date;
+  label?: string;
+}
+
+// The author of a version as listVersions and getVersion populate it, null once the account is gone
+export type VersionAuthor = Pick<IUser, '_id' | 'username' | 'email'>;
+
+type PopulatedVersion = Omit<INoteVersion, 'modifiedBy'> & { modifiedBy: VersionAuthor | null };
+
+// A version to append, with the content the note had at that point
+type NewVersion = ImportedVersion & { shareLink?: string | null };
+
+// Where the chain ends: what a new delta would be computed against
+interface ChainTip {
+  seq: number;
+  content: string;
+  deltasSinceSnapshot: number;
+}
+
+const toOperation = (from: string, to: string): TextOperation => {
+  return diffText(from, to, 'word').map((change) => {
+    if (change.type === 'equal') return change.value.length;
+    if (change.type === 'delete') return -change.value.length;
+    return change.value;
+  });
+};
+
+// Picks how to store `content` given the end of the chain it is appended to
+const encode = (tip: ChainTip | null, content: string) => {
+  if (tip && tip.deltasSinceSnapshot + 1 < config.versions.snapshotInterval) {
+    const delta = toOperation(tip.content, content);
+    // Heavily rewritten content is cheaper to store whole
+    if (JSON.stringify(delta).length < content.length) {
+      return { kind: 'delta' as const, delta };
+    }
+  }
+  return { kind: 'snapshot' as const, content };
+};
+
+// Rebuilds the content of each version of a seq-ordered chain starting at a snapshot
+const reconstruct = (chain: Pick<INoteVersion, 'kind' | 'content' | 'delta'>[]): string[] => {
+  const contents: string[] = [];
+  chain.forEach((version, index) => {
+    if (version.kind === 'snapshot') {
+      contents.push(version.content ?? '');
+    } else if (index === 0) {
+      throw createError('Version history is incomplete', 500);
+    } else {
+      contents.push(apply(contents[index - 1], version.delta ?? []));
+    }
+  });
+  return contents;
+};
+
+// Loads the versions needed to rebuild the one at `seq` (or the latest one)
+const loadChain = async (noteId: string, seq?: number): Promise<INoteVersion[]> => {
+  const upTo = seq === undefined ? {} : { seq: { $lte: seq } };
+  const snapshot = await NoteVersion.findOne({ note: noteId, kind: 'snapshot', ...upTo }).sort({
+    seq: -1,
+  });
+  if (!snapshot) return [];
+
+  const deltas = await NoteVersion.find({
+    note: noteId,
+    seq: { $gt: snapshot.seq, ...(seq === undefined ? {} : { $lte: seq }) },
+  }).sort({ seq: 1 });
+
+  return [snapshot, ...deltas];
+};
+
+// The latest version of a note with its content, null before the first one
+const loadTip = async (noteId: string): Promise<ChainTip | null> => {
+  const chain = await loadChain(noteId);
+  if (chain.length === 0) return null;
+
+  const contents = reconstruct(chain);
+  return {
+    seq: chain[chain.length - 1].seq,
+    content: contents[contents.length - 1],
+    deltasSinceSnapshot: chain.length - 1,
+  };
+};
+
+const isDuplicateKey = (error: unknown): boolean => (error as { code?: number }).code === 11000;
+
+/**
+ * Appends a version right after `tip` (or after `lastSeq` for the first one).
+ * The unique (note, seq) index rejects the insert when another writer appended
+ * first; the new tip is then read back and the entry encoded against it, so a
+ * delta is never stored against the wrong base. Returns the new tip.
+ */
+const appendVersion = async (
+  noteId: string,
+  lastSeq: number,
+  entry: NewVersion,
+  tip: ChainTip | null
+): Promise<ChainTip> => {
+  for (;;) {
+    const seq = (tip?.seq ?? lastSeq) + 1;
+    const encoded = encode(tip, entry.content);
+    try {
+      await NoteVersion.create({
+        note: noteId,
+        seq,
+        title: entry.title,
+        format: entry.format,
+        modifiedBy: entry.modifiedBy,
+        shareLink: entry.shareLink ?? null,
+        modifiedAt: entry.modifiedAt ?? new Date(),
+        label: entry.label,
+        ...encoded,
+      });
+      return {
+        seq,
+        content: entry.content,
+        deltasSinceSnapshot: encoded.kind === 'snapshot' ? 0 : tip!.deltasSinceSnapshot + 1,
+      };
+    } catch (error) {
+      if (!isDuplicateKey(error)) throw error;
+      tip = await loadTip(noteId);
+    }
+  }
+};
+
+const toView = (version: PopulatedVersion, content: string) => ({
+  _id: version._id,
+  seq: version.seq,
+  title: version.title,
+  content,
+  format: version.format ?? 'plain',
+  modifiedBy: version.modifiedBy,
+  shareLink: version.shareLink,
+  modifiedAt: version.modifiedAt,
+  label: version.label,
+});
+
+export type VersionView = ReturnType<typeof toView>;
+
+/**
+ * Drops versions beyond the configured count or age. Labeled checkpoints are
+ * always kept; a kept delta whose predecessor goes away becomes a snapshot.
+ * Only the versions past the limits are read, counting back from the tip.
+ */
+export const applyRetention = async (noteId: string): Promise<void> => {
+  const { maxCount, maxAgeDays } = config.versions;
+  const cutoff = maxAgeDays > 0 ? new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000) : null;
+
+  const [beyondCount, tooOld] = await Promise.all([
+    NoteVersion.find({ note: noteId, label: null }).sort({ seq: -1 }).skip(maxCount).select('seq'),
+    cutoff
+      ? NoteVersion.find({ note: noteId, label: null, modifiedAt: { $lt: cutoff } }).select('seq')
+      : [],
+  ]);
+  const removed = new Set([...beyondCount, ...tooOld].map((version) => version.seq));
+
+  if (removed.size === 0) return;
+
+  for (const seq of removed) {
+    const next = await NoteVersion.findOne({ note: noteId, seq: { $gt: seq } }).sort({ seq: 1 });
+    if (!next || removed.has(next.seq) || next.kind === 'snapshot') continue;
+
+    const chain = await loadChain(noteId, next.seq);
+    next.kind = 'snapshot';
+    next.content = reconstruct(chain)[chain.length - 1];
+    next.delta = undefined;
+    await next.save();
+  }
+
+  await NoteVersion.deleteMany({ note: noteId, seq: { $in: Array.from(removed) } });
+};
+
+// Records the state a note had before a change; anonymous changes carry the share link instead
+export const recordVersion = async (
+  noteId: string,
+  previous: NoteState,
+  modifiedBy: string | null,
+  shareLink?: string
+): Promise<void> => {
+  const note = await Note.findById(noteId).select('+versionSeq');
+  if (!note) return;
+
+  const tip = await appendVersion(
+    noteId,
+    note.versionSeq,
+    { ...previous, modifiedBy, shareLink },
+    await loadTip(noteId)
+  );
+  await Note.updateOne({ _id: noteId }, { $max: { versionSeq: tip.seq } }, { timestamps: false });
+
+  await applyRetention(noteId);
+};
+
+// Appends existing history, oldest first (used by the embedded versions migration)
+export const importVersions = async (noteId: string, entries: ImportedVersion[]): Promise<void> => {
+  if (entries.length === 0) return;
+
+  const note = await Note.findById(noteId).select('+versionSeq');
+  if (!note) return;
+
+  // One at a time, so edits made during the migration interleave instead of colliding
+  let tip = await loadTip(noteId);
+  for (const entry of entries) {
+    tip = await appendVersion(noteId, note.versionSeq, entry, tip);
+  }
+  await Note.updateOne({ _id: noteId }, { $max: { versionSeq: tip!.seq } }, { timestamps: false });
+
+  await applyRetention(noteId);
+};
+
+// All versions of a note, oldest first
+export const listVersions = async (noteId: string): Promise<VersionView[]> => {
+  const versions = await NoteVersion.find({ note: noteId })
+    .sort({ seq: 1 })
+    .populate<{ modifiedBy: VersionAuthor | null }>('modifiedBy', 'username email');
+  const contents = reconstruct(versions);
+  return versions.map((version, index) => toView(version, contents[index]));
+};
+
+export const getVersion = async (noteId: string, versionId: string): Promise<VersionView> => {
+  const version = await NoteVersion.findOne({ _id: versionId, note: noteId }).populate<{
+    modifiedBy: VersionAuthor | null;
+  }>('modifiedBy', 'username email');
+  if (!version) {
+    throw createError('Version not found', 404);
+  }
+
+  const chain = await loadChain(noteId, version.seq);
+  const contents = reconstruct(chain);
+  return toView(version, contents[contents.length - 1]);
+};
+
+export const labelVersion = async (
+  noteId: string,
+  versionId: string,
+  label?: string
+): Promise<VersionView> => {
+  const version = await NoteVersion.findOne({ _id: versionId, note: noteId });
+  if (!version) {
+    throw createError('Version not found', 404);
+  }
+
+  version.label = label || undefined;
+  await version.save();
+
+  return getVersion(noteId, versionId);
+};
+
+export const deleteVersions = async (noteId: string): Promise<void> => {
+  await NoteVersion.deleteMany({ note: noteId });
+};
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { MongoClient } from 'mongodb';
+import { createAdapter } from '@socket.io/mongo-adapter';
+import { config } from '@/config/config';
+import { instanceId } from '@/services/presenceService';
+import { SocketServer } from '@/sockets/emitter';
+
+const EVENTS_COLLECTION = 'socket.io-adapter-events';
+// MongoDB's error code for a collection that already exists
+const NAMESPACE_EXISTS = 48;
+
+let client: MongoClient | null = null;
+
+/**
+ * Sends room broadcasts through MongoDB so they reach the sockets of every
+ * instance. The adapter follows a change stream, which needs a replica set; a
+ * single mongod started with --replSet is enough.
+ */
+export const setupSocketAdapter = async (io: SocketServer): Promise<void> => {
+  if (config.sockets.adapter !== 'mongo') return;
+
+  // The adapter brings its own driver, so it gets its own client
+  client = await new MongoClient(config.mongoUri).connect();
+  const db = client.db();
+  try {
+    // Capped, so old events make way for new ones
+    await db.createCollection(EVENTS_COLLECTION, { capped: true, size: 1e6 });
+  } catch (error) {
+    if ((error as { code?: number }).code !== NAMESPACE_EXISTS) throw error;
+  }
+
+  io.adapter(createAdapter(db.collection(EVENTS_COLLECTION), { uid: instanceId }));
+  console.log(`🔌 Socket.io rooms shared through MongoDB (instance ${instanceId})`);
+};
+
+export const closeSocketAdapter = async (): Promise<void> => {
+  await client?.close();
+  client = null;
+};
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { Server } from 'socket.io';
+import { ClientToServerEvents, ServerToClientEvents } from '@/types';
+
+export type SocketServer = Server<ClientToServerEvents, ServerToClientEvents>;
+
+type ServerEvent = keyof ServerToClientEvents;
+
+// Lets REST controllers and services push events to connected clients
+let io: SocketServer | null = null;
+
+export const setSocketServer = (server: SocketServer): void => {
+  io = server;
+};
+
+export const emitToNote = <E extends ServerEvent>(
+  noteId: string,
+  event: E,
+  ...payload: Parameters<ServerToClientEvents[E]>
+): void => {
+  io?.to(`note:${noteId}`).emit(event, ...payload);
+};
+
+// Reaches every socket the user has open, whichever note they are on
+export const emitToUser = <E extends ServerEvent>(
+  userId: string,
+  event: E,
+  ...payload: Parameters<ServerToClientEvents[E]>
+): void => {
+  io?.to(`user:${userId}`).emit(event, ...payload);
+};
+
+// Drops every socket opened with a session, e.g. after it was revoked
+export const disconnectSession = (sessionId: string): void => {
+  io?.in(`session:${sessionId}`).disconnectSockets(true);
+};
+
+// Takes every socket out of the note room, on every instance
+export const leaveNote = (noteId: string): void => {
+  io?.in(`note:${noteId}`).socketsLeave(`note:${noteId}`);
+};
+
+// Drops every socket that joined through a share link, e.g. after it was revoked
+export const disconnectShareLink = (linkId: string): void => {
+  io?.in(`share:${linkId}`).disconnectSockets(true);
+};
\ No newline at end of file
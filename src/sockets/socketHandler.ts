@@ -1,151 +1,402 @@
-import { Server, Socket } from 'socket.io';
+import { Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
-import Note from '@/models/Note';
+import Note, { INote } from '@/models/Note';
 import { config } from '@/config/config';
-import { AuthPayload, SocketUser, NoteRoom } from '@/types';
+import {
+  AuthPayload,
+  Role,
+  Capability,
+  PresenceStatus,
+  AckCallback,
+  ClientToServerEvents,
+  ServerToClientEvents,
+  JoinedNote,
+  NoteEditor,
+  NoteRef,
+  SocketAck,
+  SocketError,
+  SocketErrorCode,
+} from '@/types';
+import { AppError, createError } from '@/middleware/errorHandler';
+import { validateSocketPayload } from '@/middleware/validation';
+import { isValidOperation } from '@/services/ot';
+import { openSession, closeSession, submitOperation, markDirty } from '@/services/collabService';
+import { findActiveSession } from '@/services/sessionService';
+import { resolveShareLink } from '@/services/shareLinkService';
+import { recordActivity } from '@/services/activityService';
+import {
+  PresenceChanges,
+  PresenceEntry,
+  activeUsers,
+  getPresence,
+  instanceId,
+} from '@/services/presenceService';
+import { SocketServer, setSocketServer } from '@/sockets/emitter';
+import { can } from '@/utils/permissions';
 
-interface AuthenticatedSocket extends Socket {
+interface ShareLinkGrant {
+  linkId: string;
+  noteId: string;
+  role: Role;
+  createdBy: string;
+  expiresAt?: Date;
+}
+
+type TypedSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+interface AuthenticatedSocket extends TypedSocket {
   user?: AuthPayload;
+  // Set when the socket connected with a share link
+  shareLink?: ShareLinkGrant;
+  // Anonymous link holder, user holds a placeholder identity
+  guest?: boolean;
+  // Activity in the note room the socket is in
+  presence?: LocalPresence;
+}
+
+interface LocalPresence {
+  noteId: string;
+  status: PresenceStatus;
+  typing: boolean;
+  lastActiveAt: number;
+  lastSeenAt: number;
+  typingTimer?: NodeJS.Timeout;
 }
 
-// Store active rooms and users
-const noteRooms = new Map<string, NoteRoom>();
-const userSockets = new Map<string, string>(); // userId -> socketId
+const PRESENCE_SWEEP_MS = 5000;
+
+// Followers of a user in a note get their viewport
+const followRoom = (noteId: string, userId: string) => `follow:${noteId}:${userId}`;
+
+// Checks access through the socket's share link first, then the user's own grants
+const canAccessNote = async (
+  socket: AuthenticatedSocket,
+  note: INote,
+  capability: Capability
+): Promise<boolean> => {
+  const link = socket.shareLink;
+  if (
+    link &&
+    link.noteId === note._id.toString() &&
+    (!link.expiresAt || link.expiresAt.getTime() > Date.now()) &&
+    can(link.role, capability)
+  ) {
+    return true;
+  }
+  return !socket.guest && note.isUserAuthorized(socket.user!.userId, capability);
+};
+
+// Anonymous edits have no user, they are traced to the share link instead
+const editorOf = (socket: AuthenticatedSocket): NoteEditor => {
+  if (socket.guest) {
+    return { userId: null, username: 'Guest', shareLink: socket.shareLink!.linkId };
+  }
+  return { userId: socket.user!.userId, username: socket.user!.username };
+};
+
+type ClientEvent = keyof ClientToServerEvents;
+type Callback = (...args: never[]) => void;
+type EventArgs<E extends ClientEvent> = Parameters<ClientToServerEvents[E]>;
+
+// The validated payload an event's handler gets, and the data it answers with
+type EventPayload<E extends ClientEvent> = Exclude<EventArgs<E>[0], string | Callback>;
+type EventResult<E extends ClientEvent> =
+  Extract<EventArgs<E>[number], Callback> extends AckCallback<infer T> ? T : never;
+
+const ERROR_CODES: Partial<Record<number, SocketErrorCode>> = {
+  400: 'INVALID_REQUEST',
+  403: 'ACCESS_DENIED',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+};
+
+// Operational errors keep their message, others get a generic one
+export const toSocketError = (error: unknown): SocketError => {
+  const { isOperational, statusCode, message } = error as AppError;
+  if (!isOperational) {
+    return { code: 'INTERNAL_ERROR', message: 'Internal Server Error' };
+  }
+  return { code: ERROR_CODES[statusCode ?? 400] ?? 'INVALID_REQUEST', message };
+};
+
+const noteIdOf = (payload: unknown): string | undefined => {
+  if (typeof payload === 'string') return payload;
+  const noteId = (payload as Partial<NoteRef> | undefined)?.noteId;
+  return typeof noteId === 'string' ? noteId : undefined;
+};
+
+/**
+ * Registers the handler of a client event. The payload is validated first, and
+ * the outcome goes to the callback the client passed as the last argument; a
+ * client that passed none gets failures as an 'error' event.
+ */
+export const handleEvent = <E extends ClientEvent>(
+  socket: TypedSocket,
+  event: E,
+  handler: (payload: EventPayload<E>) => Promise<EventResult<E> | void> | EventResult<E> | void
+): void => {
+  const listener = async (...args: unknown[]) => {
+    const ack =
+      typeof args[args.length - 1] === 'function'
+        ? (args.pop() as AckCallback<EventResult<E>>)
+        : undefined;
+    const payload = args[0];
+
+    let response: SocketAck<EventResult<E>>;
+    const validated = validateSocketPayload(event, payload);
+    if (validated.error !== undefined) {
+      response = { ok: false, error: { code: 'VALIDATION_ERROR', message: validated.error } };
+    } else {
+      try {
+        const data = await handler(validated.value as EventPayload<E>);
+        response = { ok: true, data: (data ?? null) as EventResult<E> };
+      } catch (error) {
+        if (!(error as AppError).isOperational) {
+          console.error(`Error handling ${event}:`, error);
+        }
+        response = { ok: false, error: toSocketError(error) };
+      }
+    }
+
+    if (ack) {
+      ack(response);
+    } else if (!response.ok) {
+      const noteId = noteIdOf(payload);
+      socket.emit('error', { event, ...response.error, ...(noteId && { noteId }) });
+    }
+  };
+
+  // The listener sorts out its own arguments
+  socket.on(event, listener as never);
+};
+
+export const setupSocketHandlers = (io: SocketServer) => {
+  setSocketServer(io);
 
-export const setupSocketHandlers = (io: Server) => {
   // Authentication middleware for socket connections
   io.use(async (socket: AuthenticatedSocket, next) => {
-    try {
-      const token = socket.handshake.auth.token;
-      if (!token) {
-        return next(new Error('Authentication error: Token required'));
+    const { token, shareToken, sharePassword } = socket.handshake.auth;
+    if (!token && !shareToken) {
+      return next(new Error('Authentication error: Token required'));
+    }
+
+    if (token) {
+      try {
+        const decoded = jwt.verify(token, config.jwt.secret) as AuthPayload;
+        if (!(await findActiveSession(decoded.sessionId))) {
+          return next(new Error('Authentication error: Session revoked'));
+        }
+
+        socket.user = decoded;
+      } catch (error) {
+        return next(new Error('Authentication error: Invalid token'));
+      }
+    }
+
+    // Share link holders may connect without an account
+    if (shareToken) {
+      try {
+        const link = await resolveShareLink(shareToken, sharePassword, { countView: false });
+        socket.shareLink = {
+          linkId: link._id.toString(),
+          noteId: link.note.toString(),
+          role: link.role,
+          createdBy: link.createdBy.toString(),
+          expiresAt: link.expiresAt,
+        };
+      } catch (error) {
+        return next(new Error(`Authentication error: ${(error as Error).message}`));
       }
 
-      const decoded = jwt.verify(token, config.jwt.secret) as AuthPayload;
-      socket.user = decoded;
-      userSockets.set(decoded.userId, socket.id);
-      next();
-    } catch (error) {
-      next(new Error('Authentication error: Invalid token'));
+      if (!socket.user) {
+        socket.guest = true;
+        socket.user = {
+          userId: `guest:${socket.id}`,
+          username: 'Guest',
+          email: '',
+          sessionId: '',
+        };
+      }
     }
+
+    next();
   });
 
   io.on('connection', (socket: AuthenticatedSocket) => {
     console.log(`👤 User ${socket.user?.username} connected (${socket.id})`);
 
+    // Lets a session or share link revocation disconnect this socket
+    if (!socket.guest) {
+      socket.join(`session:${socket.user!.sessionId}`);
+      // Notifications for the user go to all of their sockets
+      socket.join(`user:${socket.user!.userId}`);
+    }
+    if (socket.shareLink) {
+      socket.join(`share:${socket.shareLink.linkId}`);
+    }
+
     // Handle joining a note room
-    socket.on('join-note', async (noteId: string) => {
-      try {
-        // Verify user has access to this note
-        const note = await Note.findById(noteId);
-        if (!note || !note.isUserAuthorized(socket.user!.userId, 'read')) {
-          socket.emit('error', { message: 'Access denied to this note' });
-          return;
-        }
+    handleEvent(socket, 'join-note', async ({ noteId }) => {
+      // Verify user has access to this note
+      const note = await Note.findById(noteId);
+      if (!note || !(await canAccessNote(socket, note, 'read'))) {
+        throw createError('Access denied to this note', 403);
+      }
 
-        // Leave any existing note rooms
-        const currentRooms = Array.from(socket.rooms).filter(room => room !== socket.id);
-        currentRooms.forEach(room => {
-          if (room.startsWith('note:')) {
-            socket.leave(room);
-            handleUserLeaveRoom(room.replace('note:', ''), socket.user!.userId, io);
-          }
-        });
+      const roomName = `note:${noteId}`;
 
-        // Join the new note room
-        const roomName = `note:${noteId}`;
-        socket.join(roomName);
+      // Leave any other note rooms, a socket joining its room again keeps its place
+      const currentRooms = Array.from(socket.rooms).filter(
+        (room) => room.startsWith('note:') && room !== roomName
+      );
+      if (currentRooms.length > 0) resetPresence(socket);
+      await Promise.all(
+        currentRooms.map((room) => {
+          socket.leave(room);
+          return leaveNoteRoom(io, room.replace('note:', ''), socket.id);
+        })
+      );
 
-        // Update or create room info
-        if (!noteRooms.has(noteId)) {
-          noteRooms.set(noteId, {
-            noteId,
-            users: [],
-          });
-        }
+      const session = await openSession(noteId);
+      if (!session) {
+        throw createError('Note not found', 404);
+      }
 
-        const room = noteRooms.get(noteId)!;
-        const existingUserIndex = room.users.findIndex(u => u.userId === socket.user!.userId);
-        
-        if (existingUserIndex >= 0) {
-          // Update existing user's socket ID
-          room.users[existingUserIndex].socketId = socket.id;
-        } else {
-          // Add new user to room
-          room.users.push({
-            userId: socket.user!.userId,
-            username: socket.user!.username,
-            socketId: socket.id,
-          });
-        }
+      // Join the new note room
+      socket.join(roomName);
+
+      if (socket.presence?.noteId !== noteId) {
+        const now = Date.now();
+        socket.presence = {
+          noteId,
+          status: 'active',
+          typing: false,
+          lastActiveAt: now,
+          lastSeenAt: now,
+        };
+      }
 
-        // Notify other users in the room
+      // Presence is shared with the other instances
+      const presence = getPresence();
+      const wasActive = (await presence.list(noteId)).some(
+        (entry) => entry.userId === socket.user!.userId
+      );
+      await presence.add({
+        noteId,
+        userId: socket.user!.userId,
+        username: socket.user!.username,
+        socketId: socket.id,
+        instanceId,
+        status: socket.presence.status,
+        typing: socket.presence.typing,
+      });
+      const users = activeUsers(await presence.list(noteId));
+
+      // Notify other users in the room, another tab of someone already there only changes counts
+      if (wasActive) {
+        socket.to(roomName).emit('active-users-updated', { noteId, activeUsers: users });
+      } else {
         socket.to(roomName).emit('user-joined', {
           user: {
             userId: socket.user!.userId,
             username: socket.user!.username,
           },
-          activeUsers: room.users.map(u => ({ userId: u.userId, username: u.username })),
+          activeUsers: users,
         });
+      }
 
-        // Send current active users to the joining user
-        socket.emit('joined-note', {
-          noteId,
-          activeUsers: room.users.map(u => ({ userId: u.userId, username: u.username })),
-        });
+      // Send the live document and current active users to the joining user
+      const joined: JoinedNote = {
+        noteId,
+        title: session.title,
+        content: session.content,
+        format: session.format,
+        revision: session.revision,
+        activeUsers: users,
+      };
+      socket.emit('joined-note', joined);
 
-        console.log(`📝 User ${socket.user?.username} joined note ${noteId}`);
-      } catch (error) {
-        console.error('Error joining note:', error);
-        socket.emit('error', { message: 'Failed to join note' });
-      }
+      await recordActivity(
+        note,
+        socket.guest ? null : { userId: socket.user!.userId, username: socket.user!.username },
+        'note.joined',
+        socket.shareLink?.noteId === noteId ? { link: socket.shareLink.linkId } : {}
+      );
+
+      console.log(`📝 User ${socket.user?.username} joined note ${noteId}`);
+      return joined;
     });
 
     // Handle leaving a note room
-    socket.on('leave-note', (noteId: string) => {
+    handleEvent(socket, 'leave-note', async ({ noteId }) => {
       const roomName = `note:${noteId}`;
+      // Only this socket leaves, the user's other tabs stay in the room
+      if (!socket.rooms.has(roomName)) return;
+
+      resetPresence(socket);
       socket.leave(roomName);
-      handleUserLeaveRoom(noteId, socket.user!.userId, io);
+      await leaveNoteRoom(io, noteId, socket.id);
       console.log(`📝 User ${socket.user?.username} left note ${noteId}`);
     });
 
-    // Handle real-time note content updates
-    socket.on('note-update', async (data: { noteId: string; content: string; title?: string }) => {
-      try {
-        const { noteId, content, title } = data;
-        
-        // Verify user has write access
-        const note = await Note.findById(noteId);
-        if (!note || !note.isUserAuthorized(socket.user!.userId, 'write')) {
-          socket.emit('error', { message: 'Write access denied' });
-          return;
-        }
+    // Handle real-time note edits, sent as operations against a known revision
+    handleEvent(socket, 'note-update', async ({ noteId, revision, operation, title }) => {
+      // Only sockets that joined the note open a session for it
+      if (!socket.rooms.has(`note:${noteId}`)) {
+        throw createError('Join the note before editing it', 400);
+      }
+      if (!isValidOperation(operation)) {
+        throw createError('Invalid operation', 400);
+      }
 
-        // Broadcast the update to other users in the room (excluding sender)
-        const roomName = `note:${noteId}`;
-        socket.to(roomName).emit('note-updated', {
-          noteId,
-          content,
-          title,
-          modifiedBy: {
-            userId: socket.user!.userId,
-            username: socket.user!.username,
-          },
-          timestamp: new Date(),
-        });
+      // Verify user has write access
+      const note = await Note.findById(noteId);
+      if (!note || !(await canAccessNote(socket, note, 'write'))) {
+        throw createError('Write access denied', 403);
+      }
 
-        console.log(`📝 Note ${noteId} updated by ${socket.user?.username}`);
-      } catch (error) {
-        console.error('Error updating note:', error);
-        socket.emit('error', { message: 'Failed to update note' });
+      const session = await openSession(noteId);
+      if (!session) {
+        throw createError('Note not found', 404);
       }
+
+      const applied = await submitOperation(session, revision, operation, { title });
+      markDirty(session, editorOf(socket));
+
+      touchPresence(io, socket, noteId, true);
+
+      // Acknowledge the sender, then send the transformed operation to everyone else
+      const ack = { noteId, revision: applied.revision };
+      socket.emit('note-update-ack', ack);
+
+      const roomName = `note:${noteId}`;
+      socket.to(roomName).emit('note-updated', {
+        noteId,
+        revision: applied.revision,
+        operation: applied.operation,
+        title,
+        modifiedBy: {
+          userId: socket.user!.userId,
+          username: socket.user!.username,
+        },
+        timestamp: new Date(),
+      });
+
+      console.log(
+        `📝 Note ${noteId} updated by ${socket.user?.username} (rev ${applied.revision})`
+      );
+      return ack;
     });
 
     // Handle cursor position updates for collaborative editing
-    socket.on('cursor-update', (data: { noteId: string; position: number; selection?: { start: number; end: number } }) => {
-      const { noteId, position, selection } = data;
+    handleEvent(socket, 'cursor-update', ({ noteId, position, selection }) => {
       const roomName = `note:${noteId}`;
-      
+      // Only sockets that joined the note, and so may read it, show a cursor in it
+      if (!socket.rooms.has(roomName)) {
+        throw createError('Join the note before sending cursors', 400);
+      }
+      touchPresence(io, socket, noteId, true);
+
       socket.to(roomName).emit('cursor-updated', {
         user: {
           userId: socket.user!.userId,
@@ -156,49 +407,205 @@ export const setupSocketHandlers = (io: Server) => {
       });
     });
 
-    // Handle disconnection
-    socket.on('disconnect', () => {
+    // Typing indicators, typing-start is repeated while the user keeps typing
+    handleEvent(socket, 'typing-start', ({ noteId }) => {
+      setTyping(io, socket, noteId, true);
+    });
+
+    handleEvent(socket, 'typing-stop', ({ noteId }) => {
+      setTyping(io, socket, noteId, false);
+    });
+
+    // Sent periodically while the note is open, active when the user did something since the last one
+    handleEvent(socket, 'presence-heartbeat', ({ noteId, active }) => {
+      touchPresence(io, socket, noteId, active === true);
+    });
+
+    // Follow mode: the viewport of the followed user is sent to their followers
+    handleEvent(socket, 'follow-user', ({ noteId, userId }) => {
+      if (!socket.rooms.has(`note:${noteId}`)) {
+        throw createError('Join the note before following someone', 400);
+      }
+
+      unfollow(socket);
+      socket.join(followRoom(noteId, userId));
+    });
+
+    handleEvent(socket, 'unfollow-user', () => {
+      unfollow(socket);
+    });
+
+    handleEvent(socket, 'viewport-update', ({ noteId, from, to }) => {
+      if (!socket.rooms.has(`note:${noteId}`)) return;
+      touchPresence(io, socket, noteId, true);
+
+      socket.to(followRoom(noteId, socket.user!.userId)).emit('viewport-updated', {
+        noteId,
+        user: {
+          userId: socket.user!.userId,
+          username: socket.user!.username,
+        },
+        from,
+        to,
+      });
+    });
+
+    // Handle disconnection, while the socket still knows its rooms
+    socket.on('disconnecting', () => {
       console.log(`👤 User ${socket.user?.username} disconnected (${socket.id})`);
-      
+      resetPresence(socket);
+
       // Remove user from all note rooms
       const currentRooms = Array.from(socket.rooms).filter(room => room !== socket.id);
       currentRooms.forEach(room => {
         if (room.startsWith('note:')) {
-          handleUserLeaveRoom(room.replace('note:', ''), socket.user!.userId, io);
+          leaveNoteRoom(io, room.replace('note:', ''), socket.id);
         }
       });
-
-      // Remove from user sockets map
-      if (socket.user) {
-        userSockets.delete(socket.user.userId);
-      }
     });
   });
 };
 
-// Helper function to handle user leaving a room
-const handleUserLeaveRoom = (noteId: string, userId: string, io: Server) => {
-  const room = noteRooms.get(noteId);
-  if (!room) return;
+// Pushes a change of one connection's status or typing to the shared presence and the room
+const setPresence = async (
+  io: SocketServer,
+  socket: AuthenticatedSocket,
+  changes: PresenceChanges
+) => {
+  const local = socket.presence;
+  if (!local) return;
+
+  Object.assign(local, changes);
+  try {
+    await getPresence().update(local.noteId, socket.id, changes);
+    const user = activeUsers(await getPresence().list(local.noteId)).find(
+      (u) => u.userId === socket.user!.userId
+    );
+    if (user) {
+      io.to(`note:${local.noteId}`).emit('presence-updated', { noteId: local.noteId, user });
+    }
+  } catch (error) {
+    console.error(`Error updating presence in note ${local.noteId}:`, error);
+  }
+};
+
+const statusOf = (local: LocalPresence, now: number): PresenceStatus => {
+  if (now - local.lastSeenAt > config.sockets.awayAfterSeconds * 1000) return 'away';
+  if (now - local.lastActiveAt > config.sockets.idleAfterSeconds * 1000) return 'idle';
+  return 'active';
+};
 
-  // Remove user from room
-  room.users = room.users.filter(u => u.userId !== userId);
+// The client is still there, and did something if active
+const touchPresence = (
+  io: SocketServer,
+  socket: AuthenticatedSocket,
+  noteId: string,
+  active: boolean
+) => {
+  const local = socket.presence;
+  if (local?.noteId !== noteId) return;
 
-  // If room is empty, delete it
-  if (room.users.length === 0) {
-    noteRooms.delete(noteId);
+  const now = Date.now();
+  local.lastSeenAt = now;
+  if (active) local.lastActiveAt = now;
+
+  const status = statusOf(local, now);
+  if (status !== local.status) setPresence(io, socket, { status });
+};
+
+const setTyping = (
+  io: SocketServer,
+  socket: AuthenticatedSocket,
+  noteId: string,
+  typing: boolean
+) => {
+  const local = socket.presence;
+  if (local?.noteId !== noteId) return;
+
+  clearTimeout(local.typingTimer);
+  if (typing) {
+    touchPresence(io, socket, noteId, true);
+    // Clients that go quiet without typing-stop stop typing on their own
+    local.typingTimer = setTimeout(() => {
+      setTyping(io, socket, noteId, false);
+    }, config.sockets.typingTimeoutSeconds * 1000);
+  }
+  if (typing !== local.typing) setPresence(io, socket, { typing });
+};
+
+const unfollow = (socket: AuthenticatedSocket) => {
+  for (const room of socket.rooms) {
+    if (room.startsWith('follow:')) socket.leave(room);
+  }
+};
+
+// Forgets what the socket was doing in its note room
+const resetPresence = (socket: AuthenticatedSocket) => {
+  clearTimeout(socket.presence?.typingTimer);
+  socket.presence = undefined;
+  unfollow(socket);
+};
+
+// Moves quiet connections to idle, and those that stopped sending heartbeats to away
+export const startPresenceSweep = (io: SocketServer): NodeJS.Timeout => {
+  const timer = setInterval(() => {
+    const now = Date.now();
+    for (const socket of io.sockets.sockets.values() as Iterable<AuthenticatedSocket>) {
+      const local = socket.presence;
+      if (!local) continue;
+
+      const status = statusOf(local, now);
+      if (status !== local.status) setPresence(io, socket, { status });
+    }
+  }, PRESENCE_SWEEP_MS);
+  timer.unref();
+  return timer;
+};
+
+// Tells a room who left, or only the new counts when the user is still there from another socket
+const announceLeave = async (io: SocketServer, noteId: string, userId: string) => {
+  const users = activeUsers(await getPresence().list(noteId));
+  const room = io.to(`note:${noteId}`);
+
+  if (users.some((u) => u.userId === userId)) {
+    room.emit('active-users-updated', { noteId, activeUsers: users });
   } else {
-    // Notify remaining users
-    const roomName = `note:${noteId}`;
-    io.to(roomName).emit('user-left', {
-      userId,
-      activeUsers: room.users.map(u => ({ userId: u.userId, username: u.username })),
+    room.emit('user-left', { userId, activeUsers: users });
+  }
+};
+
+// Helper function to handle a socket leaving a room
+const leaveNoteRoom = async (io: SocketServer, noteId: string, socketId: string): Promise<void> => {
+  // Each instance with sockets in the room has its own session, saved once none of them are left
+  const local = io.sockets.adapter.rooms.get(`note:${noteId}`);
+  if (!local || [...local].every((id) => id === socketId)) {
+    closeSession(noteId).catch((error) => {
+      console.error(`Error saving note ${noteId}:`, error);
     });
   }
+
+  try {
+    const entry = await getPresence().remove(noteId, socketId);
+    if (entry) await announceLeave(io, noteId, entry.userId);
+  } catch (error) {
+    console.error(`Error updating presence in note ${noteId}:`, error);
+  }
+};
+
+// Announces the users of an instance that stopped, e.g. one that crashed
+export const announceStalePresence = async (io: SocketServer, entries: PresenceEntry[]) => {
+  const left = new Map(entries.map((entry) => [`${entry.noteId}:${entry.userId}`, entry]));
+  for (const { noteId, userId } of left.values()) {
+    await announceLeave(io, noteId, userId);
+  }
+};
+
+// Drops this instance's presence on shutdown, rather than waiting for it to go stale
+export const releasePresence = async (io: SocketServer) => {
+  await announceStalePresence(io, await getPresence().removeInstance(instanceId));
 };
 
 // Export function to get active users in a note (for API endpoints)
-export const getActiveUsersInNote = (noteId: string): SocketUser[] => {
-  const room = noteRooms.get(noteId);
-  return room ? room.users : [];
+export const getActiveUsersInNote = async (noteId: string) => {
+  return activeUsers(await getPresence().list(noteId));
 };
\ No newline at end of file
@@ -0,0 +1,120 @@
+import request from 'supertest';
+import { app } from '../index';
+import User from '../models/User';
+import Note from '../models/Note';
+import Activity from '../models/Activity';
+
+describe('Activity', () => {
+  let ownerToken: string;
+  let memberToken: string;
+  let memberId: string;
+  let noteId: string;
+
+  const login = async (username: string, email: string) => {
+    const user = await new User({
+      username,
+      email,
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'password123' });
+    return { token: response.body.data.token as string, id: user._id.toString() };
+  };
+
+  beforeEach(async () => {
+    ownerToken = (await login('owner', 'owner@example.com')).token;
+    ({ token: memberToken, id: memberId } = await login('member', 'member@example.com'));
+
+    const note = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ title: 'Plan', content: 'Draft' });
+    noteId = note.body.data.note._id;
+
+    await Note.updateOne(
+      { _id: noteId },
+      { $push: { collaborators: { user: memberId, role: 'write' } } }
+    );
+  });
+
+  const noteActivity = (token: string, query = '') => {
+    return request(app)
+      .get(`/api/notes/${noteId}/activity${query}`)
+      .set('Authorization', `Bearer ${token}`);
+  };
+
+  it('should record edits and title changes by who made them', async () => {
+    await request(app)
+      .put(`/api/notes/${noteId}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send({ title: 'Launch plan', content: 'Final' })
+      .expect(200);
+
+    const response = await noteActivity(ownerToken).expect(200);
+    const actions = response.body.data.activity.map((entry: { action: string }) => entry.action);
+    expect(actions).toEqual(['note.title-changed', 'note.updated', 'note.created']);
+
+    const titleChange = response.body.data.activity[0];
+    expect(titleChange.actorName).toBe('member');
+    expect(titleChange.details).toEqual({ from: 'Plan', to: 'Launch plan' });
+  });
+
+  it('should only show the log to the owner and admins', async () => {
+    await noteActivity(memberToken).expect(403);
+
+    await Note.updateOne({ _id: noteId }, { 'collaborators.0.role': 'admin' });
+    await noteActivity(memberToken).expect(200);
+  });
+
+  it('should filter and paginate', async () => {
+    for (const content of ['One', 'Two', 'Three']) {
+      await request(app)
+        .put(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ content });
+    }
+
+    const filtered = await noteActivity(ownerToken, '?action=note.updated&limit=2').expect(200);
+    expect(filtered.body.data.activity).toHaveLength(2);
+    expect(filtered.body.data.pagination.total).toBe(3);
+
+    await noteActivity(ownerToken, '?action=note.nothing').expect(400);
+    await noteActivity(ownerToken, `?actor=${memberId}`).expect(200);
+    await noteActivity(ownerToken, '?from=yesterday').expect(400);
+  });
+
+  it('should keep the trail of deleted notes in the account feed', async () => {
+    await request(app)
+      .delete(`/api/notes/${noteId}/collaborators/${memberId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    await request(app)
+      .delete(`/api/notes/${noteId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    const response = await request(app)
+      .get('/api/activity')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    const actions = response.body.data.activity.map((entry: { action: string }) => entry.action);
+    expect(actions).toEqual(['note.deleted', 'collaborator.removed', 'note.created']);
+    expect(response.body.data.activity[0].noteTitle).toBe('Plan');
+
+    // The removed collaborator sees nothing they did not do
+    const member = await request(app)
+      .get('/api/activity')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+    expect(member.body.data.activity).toHaveLength(0);
+  });
+
+  it('should not allow entries to be changed', async () => {
+    await expect(
+      Activity.updateOne({ note: noteId }, { actorName: 'someone else' })
+    ).rejects.toThrow('Activity entries cannot be changed');
+  });
+});
\ No newline at end of file
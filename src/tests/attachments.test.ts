@@ -0,0 +1,159 @@
+import request from 'supertest';
+import sharp from 'sharp';
+import { app } from '../index';
+import User from '../models/User';
+import Note from '../models/Note';
+import { config } from '../config/config';
+import Attachment from '../models/Attachment';
+import { deleteAttachment } from '../services/attachmentService';
+import { storedFiles } from '../services/storageService';
+
+describe('Attachments', () => {
+  let ownerToken: string;
+  let readerToken: string;
+  let ownerId: string;
+  let noteId: string;
+  let image: Buffer;
+
+  const login = async (username: string, email: string) => {
+    const user = await new User({
+      username,
+      email,
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'password123' });
+    return { token: response.body.data.token as string, id: user._id.toString() };
+  };
+
+  beforeAll(async () => {
+    image = await sharp({
+      create: { width: 800, height: 400, channels: 3, background: '#3366ff' },
+    })
+      .png()
+      .toBuffer();
+  });
+
+  beforeEach(async () => {
+    storedFiles.clear();
+    ({ token: ownerToken, id: ownerId } = await login('owner', 'owner@example.com'));
+    const reader = await login('reader', 'reader@example.com');
+    readerToken = reader.token;
+
+    const note = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ title: 'Plan', content: 'Draft' });
+    noteId = note.body.data.note._id;
+
+    await Note.updateOne(
+      { _id: noteId },
+      { $push: { collaborators: { user: reader.id, role: 'read' } } }
+    );
+  });
+
+  const upload = (file: Buffer, filename: string, contentType: string, token = ownerToken) => {
+    return request(app)
+      .post(`/api/notes/${noteId}/attachments`)
+      .set('Authorization', `Bearer ${token}`)
+      .attach('file', file, { filename, contentType });
+  };
+
+  it('should store an image with a thumbnail and let collaborators download it', async () => {
+    const response = await upload(image, 'diagram.png', 'image/png').expect(201);
+    const { attachment } = response.body.data;
+    expect(attachment.hasThumbnail).toBe(true);
+    expect(attachment.width).toBe(800);
+    expect(attachment.storageKey).toBeUndefined();
+
+    const file = await request(app)
+      .get(`/api/notes/${noteId}/attachments/${attachment._id}`)
+      .set('Authorization', `Bearer ${readerToken}`)
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      })
+      .expect(200);
+    expect(file.headers['content-disposition']).toContain('diagram.png');
+    expect(Buffer.compare(file.body, image)).toBe(0);
+
+    const thumbnail = await request(app)
+      .get(`/api/notes/${noteId}/attachments/${attachment._id}/thumbnail`)
+      .set('Authorization', `Bearer ${readerToken}`)
+      .expect(200);
+    expect(thumbnail.headers['content-type']).toBe('image/webp');
+    const { width } = await sharp(thumbnail.body).metadata();
+    expect(width).toBe(config.attachments.thumbnailSize);
+  });
+
+  it('should only let writers upload', async () => {
+    await upload(Buffer.from('hello'), 'hello.txt', 'text/plain', readerToken).expect(403);
+
+    const response = await upload(Buffer.from('hello'), 'hello.txt', 'text/plain').expect(201);
+    expect(response.body.data.attachment.hasThumbnail).toBe(false);
+  });
+
+  it('should reject files that are not allowed', async () => {
+    await upload(Buffer.from('MZ'), 'tool.exe', 'application/x-msdownload').expect(415);
+    await upload(Buffer.from('not a picture'), 'fake.png', 'image/png').expect(400);
+    await request(app)
+      .post(`/api/notes/${noteId}/attachments`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(400);
+  });
+
+  it('should account for storage and enforce the quota', async () => {
+    const response = await upload(image, 'diagram.png', 'image/png').expect(201);
+    const { attachment } = response.body.data;
+
+    const usage = await request(app)
+      .get('/api/users/me/storage')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(usage.body.data.storage.used).toBe(image.length);
+
+    await User.updateOne({ _id: ownerId }, { storageUsed: config.storage.quotaBytes - 1 });
+    await upload(Buffer.from('hello'), 'hello.txt', 'text/plain').expect(413);
+
+    await request(app)
+      .delete(`/api/notes/${noteId}/attachments/${attachment._id}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    const user = await User.findById(ownerId);
+    expect(user!.storageUsed).toBe(config.storage.quotaBytes - 1 - image.length);
+  });
+
+  it('should give the space back once when an attachment is deleted twice', async () => {
+    const response = await upload(image, 'diagram.png', 'image/png').expect(201);
+    const attachment = await Attachment.findById(response.body.data.attachment._id).select(
+      '+storageKey +thumbnailKey'
+    );
+
+    await Promise.all([deleteAttachment(attachment!), deleteAttachment(attachment!)]);
+    expect((await User.findById(ownerId))!.storageUsed).toBe(0);
+    expect(storedFiles.size).toBe(0);
+  });
+
+  it('should remove files when the note is purged from the trash', async () => {
+    await upload(image, 'diagram.png', 'image/png').expect(201);
+    expect(storedFiles.size).toBe(2);
+
+    await request(app)
+      .delete(`/api/notes/${noteId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    // Trashed notes keep their files so they can be restored
+    expect(storedFiles.size).toBe(2);
+
+    await request(app)
+      .delete(`/api/notes/trash/${noteId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(storedFiles.size).toBe(0);
+    expect((await User.findById(ownerId))!.storageUsed).toBe(0);
+  });
+});
\ No newline at end of file
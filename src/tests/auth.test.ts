@@ -1,6 +1,7 @@
 import request from 'supertest';
 import { app } from '../index';
 import User from '../models/User';
+import { sentMail } from '../services/mailService';
 
 describe('Authentication', () => {
   describe('POST /api/auth/register', () => {
@@ -154,4 +155,185 @@ describe('Authentication', () => {
       expect(response.body.message).toContain('Invalid or expired token');
     });
   });
+
+  describe('Sessions', () => {
+    let token: string;
+    let refreshToken: string;
+
+    beforeEach(async () => {
+      const registerResponse = await request(app).post('/api/auth/register').send({
+        username: 'testuser',
+        email: 'test@example.com',
+        password: 'password123',
+      });
+
+      token = registerResponse.body.data.token;
+      refreshToken = registerResponse.body.data.refreshToken;
+    });
+
+    it('should rotate the refresh token', async () => {
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      expect(response.body.data.token).toBeDefined();
+      expect(response.body.data.refreshToken).not.toBe(refreshToken);
+    });
+
+    it('should revoke the session when a refresh token is reused', async () => {
+      const first = await request(app).post('/api/auth/refresh').send({ refreshToken });
+
+      await request(app).post('/api/auth/refresh').send({ refreshToken }).expect(401);
+
+      // The token from the legitimate refresh is revoked along with the session
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: first.body.data.refreshToken })
+        .expect(401);
+    });
+
+    it('should let only one of two concurrent refreshes through', async () => {
+      const responses = await Promise.all([
+        request(app).post('/api/auth/refresh').send({ refreshToken }),
+        request(app).post('/api/auth/refresh').send({ refreshToken }),
+      ]);
+      expect(responses.map((r) => r.status).sort()).toEqual([200, 401]);
+
+      // The race counts as reuse, so the winner's token is revoked too
+      const winner = responses.find((r) => r.status === 200)!;
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: winner.body.data.refreshToken })
+        .expect(401);
+    });
+
+    it('should reject access tokens after logout', async () => {
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(401);
+
+      expect(response.body.message).toContain('Session has been revoked');
+    });
+
+    it('should list and revoke other sessions', async () => {
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'password123' });
+      const otherToken = login.body.data.token;
+
+      const list = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      const sessions = list.body.data.sessions;
+      expect(sessions).toHaveLength(2);
+      expect(sessions.filter((s: { current: boolean }) => s.current)).toHaveLength(1);
+
+      await request(app)
+        .delete('/api/auth/sessions')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .expect(401);
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+    });
+  });
+
+  describe('Password reset and email verification', () => {
+    let token: string;
+
+    // Links in the emails end with "?token=<token>"
+    const lastMailToken = (subject: string): string => {
+      const mail = sentMail.filter((m) => m.subject === subject).pop();
+      return mail?.text.match(/token=(\S+)/)?.[1] ?? '';
+    };
+
+    beforeEach(async () => {
+      sentMail.length = 0;
+
+      const registerResponse = await request(app).post('/api/auth/register').send({
+        username: 'testuser',
+        email: 'test@example.com',
+        password: 'password123',
+      });
+
+      token = registerResponse.body.data.token;
+    });
+
+    it('should reset the password once with the emailed token', async () => {
+      await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'test@example.com' })
+        .expect(200);
+
+      const resetToken = lastMailToken('Reset your password');
+      expect(resetToken).not.toBe('');
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: resetToken, password: 'newpassword123' })
+        .expect(200);
+
+      // Old sessions are signed out and the old password no longer works
+      await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(401);
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'password123' })
+        .expect(401);
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'test@example.com', password: 'newpassword123' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: resetToken, password: 'anotherpassword' })
+        .expect(400);
+    });
+
+    it('should not reveal whether an email is registered', async () => {
+      const response = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'nobody@example.com' })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(sentMail.filter((m) => m.to === 'nobody@example.com')).toHaveLength(0);
+    });
+
+    it('should verify the email address', async () => {
+      await request(app)
+        .post('/api/auth/resend-verification')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      const verifyToken = lastMailToken('Verify your email address');
+
+      const response = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: verifyToken })
+        .expect(200);
+
+      expect(response.body.data.user.emailVerified).toBe(true);
+
+      await request(app).post('/api/auth/verify-email').send({ token: verifyToken }).expect(400);
+    });
+  });
 });
\ No newline at end of file
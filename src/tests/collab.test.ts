@@ -0,0 +1,108 @@
+import mongoose from 'mongoose';
+import Note from '../models/Note';
+import {
+  openSession,
+  submitOperation,
+  markDirty,
+  flushSession,
+  closeSession,
+  getSession,
+  loadLiveState,
+} from '../services/collabService';
+import { getOperationLog } from '../services/operationLogService';
+import { listVersions } from '../services/versionService';
+
+describe('Live editing sessions', () => {
+  let noteId: string;
+  const userId = new mongoose.Types.ObjectId().toString();
+  const editor = { userId, username: 'editor' };
+
+  beforeEach(async () => {
+    const note = await Note.create({
+      title: 'Live Note',
+      content: 'hello',
+      owner: userId,
+    });
+    noteId = note._id.toString();
+  });
+
+  afterEach(async () => {
+    await closeSession(noteId);
+  });
+
+  it('should load the note content and revision', async () => {
+    const session = await openSession(noteId);
+
+    expect(session?.content).toBe('hello');
+    expect(session?.revision).toBe(0);
+  });
+
+  it('should save pending edits and record a version', async () => {
+    const session = (await openSession(noteId))!;
+    await submitOperation(session, 0, [5, ' world']);
+    markDirty(session, editor);
+
+    await flushSession(noteId);
+
+    const note = await Note.findById(noteId);
+    expect(note?.content).toBe('hello world');
+    expect(note?.revision).toBe(1);
+
+    const versions = await listVersions(noteId);
+    expect(versions).toHaveLength(1);
+    expect(versions[0].content).toBe('hello');
+    expect(session.dirty).toBe(false);
+  });
+
+  it('should save and drop the session when it is closed', async () => {
+    const session = (await openSession(noteId))!;
+    await submitOperation(session, 0, ['Oh, ', 5]);
+    markDirty(session, editor);
+
+    await closeSession(noteId);
+
+    const note = await Note.findById(noteId);
+    expect(note?.content).toBe('Oh, hello');
+    expect(getSession(noteId)).toBeUndefined();
+  });
+
+  it('should not replace a later revision saved by another instance', async () => {
+    const session = (await openSession(noteId))!;
+    await submitOperation(session, 0, [5, '!']);
+    markDirty(session, editor);
+
+    await Note.updateOne({ _id: noteId }, { content: 'hello there!', revision: 2 });
+    await flushSession(noteId);
+
+    const note = await Note.findById(noteId);
+    expect(note?.content).toBe('hello there!');
+    expect(note?.revision).toBe(2);
+    expect(await listVersions(noteId)).toHaveLength(0);
+  });
+
+  it('should read unsaved edits logged by another instance', async () => {
+    await getOperationLog().append(noteId, { revision: 1, operation: [5, '!'], title: 'Live' });
+
+    const state = await loadLiveState(noteId, (await Note.findById(noteId))!);
+    expect(state).toMatchObject({ content: 'hello!', title: 'Live', revision: 1, historyStart: 0 });
+    expect(getSession(noteId)).toBeUndefined();
+  });
+
+  it('should keep the session and retry when the final save fails', async () => {
+    const session = (await openSession(noteId))!;
+    await submitOperation(session, 0, [5, '!']);
+    markDirty(session, editor);
+
+    jest.spyOn(Note, 'findById').mockRejectedValueOnce(new Error('connection lost'));
+    await expect(closeSession(noteId)).rejects.toThrow('connection lost');
+
+    expect(getSession(noteId)).toBe(session);
+    expect(session.dirty).toBe(true);
+    expect(session.maxWaitTimer).toBeDefined();
+
+    // The retry saves it and drops the session
+    await closeSession(noteId);
+    expect((await Note.findById(noteId))?.content).toBe('hello!');
+    expect(getSession(noteId)).toBeUndefined();
+  });
+});
\ No newline at end of file
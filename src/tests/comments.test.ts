@@ -0,0 +1,188 @@
+import request from 'supertest';
+import { app } from '../index';
+import User from '../models/User';
+import Note from '../models/Note';
+import Comment from '../models/Comment';
+import { currentRange } from '../services/commentService';
+
+describe('Comments', () => {
+  let ownerToken: string;
+  let memberToken: string;
+  let noteId: string;
+
+  const login = async (username: string, email: string) => {
+    await new User({ username, email, password: 'password123', emailVerified: true }).save();
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'password123' });
+    return response.body.data.token as string;
+  };
+
+  beforeEach(async () => {
+    ownerToken = await login('owner', 'owner@example.com');
+    memberToken = await login('member', 'member@example.com');
+
+    const note = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ title: 'Plan', content: 'Ship the release on Friday' });
+    noteId = note.body.data.note._id;
+
+    const member = await User.findOne({ email: 'member@example.com' });
+    await Note.updateOne(
+      { _id: noteId },
+      { $push: { collaborators: { user: member!._id, role: 'comment' } } }
+    );
+  });
+
+  const comment = async (token: string, body: string, start: number, end: number) => {
+    const response = await request(app)
+      .post(`/api/notes/${noteId}/comments`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ body, anchor: { start, end } });
+    return response;
+  };
+
+  it('should start a thread on a range and list it with replies', async () => {
+    const created = await comment(memberToken, 'Which Friday?', 20, 26);
+    expect(created.status).toBe(201);
+    expect(created.body.data.comment.anchor.quote).toBe('Friday');
+
+    await request(app)
+      .post(`/api/notes/${noteId}/comments/${created.body.data.comment._id}/replies`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ body: 'The 14th' })
+      .expect(201);
+
+    const response = await request(app)
+      .get(`/api/notes/${noteId}/comments`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    expect(response.body.data.comments).toHaveLength(1);
+    expect(response.body.data.comments[0].author.username).toBe('member');
+    expect(response.body.data.comments[0].replies[0].body).toBe('The 14th');
+  });
+
+  it('should reject ranges outside of the content and readers', async () => {
+    const outside = await comment(ownerToken, 'Too far', 20, 200);
+    expect(outside.status).toBe(400);
+
+    await Note.updateOne({ _id: noteId }, { 'collaborators.0.role': 'read' });
+    const reader = await comment(memberToken, 'Hello', 0, 4);
+    expect(reader.status).toBe(403);
+  });
+
+  it('should move anchors along when the content changes', async () => {
+    await comment(memberToken, 'Which Friday?', 20, 26);
+
+    await request(app)
+      .put(`/api/notes/${noteId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ content: 'Please ship the release on Friday' })
+      .expect(200);
+
+    const thread = await Comment.findOne({ note: noteId });
+    expect(thread!.anchor!.start).toBe(27);
+    expect(thread!.anchor!.end).toBe(33);
+
+    const response = await request(app)
+      .get(`/api/notes/${noteId}/comments`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+    expect(response.body.data.comments[0].anchor.start).toBe(27);
+  });
+
+  it('should resolve and reopen threads', async () => {
+    const created = await comment(memberToken, 'Typo', 0, 4);
+    const commentId = created.body.data.comment._id;
+
+    await request(app)
+      .post(`/api/notes/${noteId}/comments/${commentId}/resolve`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    const open = await request(app)
+      .get(`/api/notes/${noteId}/comments`)
+      .set('Authorization', `Bearer ${ownerToken}`);
+    expect(open.body.data.comments).toHaveLength(0);
+
+    const resolved = await request(app)
+      .get(`/api/notes/${noteId}/comments?status=resolved`)
+      .set('Authorization', `Bearer ${ownerToken}`);
+    expect(resolved.body.data.comments[0].resolvedBy.username).toBe('owner');
+
+    await request(app)
+      .post(`/api/notes/${noteId}/comments/${commentId}/reopen`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+
+    const reopened = await Comment.findById(commentId);
+    expect(reopened!.resolved).toBe(false);
+  });
+
+  it('should only let authors edit, and keep threads with replies when deleted', async () => {
+    const created = await comment(memberToken, 'Typo', 0, 4);
+    const commentId = created.body.data.comment._id;
+
+    await request(app)
+      .put(`/api/notes/${noteId}/comments/${commentId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ body: 'Not mine' })
+      .expect(403);
+
+    const edited = await request(app)
+      .put(`/api/notes/${noteId}/comments/${commentId}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send({ body: 'Typo here' })
+      .expect(200);
+    expect(edited.body.data.comment.editedAt).toBeDefined();
+
+    const reply = await request(app)
+      .post(`/api/notes/${noteId}/comments/${commentId}/replies`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ body: 'Fixed' });
+
+    await request(app)
+      .delete(`/api/notes/${noteId}/comments/${commentId}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+
+    const list = await request(app)
+      .get(`/api/notes/${noteId}/comments`)
+      .set('Authorization', `Bearer ${ownerToken}`);
+    expect(list.body.data.comments[0].deleted).toBe(true);
+    expect(list.body.data.comments[0].body).toBe('');
+
+    // The owner can delete any comment, the blanked thread goes with its last reply
+    await request(app)
+      .delete(`/api/notes/${noteId}/comments/${reply.body.data.comment._id}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(await Comment.countDocuments({ note: noteId })).toBe(0);
+  });
+
+  describe('currentRange', () => {
+    const anchor = { start: 4, end: 9, quote: 'quick', revision: 1 };
+
+    it('should map anchors through the kept history', () => {
+      const doc = {
+        content: 'The very quick fox',
+        revision: 2,
+        history: [[4, 'very ', 9]],
+        historyStart: 1,
+      };
+      expect(currentRange(anchor, doc)).toEqual({ start: 9, end: 14 });
+    });
+
+    it('should look for the quote when the history is gone', () => {
+      const doc = { content: 'A quick fox, quick!', revision: 5, history: [], historyStart: 5 };
+      expect(currentRange(anchor, doc)).toEqual({ start: 2, end: 7 });
+    });
+
+    it('should collapse anchors whose text was removed', () => {
+      const doc = { content: 'Fox', revision: 5, history: [], historyStart: 5 };
+      expect(currentRange(anchor, doc)).toEqual({ start: 3, end: 3 });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,132 @@
+import request from 'supertest';
+import JSZip from 'jszip';
+import { app } from '../index';
+import User from '../models/User';
+import Note from '../models/Note';
+
+describe('Exports', () => {
+  let ownerToken: string;
+  let memberToken: string;
+  let noteId: string;
+
+  const login = async (username: string, email: string) => {
+    const user = await new User({
+      username,
+      email,
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'password123' });
+    return { token: response.body.data.token as string, id: user._id };
+  };
+
+  beforeEach(async () => {
+    ownerToken = (await login('owner', 'owner@example.com')).token;
+    const member = await login('member', 'member@example.com');
+    memberToken = member.token;
+
+    const note = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ title: 'Plan <v1>', content: 'Draft', tags: ['work'] });
+    noteId = note.body.data.note._id;
+
+    await request(app)
+      .put(`/api/notes/${noteId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ content: 'Final' });
+    await Note.updateOne(
+      { _id: noteId },
+      { $push: { collaborators: { user: member.id, role: 'read' } } }
+    );
+  });
+
+  const exportNote = (format: string, token = ownerToken) => {
+    return request(app)
+      .get(`/api/notes/${noteId}/export?format=${format}`)
+      .set('Authorization', `Bearer ${token}`);
+  };
+
+  it('should export a note as Markdown with front matter', async () => {
+    const response = await exportNote('md', memberToken).expect(200);
+
+    expect(response.headers['content-disposition']).toContain('Plan _v1_.md');
+    expect(response.text).toMatch(/^---\ntitle: "Plan <v1>"\ntags: \["work"\]\nowner: "owner"\n/);
+    expect(response.text).toContain('collaborators: [{"username":"member","role":"read"}]');
+    expect(response.text.endsWith('---\n\nFinal')).toBe(true);
+  });
+
+  it('should escape the note in HTML exports', async () => {
+    const response = await exportNote('html').expect(200);
+
+    expect(response.headers['content-type']).toContain('text/html');
+    expect(response.text).toContain('<title>Plan &lt;v1&gt;</title>');
+    expect(response.text).toContain('<meta name="keywords" content="work">');
+  });
+
+  it('should include the version history in JSON exports', async () => {
+    const response = await exportNote('json').expect(200);
+    const exported = JSON.parse(response.text);
+
+    expect(exported.content).toBe('Final');
+    expect(exported.versions).toHaveLength(1);
+    expect(exported.versions[0]).toMatchObject({ content: 'Draft', modifiedBy: 'owner' });
+  });
+
+  it('should check access and the format', async () => {
+    const stranger = await login('stranger', 'stranger@example.com');
+    await exportNote('md', stranger.token).expect(403);
+    await exportNote('pdf').expect(400);
+  });
+
+  it('should build an account archive in the background', async () => {
+    await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send({ title: 'Plan <v1>', content: 'Mine' });
+
+    const started = await request(app)
+      .post('/api/exports')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send({ format: 'md', includeShared: true })
+      .expect(202);
+    const exportId = started.body.data.export._id;
+
+    let status = started.body.data.export.status;
+    for (let i = 0; i < 50 && ['pending', 'running'].includes(status); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      const job = await request(app)
+        .get(`/api/exports/${exportId}`)
+        .set('Authorization', `Bearer ${memberToken}`);
+      status = job.body.data.export.status;
+    }
+    expect(status).toBe('completed');
+
+    // Only the user who asked for it can download it
+    await request(app)
+      .get(`/api/exports/${exportId}/download`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(404);
+
+    const download = await request(app)
+      .get(`/api/exports/${exportId}/download`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      })
+      .expect(200);
+
+    const zip = await JSZip.loadAsync(download.body);
+    const files = Object.values(zip.files).filter((file) => !file.dir);
+    expect(files.map((file) => file.name).sort()).toEqual([
+      'notes/Plan _v1_.md',
+      'shared/Plan _v1_.md',
+    ]);
+    expect(await zip.file('shared/Plan _v1_.md')!.async('string')).toContain('owner: "owner"');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,156 @@
+import request from 'supertest';
+import { app } from '../index';
+import User from '../models/User';
+import Folder from '../models/Folder';
+
+describe('Folders', () => {
+  let ownerToken: string;
+  let memberToken: string;
+
+  beforeEach(async () => {
+    await new User({
+      username: 'owner',
+      email: 'owner@example.com',
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+    await new User({
+      username: 'member',
+      email: 'member@example.com',
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+
+    const ownerLogin = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'owner@example.com', password: 'password123' });
+    const memberLogin = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'member@example.com', password: 'password123' });
+
+    ownerToken = ownerLogin.body.data.token;
+    memberToken = memberLogin.body.data.token;
+  });
+
+  const createFolder = async (name: string, parent?: string) => {
+    const response = await request(app)
+      .post('/api/folders')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ name, parent })
+      .expect(201);
+    return response.body.data.folder;
+  };
+
+  const createNote = async (title: string, folder?: string) => {
+    const response = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ title, content: 'Content', folder })
+      .expect(201);
+    return response.body.data.note;
+  };
+
+  it('should give folder collaborators access to notes in subfolders', async () => {
+    const team = await createFolder('Team');
+    const specs = await createFolder('Specs', team._id);
+    const note = await createNote('Spec', specs._id);
+
+    await request(app)
+      .get(`/api/notes/${note._id}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(403);
+
+    await request(app)
+      .post(`/api/folders/${team._id}/collaborators`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ email: 'member@example.com', role: 'read' })
+      .expect(200);
+
+    await request(app)
+      .get(`/api/notes/${note._id}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+    await request(app)
+      .put(`/api/notes/${note._id}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send({ content: 'Changed' })
+      .expect(403);
+
+    const list = await request(app)
+      .get('/api/notes')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+    expect(list.body.data.notes).toHaveLength(1);
+  });
+
+  it('should move notes and folders', async () => {
+    const archive = await createFolder('Archive');
+    const projects = await createFolder('Projects');
+    const child = await createFolder('Old', projects._id);
+    const note = await createNote('Loose');
+
+    await request(app)
+      .put(`/api/notes/${note._id}/folder`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ folder: archive._id })
+      .expect(200);
+
+    await request(app)
+      .post(`/api/folders/${projects._id}/move`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ parent: archive._id })
+      .expect(200);
+
+    const moved = await Folder.findById(child._id);
+    expect(moved!.ancestors.map(String)).toEqual([archive._id, projects._id]);
+
+    // A folder cannot end up inside its own subtree
+    await request(app)
+      .post(`/api/folders/${archive._id}/move`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ parent: child._id })
+      .expect(400);
+  });
+
+  it('should page through folder contents, subfolders first', async () => {
+    const parent = await createFolder('Parent');
+    await createFolder('A', parent._id);
+    await createFolder('B', parent._id);
+    await createNote('First', parent._id);
+    await createNote('Second', parent._id);
+
+    const firstPage = await request(app)
+      .get(`/api/folders/${parent._id}/contents?limit=3`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    expect(firstPage.body.data.folders.map((f: { name: string }) => f.name)).toEqual(['A', 'B']);
+    expect(firstPage.body.data.notes).toHaveLength(1);
+    expect(firstPage.body.data.pagination.total).toBe(4);
+
+    const secondPage = await request(app)
+      .get(`/api/folders/${parent._id}/contents?limit=3&page=2`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    expect(secondPage.body.data.folders).toHaveLength(0);
+    expect(secondPage.body.data.notes).toHaveLength(1);
+
+    for (const query of ['limit=0', 'limit=101', 'page=0', 'page=-1', 'page=two']) {
+      await request(app)
+        .get(`/api/folders/${parent._id}/contents?${query}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(400);
+    }
+  });
+
+  it('should only delete empty folders', async () => {
+    const folder = await createFolder('Full');
+    await createNote('Inside', folder._id);
+
+    await request(app)
+      .delete(`/api/folders/${folder._id}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(400);
+  });
+});
\ No newline at end of file
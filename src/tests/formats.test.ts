@@ -0,0 +1,146 @@
+import request from 'supertest';
+import { app } from '../index';
+import User from '../models/User';
+import Note from '../models/Note';
+
+describe('Content formats', () => {
+  let token: string;
+
+  const richText = {
+    type: 'doc',
+    content: [
+      { type: 'heading', attrs: { level: 1 }, content: [{ type: 'text', text: 'Roadmap' }] },
+      {
+        type: 'paragraph',
+        content: [
+          { type: 'text', text: 'Ship the ' },
+          { type: 'text', text: 'beta', marks: [{ type: 'bold' }] },
+          {
+            type: 'text',
+            text: ' docs',
+            marks: [{ type: 'link', attrs: { href: 'https://example.com' } }],
+          },
+        ],
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    await new User({
+      username: 'owner',
+      email: 'owner@example.com',
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'owner@example.com', password: 'password123' });
+    token = response.body.data.token;
+  });
+
+  const createNote = (body: object) => {
+    return request(app).post('/api/notes').set('Authorization', `Bearer ${token}`).send(body);
+  };
+
+  const render = (noteId: string) => {
+    return request(app).get(`/api/notes/${noteId}/render`).set('Authorization', `Bearer ${token}`);
+  };
+
+  it('should default to plain text', async () => {
+    const response = await createNote({ title: 'Plain', content: 'a < b\n\nnext' }).expect(201);
+    expect(response.body.data.note.format).toBe('plain');
+
+    const rendered = await render(response.body.data.note._id).expect(200);
+    expect(rendered.body.data).toEqual({ format: 'plain', html: '<p>a &lt; b</p>\n<p>next</p>' });
+  });
+
+  it('should render Markdown without scripts or unsafe links', async () => {
+    const content = '# Title\n\n**bold** [bad](javascript:alert(1)) <script>alert(1)</script>';
+    const response = await createNote({ title: 'Doc', content, format: 'markdown' }).expect(201);
+
+    const { html } = (await render(response.body.data.note._id).expect(200)).body.data;
+    expect(html).toContain('<h1>Title</h1>');
+    expect(html).toContain('<strong>bold</strong>');
+    expect(html).not.toContain('javascript:');
+    expect(html).not.toContain('<script');
+  });
+
+  it('should render rich text documents', async () => {
+    const response = await createNote({
+      title: 'Roadmap',
+      content: JSON.stringify(richText),
+      format: 'richtext-json',
+    }).expect(201);
+
+    const { html } = (await render(response.body.data.note._id).expect(200)).body.data;
+    expect(html).toBe(
+      '<h1>Roadmap</h1><p>Ship the <strong>beta</strong>' +
+        '<a href="https://example.com" rel="noopener noreferrer nofollow"> docs</a></p>'
+    );
+  });
+
+  it('should reject rich text that does not match the schema', async () => {
+    const invalid = { type: 'doc', content: [{ type: 'script', text: 'alert(1)' }] };
+    const response = await createNote({
+      title: 'Bad',
+      content: JSON.stringify(invalid),
+      format: 'richtext-json',
+    }).expect(400);
+    expect(response.body.message).toContain('"content[0].type" must be one of');
+
+    await createNote({ title: 'Bad', content: 'not json', format: 'richtext-json' }).expect(400);
+  });
+
+  it('should check the current content when only the format changes', async () => {
+    const response = await createNote({ title: 'Plain', content: 'Just words' }).expect(201);
+
+    await request(app)
+      .put(`/api/notes/${response.body.data.note._id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ format: 'richtext-json' })
+      .expect(400);
+  });
+
+  it('should search the words of a note rather than its markup', async () => {
+    await Note.init();
+    await createNote({
+      title: 'Roadmap',
+      content: JSON.stringify(richText),
+      format: 'richtext-json',
+    }).expect(201);
+
+    const search = (term: string) => {
+      return request(app)
+        .get(`/api/notes?search=${term}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+    };
+
+    expect((await search('beta')).body.data.notes).toHaveLength(1);
+    expect((await search('paragraph')).body.data.notes).toHaveLength(0);
+  });
+
+  it('should restore the format of a version', async () => {
+    const created = await createNote({ title: 'Doc', content: '# Heading', format: 'markdown' });
+    const noteId = created.body.data.note._id;
+
+    await request(app)
+      .put(`/api/notes/${noteId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ content: JSON.stringify(richText), format: 'richtext-json' })
+      .expect(200);
+
+    const versions = await request(app)
+      .get(`/api/notes/${noteId}/versions`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    const [version] = versions.body.data.versions;
+    expect(version.format).toBe('markdown');
+
+    const restored = await request(app)
+      .post(`/api/notes/${noteId}/versions/${version._id}/restore`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(restored.body.data.note).toMatchObject({ content: '# Heading', format: 'markdown' });
+  });
+});
\ No newline at end of file
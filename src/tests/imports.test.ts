@@ -0,0 +1,140 @@
+import request from 'supertest';
+import JSZip from 'jszip';
+import { app } from '../index';
+import User from '../models/User';
+import Note from '../models/Note';
+
+describe('Imports', () => {
+  let token: string;
+
+  beforeEach(async () => {
+    await new User({
+      username: 'owner',
+      email: 'owner@example.com',
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'owner@example.com', password: 'password123' });
+    token = response.body.data.token;
+  });
+
+  const upload = (file: Buffer, filename: string) => {
+    return request(app)
+      .post('/api/notes/import')
+      .set('Authorization', `Bearer ${token}`)
+      .attach('file', file, { filename, contentType: 'application/octet-stream' });
+  };
+
+  // Polls a background import until it is done
+  const finished = async (importId: string) => {
+    for (let i = 0; i < 50; i++) {
+      const response = await request(app)
+        .get(`/api/notes/import/${importId}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+      if (!['pending', 'running'].includes(response.body.data.import.status)) {
+        return response.body.data.import;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    throw new Error('Import did not finish');
+  };
+
+  it('should import a Markdown file with its front matter', async () => {
+    const markdown = [
+      '---',
+      'title: Launch plan',
+      'tags: [Work, launch]',
+      'created: 2023-05-01T10:00:00Z',
+      'updated: 2023-06-01T10:00:00Z',
+      '---',
+      '',
+      '# Goals',
+    ].join('\n');
+
+    const response = await upload(Buffer.from(markdown), 'plan.md').expect(201);
+    const job = response.body.data.import;
+    expect(job.status).toBe('completed');
+    expect(job.results).toEqual([
+      { file: 'plan.md', status: 'imported', note: expect.any(String) },
+    ]);
+
+    const note = await Note.findById(job.results[0].note);
+    expect(note!.title).toBe('Launch plan');
+    expect(note!.content).toBe('# Goals');
+    expect(note!.tags).toEqual(['work', 'launch']);
+    expect(note!.createdAt.toISOString()).toBe('2023-05-01T10:00:00.000Z');
+    expect(note!.updatedAt.toISOString()).toBe('2023-06-01T10:00:00.000Z');
+  });
+
+  it('should name text files after the file', async () => {
+    const response = await upload(Buffer.from('Milk'), 'Groceries.txt').expect(201);
+    const note = await Note.findById(response.body.data.import.results[0].note);
+    expect(note!.title).toBe('Groceries');
+  });
+
+  it('should reject unsupported files', async () => {
+    await upload(Buffer.from('%PDF'), 'scan.pdf').expect(415);
+  });
+
+  it('should import a zip archive in the background with a result per file', async () => {
+    const zip = new JSZip();
+    zip.file('work/plan.md', '---\ntitle: Plan\n---\nDraft');
+    zip.file('todo.txt', 'Call Sam');
+    zip.file('empty.md', '');
+    zip.file('photo.png', 'not a note');
+    zip.file('.DS_Store', 'ignored');
+    const archive = await zip.generateAsync({ type: 'nodebuffer' });
+
+    const response = await upload(archive, 'notes.zip').expect(202);
+    const job = await finished(response.body.data.import._id);
+
+    expect(job.status).toBe('completed');
+    expect(job.imported).toBe(2);
+    expect(job.failed).toBe(1);
+
+    const byFile = Object.fromEntries(
+      job.results.map((result: { file: string; status: string }) => [result.file, result.status])
+    );
+    expect(byFile).toEqual({
+      'work/plan.md': 'imported',
+      'todo.txt': 'imported',
+      'empty.md': 'failed',
+      'photo.png': 'skipped',
+    });
+  });
+
+  it('should fail the whole import when the archive cannot be read', async () => {
+    const response = await upload(Buffer.from('not a zip'), 'notes.zip').expect(202);
+    const job = await finished(response.body.data.import._id);
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe('File is not a valid zip archive');
+  });
+
+  it('should import Evernote exports', async () => {
+    const enex = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE en-export SYSTEM "http://xml.evernote.com/pub/evernote-export3.dtd">
+<en-export application="Evernote">
+  <note>
+    <title>Groceries &amp; more</title>
+    <content><![CDATA[<?xml version="1.0" encoding="UTF-8"?>
+<en-note><div>Buy:</div><ul><li>milk &amp; eggs</li><li>bread</li></ul></en-note>]]></content>
+    <created>20240131T094500Z</created>
+    <tag>home</tag>
+  </note>
+</en-export>`;
+
+    const response = await upload(Buffer.from(enex), 'evernote.enex').expect(202);
+    const job = await finished(response.body.data.import._id);
+    expect(job.imported).toBe(1);
+
+    const note = await Note.findById(job.results[0].note);
+    expect(note!.title).toBe('Groceries & more');
+    expect(note!.content).toBe('Buy:\n- milk & eggs\n- bread');
+    expect(note!.tags).toEqual(['home']);
+    expect(note!.createdAt.toISOString()).toBe('2024-01-31T09:45:00.000Z');
+  });
+});
\ No newline at end of file
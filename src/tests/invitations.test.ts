@@ -0,0 +1,117 @@
+import request from 'supertest';
+import { app } from '../index';
+import User from '../models/User';
+import Note from '../models/Note';
+
+describe('Invitations', () => {
+  let ownerToken: string;
+  let noteId: string;
+
+  beforeEach(async () => {
+    await new User({
+      username: 'owner',
+      email: 'owner@example.com',
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'owner@example.com', password: 'password123' });
+    ownerToken = login.body.data.token;
+
+    const note = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ title: 'Plan', content: 'Content' });
+    noteId = note.body.data.note._id;
+  });
+
+  const invite = async (email: string, role = 'read') => {
+    const response = await request(app)
+      .post(`/api/notes/${noteId}/collaborators`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ email, role })
+      .expect(201);
+    return response.body.data.invitation;
+  };
+
+  // Registers through the API and marks the email verified, as the emailed link would
+  const signUp = async (username: string, email: string) => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({ username, email, password: 'password123' });
+    await User.updateOne({ email }, { emailVerified: true });
+    return response.body.data.token as string;
+  };
+
+  it('should attach invitations to an email on signup and accept them', async () => {
+    await invite('newcomer@example.com', 'write');
+
+    const token = await signUp('newcomer', 'newcomer@example.com');
+
+    const inbox = await request(app)
+      .get('/api/invitations')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(inbox.body.data.invitations).toHaveLength(1);
+    expect(inbox.body.data.invitations[0].note.title).toBe('Plan');
+
+    await request(app)
+      .post(`/api/invitations/${inbox.body.data.invitations[0]._id}/accept`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    const note = await Note.findById(noteId);
+    expect(note!.collaborators).toHaveLength(1);
+    expect(note!.collaborators[0].role).toBe('write');
+
+    await request(app)
+      .put(`/api/notes/${noteId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ content: 'Edited' })
+      .expect(200);
+  });
+
+  it('should decline an invitation', async () => {
+    const token = await signUp('member', 'member@example.com');
+    const invitation = await invite('member@example.com');
+
+    await request(app)
+      .post(`/api/invitations/${invitation._id}/decline`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    await request(app)
+      .post(`/api/invitations/${invitation._id}/accept`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(404);
+
+    const note = await Note.findById(noteId);
+    expect(note!.collaborators).toHaveLength(0);
+  });
+
+  it('should let the owner list and cancel pending invitations', async () => {
+    const invitation = await invite('someone@example.com');
+    await invite('someone@example.com', 'write');
+
+    const list = await request(app)
+      .get(`/api/notes/${noteId}/invitations`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(list.body.data.invitations).toHaveLength(1);
+    expect(list.body.data.invitations[0].role).toBe('write');
+
+    await request(app)
+      .delete(`/api/notes/${noteId}/invitations/${invitation._id}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    const token = await signUp('someone', 'someone@example.com');
+    const inbox = await request(app)
+      .get('/api/invitations')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    expect(inbox.body.data.invitations).toHaveLength(0);
+  });
+});
\ No newline at end of file
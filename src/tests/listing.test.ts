@@ -0,0 +1,175 @@
+import request from 'supertest';
+import { app } from '../index';
+import User from '../models/User';
+import Note from '../models/Note';
+import Folder from '../models/Folder';
+
+describe('Listing notes', () => {
+  let token: string;
+  let userId: string;
+  let otherId: string;
+
+  beforeEach(async () => {
+    const user = await new User({
+      username: 'reader',
+      email: 'reader@example.com',
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+    const other = await new User({
+      username: 'other',
+      email: 'other@example.com',
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+    userId = user._id.toString();
+    otherId = other._id.toString();
+
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'reader@example.com', password: 'password123' });
+    token = response.body.data.token;
+  });
+
+  const list = (query: string) => {
+    return request(app).get(`/api/notes?${query}`).set('Authorization', `Bearer ${token}`);
+  };
+
+  const titles = (response: request.Response): string[] => {
+    return response.body.data.notes.map((note: { title: string }) => note.title);
+  };
+
+  it('should page with a cursor without repeating or missing notes edited in between', async () => {
+    for (const title of ['A', 'B', 'C', 'D', 'E']) {
+      await Note.create({ title, content: 'Content', owner: userId });
+    }
+
+    const first = await list('limit=2').expect(200);
+    expect(titles(first)).toEqual(['E', 'D']);
+    expect(first.body.data.pagination).toMatchObject({ limit: 2, total: 5, hasMore: true });
+
+    // Edits do not move notes by creation date, whether they were listed already or not
+    await Note.updateOne({ title: 'E' }, { content: 'Edited' });
+    await Note.updateOne({ title: 'B' }, { content: 'Edited' });
+
+    const seen = titles(first);
+    let cursor = first.body.data.pagination.nextCursor;
+    while (cursor) {
+      const next = await list(`limit=2&cursor=${cursor}`).expect(200);
+      seen.push(...titles(next));
+      cursor = next.body.data.pagination.nextCursor;
+    }
+    expect(seen).toEqual(['E', 'D', 'C', 'B', 'A']);
+  });
+
+  it('should treat update order as a snapshot', async () => {
+    for (const title of ['A', 'B', 'C']) {
+      await Note.create({ title, content: 'Content', owner: userId });
+    }
+
+    const first = await list('sort=updated&limit=1').expect(200);
+    expect(titles(first)).toEqual(['C']);
+
+    // An edited note moves ahead of the cursor, this walk does not return it
+    await Note.updateOne({ title: 'A' }, { content: 'Edited' });
+    const next = await list(
+      `sort=updated&limit=2&cursor=${first.body.data.pagination.nextCursor}`
+    ).expect(200);
+    expect(titles(next)).toEqual(['B']);
+    expect(titles(await list('sort=updated').expect(200))).toEqual(['A', 'C', 'B']);
+  });
+
+  it('should sort by title and creation date', async () => {
+    await Note.create({ title: 'banana', content: 'Content', owner: userId });
+    await Note.create({ title: 'Apple', content: 'Content', owner: userId });
+    await Note.create({ title: 'cherry', content: 'Content', owner: userId });
+
+    expect(titles(await list('sort=title').expect(200))).toEqual(['Apple', 'banana', 'cherry']);
+    expect(titles(await list('sort=title&order=desc').expect(200))).toEqual([
+      'cherry',
+      'banana',
+      'Apple',
+    ]);
+    expect(titles(await list('sort=created&order=asc').expect(200))).toEqual([
+      'banana',
+      'Apple',
+      'cherry',
+    ]);
+
+    const first = await list('sort=title&limit=1').expect(200);
+    const second = await list(
+      `sort=title&limit=1&cursor=${first.body.data.pagination.nextCursor}`
+    ).expect(200);
+    expect(titles(second)).toEqual(['banana']);
+  });
+
+  it('should filter by ownership, role and owner, with facets', async () => {
+    const folder = await Folder.create({
+      name: 'Team',
+      owner: otherId,
+      collaborators: [{ user: userId, role: 'write' }],
+    });
+    await Note.create({ title: 'Mine', content: 'Content', owner: userId, tags: ['work'] });
+    await Note.create({
+      title: 'Read only',
+      content: 'Content',
+      owner: otherId,
+      collaborators: [{ user: userId, role: 'read' }],
+    });
+    // The folder grant is stronger than the direct one
+    await Note.create({
+      title: 'In folder',
+      content: '# Content',
+      format: 'markdown',
+      owner: otherId,
+      folder: folder._id,
+      collaborators: [{ user: userId, role: 'comment' }],
+    });
+    await Note.create({ title: 'Private', content: 'Content', owner: otherId });
+
+    expect(titles(await list('ownership=owned').expect(200))).toEqual(['Mine']);
+    expect(titles(await list('ownership=shared').expect(200))).toEqual(['In folder', 'Read only']);
+    expect(titles(await list('role=write').expect(200))).toEqual(['In folder']);
+    expect(titles(await list('role=comment').expect(200))).toEqual([]);
+    expect(titles(await list(`owner=${otherId}`).expect(200))).toHaveLength(2);
+    expect(titles(await list('owner=me').expect(200))).toEqual(['Mine']);
+
+    const future = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    expect(titles(await list(`from=${future}`).expect(200))).toEqual([]);
+
+    const response = await list('limit=1').expect(200);
+    expect(response.body.data.facets).toEqual({
+      total: 3,
+      ownership: { owned: 1, shared: 2 },
+      roles: { owner: 1, read: 1, comment: 0, write: 1, admin: 0 },
+      formats: { plain: 2, markdown: 1, 'richtext-json': 0 },
+      tags: [{ tag: 'work', count: 1 }],
+    });
+  });
+
+  it('should keep offset pages for older clients', async () => {
+    for (const title of ['A', 'B', 'C']) {
+      await Note.create({ title, content: 'Content', owner: userId });
+    }
+
+    const response = await list('page=2&limit=2').expect(200);
+    expect(titles(response)).toEqual(['A']);
+    expect(response.body.data.pagination).toMatchObject({ page: 2, pages: 2, hasMore: false });
+  });
+
+  it('should reject invalid cursors and filters', async () => {
+    await Note.create({ title: 'A', content: 'Content', owner: userId });
+    await Note.create({ title: 'B', content: 'Content', owner: userId });
+    const first = await list('limit=1').expect(200);
+    const cursor = first.body.data.pagination.nextCursor;
+
+    await list('cursor=garbage').expect(400);
+    await list(`sort=title&cursor=${cursor}`).expect(400);
+    await list(`page=2&cursor=${cursor}`).expect(400);
+    await list('sort=size').expect(400);
+    await list('ownership=mine').expect(400);
+    await list('role=boss').expect(400);
+    await list('owner=nobody').expect(400);
+    await list('from=yesterday').expect(400);
+  });
+});
\ No newline at end of file
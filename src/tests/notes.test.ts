@@ -2,6 +2,8 @@ import request from 'supertest';
 import { app } from '../index';
 import User from '../models/User';
 import Note from '../models/Note';
+import NoteVersion from '../models/NoteVersion';
+import { recordVersion, listVersions } from '../services/versionService';
 
 describe('Notes', () => {
   let userToken: string;
@@ -15,6 +17,7 @@ describe('Notes', () => {
       username: 'testuser1',
       email: 'test1@example.com',
       password: 'password123',
+      emailVerified: true,
     });
     await user1.save();
 
@@ -22,6 +25,7 @@ describe('Notes', () => {
       username: 'testuser2',
       email: 'test2@example.com',
       password: 'password123',
+      emailVerified: true,
     });
     await user2.save();
 
@@ -238,9 +242,10 @@ describe('Notes', () => {
         .set('Authorization', `Bearer ${userToken}`)
         .send(updateData);
 
-      const note = await Note.findById(noteId);
-      expect(note?.versions).toHaveLength(1);
-      expect(note?.versions[0].content).toBe('Original content');
+      const versions = await listVersions(noteId);
+      expect(versions).toHaveLength(1);
+      expect(versions[0].content).toBe('Original content');
+      expect(versions[0].title).toBe('Original Title');
     });
   });
 
@@ -257,17 +262,20 @@ describe('Notes', () => {
       noteId = note._id.toString();
     });
 
-    it('should delete note for owner', async () => {
+    it('should move the note to the trash for owner', async () => {
       const response = await request(app)
         .delete(`/api/notes/${noteId}`)
         .set('Authorization', `Bearer ${userToken}`)
         .expect(200);
 
       expect(response.body.success).toBe(true);
-      expect(response.body.message).toContain('deleted successfully');
+      expect(response.body.message).toContain('moved to trash');
 
       const deletedNote = await Note.findById(noteId);
       expect(deletedNote).toBeNull();
+
+      const trashedNote = await Note.findOne({ _id: noteId, deletedAt: { $ne: null } });
+      expect(trashedNote).not.toBeNull();
     });
 
     it('should not allow collaborator to delete note', async () => {
@@ -292,7 +300,7 @@ describe('Notes', () => {
       noteId = note._id.toString();
     });
 
-    it('should add collaborator for owner', async () => {
+    it('should invite a collaborator for owner', async () => {
       const collaboratorData = {
         email: 'test2@example.com',
         role: 'write',
@@ -302,10 +310,29 @@ describe('Notes', () => {
         .post(`/api/notes/${noteId}/collaborators`)
         .set('Authorization', `Bearer ${userToken}`)
         .send(collaboratorData)
-        .expect(200);
+        .expect(201);
 
       expect(response.body.success).toBe(true);
-      expect(response.body.data.note.collaborators).toHaveLength(1);
+      expect(response.body.data.invitation.status).toBe('pending');
+      expect(response.body.data.invitation.invitee).toBe(otherUserId);
+
+      // Nobody is added until the invitation is accepted
+      const note = await Note.findById(noteId);
+      expect(note!.collaborators).toHaveLength(0);
+    });
+
+    it('should change the role of an existing collaborator directly', async () => {
+      await Note.updateOne(
+        { _id: noteId },
+        { $push: { collaborators: { user: otherUserId, role: 'read' } } }
+      );
+
+      const response = await request(app)
+        .post(`/api/notes/${noteId}/collaborators`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ email: 'test2@example.com', role: 'write' })
+        .expect(200);
+
       expect(response.body.data.note.collaborators[0].role).toBe('write');
     });
 
@@ -321,7 +348,189 @@ describe('Notes', () => {
         .send(collaboratorData)
         .expect(403);
 
-      expect(response.body.message).toContain('Only the owner can manage collaborators');
+      expect(response.body.message).toContain(
+        'Only the owner or an admin can manage collaborators'
+      );
+    });
+
+    it('should let admins invite but not grant admin', async () => {
+      await Note.updateOne(
+        { _id: noteId },
+        { $push: { collaborators: { user: otherUserId, role: 'admin' } } }
+      );
+
+      await request(app)
+        .post(`/api/notes/${noteId}/collaborators`)
+        .set('Authorization', `Bearer ${otherUserToken}`)
+        .send({ email: 'someone@example.com', role: 'comment' })
+        .expect(201);
+
+      const response = await request(app)
+        .post(`/api/notes/${noteId}/collaborators`)
+        .set('Authorization', `Bearer ${otherUserToken}`)
+        .send({ email: 'someone@example.com', role: 'admin' })
+        .expect(403);
+
+      expect(response.body.message).toContain('Only the owner can add or remove admins');
+    });
+  });
+
+  describe('POST /api/notes/:id/transfer-ownership', () => {
+    let noteId: string;
+
+    beforeEach(async () => {
+      const note = await Note.create({
+        title: 'Test Note',
+        content: 'Test content',
+        owner: userId,
+        collaborators: [{ user: otherUserId, role: 'write' }],
+      });
+      noteId = note._id.toString();
+    });
+
+    it('should make a collaborator the owner and demote the old owner to admin', async () => {
+      const response = await request(app)
+        .post(`/api/notes/${noteId}/transfer-ownership`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ userId: otherUserId })
+        .expect(200);
+
+      expect(response.body.data.note.owner._id).toBe(otherUserId);
+      expect(response.body.data.note.collaborators).toHaveLength(1);
+      expect(response.body.data.note.collaborators[0].user._id).toBe(userId);
+      expect(response.body.data.note.collaborators[0].role).toBe('admin');
+
+      // The old owner can no longer delete the note
+      await request(app)
+        .delete(`/api/notes/${noteId}`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(403);
+    });
+
+    it('should only transfer to an existing collaborator', async () => {
+      await Note.updateOne({ _id: noteId }, { collaborators: [] });
+
+      await request(app)
+        .post(`/api/notes/${noteId}/transfer-ownership`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ userId: otherUserId })
+        .expect(400);
+    });
+  });
+
+  describe('Note versions', () => {
+    let noteId: string;
+    let versionId: string;
+
+    beforeEach(async () => {
+      const note = await Note.create({
+        title: 'Versioned Note',
+        content: 'Line one\nLine three\n',
+        owner: userId,
+        collaborators: [{ user: otherUserId, role: 'read' }],
+      });
+      noteId = note._id.toString();
+
+      await recordVersion(noteId, { title: 'Draft', content: 'Line one\nLine two\n' }, userId);
+      const versions = await listVersions(noteId);
+      versionId = versions[0]._id.toString();
+    });
+
+    it('should get a single version', async () => {
+      const response = await request(app)
+        .get(`/api/notes/${noteId}/versions/${versionId}`)
+        .set('Authorization', `Bearer ${otherUserToken}`)
+        .expect(200);
+
+      expect(response.body.data.version.content).toBe('Line one\nLine two\n');
+    });
+
+    it('should diff a version against the current content', async () => {
+      const response = await request(app)
+        .get(`/api/notes/${noteId}/versions/diff?from=${versionId}&to=current`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(200);
+
+      expect(response.body.data.changes).toEqual([
+        { type: 'equal', value: 'Line one\n' },
+        { type: 'delete', value: 'Line two\n' },
+        { type: 'insert', value: 'Line three\n' },
+      ]);
+    });
+
+    it('should restore a version and keep the replaced content as a new version', async () => {
+      const response = await request(app)
+        .post(`/api/notes/${noteId}/versions/${versionId}/restore`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(200);
+
+      expect(response.body.data.note.content).toBe('Line one\nLine two\n');
+      expect(response.body.data.note.title).toBe('Draft');
+
+      const versions = await listVersions(noteId);
+      expect(versions).toHaveLength(2);
+      expect(versions[1].content).toBe('Line one\nLine three\n');
+      expect(versions[1].title).toBe('Versioned Note');
+    });
+
+    it('should not allow read collaborators to restore', async () => {
+      await request(app)
+        .post(`/api/notes/${noteId}/versions/${versionId}/restore`)
+        .set('Authorization', `Bearer ${otherUserToken}`)
+        .expect(403);
+    });
+
+    it('should keep labeled versions when trimming history', async () => {
+      await request(app)
+        .put(`/api/notes/${noteId}/versions/${versionId}/label`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ label: 'Before client review' })
+        .expect(200);
+
+      for (let i = 0; i < 55; i++) {
+        await recordVersion(noteId, { title: 'Versioned Note', content: `Edit ${i}` }, userId);
+      }
+
+      const versions = await listVersions(noteId);
+      const labeled = versions.filter((v) => v.label === 'Before client review');
+      expect(labeled).toHaveLength(1);
+      expect(labeled[0].content).toBe('Line one\nLine two\n');
+      expect(versions).toHaveLength(51);
+      expect(versions[50].content).toBe('Edit 54');
+    });
+
+    it('should rebuild versions stored as deltas', async () => {
+      const contents = ['alpha beta', 'alpha beta gamma', 'alpha gamma', 'delta alpha gamma'];
+      for (const content of contents) {
+        await recordVersion(noteId, { title: 'Versioned Note', content }, userId);
+      }
+
+      const versions = await listVersions(noteId);
+      expect(versions.slice(1).map((v) => v.content)).toEqual(contents);
+
+      const response = await request(app)
+        .get(`/api/notes/${noteId}/versions/${versions[3]._id}`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(200);
+
+      expect(response.body.data.version.content).toBe('alpha gamma');
+    });
+
+    it('should chain versions recorded at the same time', async () => {
+      const contents = ['one', 'one two', 'one two three', 'two three'];
+      // The unique (note, seq) index is what orders the writers
+      await NoteVersion.init();
+      await Promise.all(
+        contents.map((content) =>
+          recordVersion(noteId, { title: 'Versioned Note', content }, userId)
+        )
+      );
+
+      const versions = await listVersions(noteId);
+      expect(versions.map((v) => v.seq)).toEqual([1, 2, 3, 4, 5]);
+      // Each one is stored against whichever landed before it, in any order
+      const recorded = versions.slice(1).map((v) => v.content);
+      expect(recorded.sort()).toEqual([...contents].sort());
     });
   });
 });
\ No newline at end of file
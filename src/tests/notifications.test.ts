@@ -0,0 +1,174 @@
+import request from 'supertest';
+import { app } from '../index';
+import User from '../models/User';
+import Note from '../models/Note';
+import Notification from '../models/Notification';
+import { extractMentions } from '../services/notificationService';
+
+describe('Notifications', () => {
+  let ownerToken: string;
+  let memberToken: string;
+  let noteId: string;
+
+  const login = async (username: string, email: string) => {
+    await new User({ username, email, password: 'password123', emailVerified: true }).save();
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'password123' });
+    return response.body.data.token as string;
+  };
+
+  beforeEach(async () => {
+    ownerToken = await login('owner', 'owner@example.com');
+    memberToken = await login('member', 'member@example.com');
+    await login('outsider', 'outsider@example.com');
+
+    const note = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ title: 'Plan', content: 'Draft' });
+    noteId = note.body.data.note._id;
+
+    const member = await User.findOne({ email: 'member@example.com' });
+    await Note.updateOne(
+      { _id: noteId },
+      { $push: { collaborators: { user: member!._id, role: 'comment' } } }
+    );
+  });
+
+  const inbox = (token: string, query = '') => {
+    return request(app)
+      .get(`/api/notifications${query}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+  };
+
+  it('should notify collaborators mentioned in the content once', async () => {
+    await request(app)
+      .put(`/api/notes/${noteId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ content: 'Draft, @Member and @outsider please review' })
+      .expect(200);
+
+    // Mentions that were already there are not notified again
+    await request(app)
+      .put(`/api/notes/${noteId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ content: 'Draft, @Member and @outsider please review today' })
+      .expect(200);
+
+    const response = await inbox(memberToken);
+    expect(response.body.data.unreadCount).toBe(1);
+    expect(response.body.data.notifications[0].type).toBe('mention');
+    expect(response.body.data.notifications[0].actor.username).toBe('owner');
+    expect(response.body.data.notifications[0].note.title).toBe('Plan');
+    expect(response.body.data.notifications[0].excerpt).toContain('@Member');
+
+    // Users without access to the note are not told about it
+    const outsider = await User.findOne({ username: 'outsider' });
+    expect(await Notification.countDocuments({ user: outsider!._id })).toBe(0);
+  });
+
+  it('should quote rich text mentions as text', async () => {
+    const document = {
+      type: 'doc',
+      content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Ask @member first' }] }],
+    };
+    await request(app)
+      .put(`/api/notes/${noteId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ content: JSON.stringify(document), format: 'richtext-json' })
+      .expect(200);
+
+    const response = await inbox(memberToken);
+    expect(response.body.data.notifications[0].excerpt).toBe('Ask @member first');
+  });
+
+  it('should notify mentions in comments but not self-mentions', async () => {
+    await request(app)
+      .post(`/api/notes/${noteId}/comments`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send({ body: '@owner @member what do you think?', anchor: { start: 0, end: 5 } })
+      .expect(201);
+
+    const owner = await inbox(ownerToken);
+    expect(owner.body.data.notifications).toHaveLength(1);
+    expect(owner.body.data.notifications[0].comment).toBeDefined();
+
+    const member = await inbox(memberToken);
+    expect(member.body.data.notifications).toHaveLength(0);
+  });
+
+  it('should notify invitations and role changes', async () => {
+    await request(app)
+      .post(`/api/notes/${noteId}/collaborators`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ email: 'member@example.com', role: 'write' })
+      .expect(200);
+
+    await request(app)
+      .post(`/api/notes/${noteId}/collaborators`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ email: 'outsider@example.com', role: 'read' })
+      .expect(201);
+
+    const member = await inbox(memberToken);
+    expect(member.body.data.notifications[0].type).toBe('role-changed');
+    expect(member.body.data.notifications[0].role).toBe('write');
+
+    const outsider = await User.findOne({ username: 'outsider' });
+    const invitation = await Notification.findOne({ user: outsider!._id });
+    expect(invitation!.type).toBe('invitation');
+  });
+
+  it('should mark notifications as read', async () => {
+    await request(app)
+      .put(`/api/notes/${noteId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ content: '@member one' });
+    await request(app)
+      .put(`/api/notes/${noteId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ content: '@member one, @MEMBER? no, just once' });
+    await request(app)
+      .post(`/api/notes/${noteId}/collaborators`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ email: 'member@example.com', role: 'write' });
+
+    const before = await inbox(memberToken);
+    expect(before.body.data.unreadCount).toBe(2);
+
+    await request(app)
+      .post(`/api/notifications/${before.body.data.notifications[0]._id}/read`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+
+    const unread = await inbox(memberToken, '?unread=true');
+    expect(unread.body.data.notifications).toHaveLength(1);
+
+    await request(app)
+      .post('/api/notifications/read')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .send({})
+      .expect(200);
+
+    const count = await request(app)
+      .get('/api/notifications/unread-count')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+    expect(count.body.data.unreadCount).toBe(0);
+  });
+
+  describe('extractMentions', () => {
+    it('should find usernames and skip email addresses', () => {
+      expect(extractMentions('@alice and @Bob_2, mail bob@example.com or @alice')).toEqual([
+        'alice',
+        'bob_2',
+      ]);
+    });
+
+    it('should ignore names that are too short', () => {
+      expect(extractMentions('@al @ x')).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
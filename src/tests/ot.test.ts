@@ -0,0 +1,146 @@
+import {
+  apply,
+  transform,
+  transformIndex,
+  fromReplacement,
+  isValidOperation,
+} from '../services/ot';
+import { submitOperation, NoteSession } from '../services/collabService';
+import {
+  createMemoryOperationLog,
+  getOperationLog,
+  setOperationLogAdapter,
+} from '../services/operationLogService';
+import { TextOperation } from '../types';
+
+describe('Operational transform', () => {
+  describe('apply', () => {
+    it('should retain, insert and delete text', () => {
+      expect(apply('hello world', [6, 'there ', -5])).toBe('hello there ');
+    });
+
+    it('should reject operations that do not match the document', () => {
+      expect(() => apply('hello', [10])).toThrow('Operation does not match the document length');
+    });
+  });
+
+  describe('transform', () => {
+    const converges = (doc: string, a: TextOperation, b: TextOperation) => {
+      const [aPrime, bPrime] = transform(a, b);
+      const left = apply(apply(doc, a), bPrime);
+      const right = apply(apply(doc, b), aPrime);
+      expect(left).toBe(right);
+      return left;
+    };
+
+    it('should converge for inserts at different positions', () => {
+      expect(converges('abc', [1, 'X', 2], [3, 'Y'])).toBe('aXbcY');
+    });
+
+    it('should put the first operation first on inserts at the same position', () => {
+      expect(converges('abc', [1, 'X', 2], [1, 'Y', 2])).toBe('aXYbc');
+    });
+
+    it('should converge for overlapping deletes', () => {
+      expect(converges('abcdef', [1, -3, 2], [2, -3, 1])).toBe('af');
+    });
+
+    it('should converge for an insert inside a deleted range', () => {
+      expect(converges('abcdef', [2, 'X', 4], [1, -4, 1])).toBe('aXf');
+    });
+  });
+
+  describe('fromReplacement', () => {
+    it('should only touch the changed part of the text', () => {
+      const op = fromReplacement('hello world', 'hello brave world');
+      expect(op).toEqual([6, 'brave ', 5]);
+      expect(apply('hello world', op)).toBe('hello brave world');
+    });
+  });
+
+  describe('transformIndex', () => {
+    it('should shift positions after inserts and deletes', () => {
+      expect(transformIndex([2, 'XY', 4], 4)).toBe(6);
+      expect(transformIndex([1, -2, 3], 4)).toBe(2);
+      expect(transformIndex([5, 'X', 1], 2)).toBe(2);
+    });
+
+    it('should move positions inside deleted text to the deletion point', () => {
+      expect(transformIndex([1, -4, 1], 3)).toBe(1);
+    });
+
+    it('should only skip text inserted at the position when sticking to the end', () => {
+      expect(transformIndex([2, 'X', 2], 2)).toBe(2);
+      expect(transformIndex([2, 'X', 2], 2, true)).toBe(3);
+    });
+  });
+
+  describe('isValidOperation', () => {
+    it('should reject malformed operations', () => {
+      expect(isValidOperation([1, 'a', -1])).toBe(true);
+      expect(isValidOperation([0])).toBe(false);
+      expect(isValidOperation([''])).toBe(false);
+      expect(isValidOperation('abc')).toBe(false);
+    });
+  });
+
+  describe('submitOperation', () => {
+    let session: NoteSession;
+
+    beforeEach(() => {
+      setOperationLogAdapter(createMemoryOperationLog());
+      session = {
+        noteId: 'note',
+        title: 'Note',
+        content: 'hello',
+        format: 'plain',
+        revision: 0,
+        history: [],
+        historyStart: 0,
+        applying: Promise.resolve(),
+        dirty: false,
+        savedRevision: 0,
+        saving: Promise.resolve(),
+        closing: false,
+      };
+    });
+
+    it('should transform an operation against concurrent edits', async () => {
+      await submitOperation(session, 0, [5, ' world']);
+      const applied = await submitOperation(session, 0, ['Oh, ', 5]);
+
+      expect(applied.revision).toBe(2);
+      expect(applied.operation).toEqual(['Oh, ', 11]);
+      expect(session.content).toBe('Oh, hello world');
+    });
+
+    it('should transform against operations logged by other instances', async () => {
+      await getOperationLog().append('note', { revision: 1, operation: [5, ' world'] });
+      const applied = await submitOperation(session, 0, ['Oh, ', 5], { title: 'Greeting' });
+
+      expect(applied.revision).toBe(2);
+      expect(applied.operation).toEqual(['Oh, ', 11]);
+      expect(session.content).toBe('Oh, hello world');
+      expect(session.title).toBe('Greeting');
+      expect(await getOperationLog().since('note', 1)).toEqual([
+        { revision: 2, operation: ['Oh, ', 11], title: 'Greeting' },
+      ]);
+    });
+
+    it('should reject operations that break a rich text document', async () => {
+      const content = JSON.stringify({ type: 'doc', content: [] });
+      Object.assign(session, { format: 'richtext-json', content });
+
+      await expect(submitOperation(session, 0, [content.length - 1, ',', 1])).rejects.toThrow(
+        /^Validation Error/
+      );
+      expect(session.content).toBe(content);
+      expect(session.revision).toBe(0);
+      expect(await getOperationLog().since('note', 0)).toEqual([]);
+    });
+
+    it('should reject revisions from the future', async () => {
+      await expect(submitOperation(session, 3, [5, '!'])).rejects.toThrow('Unknown revision');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { can, strongestRole } from '../utils/permissions';
+
+describe('Permissions', () => {
+  it('should grant capabilities by role', () => {
+    expect(can('read', 'read')).toBe(true);
+    expect(can('read', 'comment')).toBe(false);
+    expect(can('comment', 'comment')).toBe(true);
+    expect(can('comment', 'write')).toBe(false);
+    expect(can('write', 'write')).toBe(true);
+    expect(can('write', 'share')).toBe(false);
+    expect(can('admin', 'share')).toBe(true);
+    expect(can('admin', 'delete')).toBe(false);
+    expect(can('owner', 'delete')).toBe(true);
+  });
+
+  it('should deny everything without a role', () => {
+    expect(can(null, 'read')).toBe(false);
+    expect(can(undefined, 'read')).toBe(false);
+  });
+
+  it('should pick the strongest role', () => {
+    expect(strongestRole('read', 'write', 'comment')).toBe('write');
+    expect(strongestRole(null, 'comment', undefined)).toBe('comment');
+    expect(strongestRole(null, undefined)).toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,169 @@
+import mongoose from 'mongoose';
+import request from 'supertest';
+import { app } from '../index';
+import User from '../models/User';
+import Note from '../models/Note';
+import {
+  PresenceAdapter,
+  PresenceEntry,
+  activeUsers,
+  colorFor,
+  createMemoryPresence,
+  createMongoPresence,
+  getPresence,
+} from '../services/presenceService';
+
+describe.each([
+  ['memory', createMemoryPresence],
+  ['mongo', createMongoPresence],
+])('Presence (%s)', (_name, createPresence) => {
+  let presence: PresenceAdapter;
+  const noteId = new mongoose.Types.ObjectId().toString();
+
+  const entry = (userId: string, socketId: string, instanceId: string): PresenceEntry => ({
+    noteId,
+    userId,
+    username: `user-${userId}`,
+    socketId,
+    instanceId,
+    status: 'active',
+    typing: false,
+  });
+
+  // Who is in the room, and with how many connections
+  const connections = async () => {
+    return activeUsers(await presence.list(noteId)).map((user) => [user.userId, user.connections]);
+  };
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  beforeEach(() => {
+    presence = createPresence();
+  });
+
+  it('should list the users of every instance once each', async () => {
+    await presence.add(entry('alice', 'socket-1', 'instance-a'));
+    await presence.add(entry('bob', 'socket-2', 'instance-b'));
+    // Alice on a second device, through the other instance
+    await presence.add(entry('alice', 'socket-3', 'instance-b'));
+
+    expect(await connections()).toEqual([
+      ['alice', 2],
+      ['bob', 1],
+    ]);
+
+    const removed = await presence.remove(noteId, 'socket-1');
+    expect(removed).toEqual(entry('alice', 'socket-1', 'instance-a'));
+    expect(await presence.remove(noteId, 'socket-1')).toBeNull();
+    expect((await presence.list(noteId)).map((e) => e.socketId)).toEqual(['socket-2', 'socket-3']);
+
+    // Alice is still there from her other tab
+    expect(await connections()).toEqual([
+      ['bob', 1],
+      ['alice', 1],
+    ]);
+  });
+
+  it('should combine the status and typing of every connection of a user', async () => {
+    await presence.add(entry('alice', 'socket-1', 'instance-a'));
+    await presence.add(entry('alice', 'socket-2', 'instance-a'));
+    await presence.update(noteId, 'socket-1', { status: 'away' });
+    await presence.update(noteId, 'socket-2', { status: 'idle', typing: true });
+
+    expect(activeUsers(await presence.list(noteId))).toEqual([
+      {
+        userId: 'alice',
+        username: 'user-alice',
+        connections: 2,
+        color: colorFor('alice'),
+        status: 'idle',
+        typing: true,
+      },
+    ]);
+  });
+
+  it('should drop the entries of instances that stopped sending heartbeats', async () => {
+    await presence.heartbeat('instance-a');
+    await presence.heartbeat('instance-b');
+    await presence.add(entry('alice', 'socket-1', 'instance-a'));
+    await presence.add(entry('bob', 'socket-2', 'instance-b'));
+
+    // Only instance b is still alive
+    await sleep(10);
+    const cutoff = new Date();
+    await sleep(10);
+    await presence.heartbeat('instance-b');
+
+    const stale = await presence.removeStale(cutoff);
+    expect(stale).toEqual([entry('alice', 'socket-1', 'instance-a')]);
+    expect(await connections()).toEqual([['bob', 1]]);
+    expect(await presence.removeStale(cutoff)).toEqual([]);
+  });
+
+  it('should release an instance that shuts down', async () => {
+    await presence.heartbeat('instance-a');
+    await presence.add(entry('alice', 'socket-1', 'instance-a'));
+
+    expect(await presence.removeInstance('instance-a')).toHaveLength(1);
+    expect(await presence.list(noteId)).toEqual([]);
+  });
+});
+
+describe('GET /api/notes/:id/presence', () => {
+  it('should list the users who have the note open to its readers', async () => {
+    await new User({
+      username: 'owner',
+      email: 'owner@example.com',
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+    await new User({
+      username: 'stranger',
+      email: 'stranger@example.com',
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+    const login = async (email: string) => {
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ email, password: 'password123' });
+      return response.body.data;
+    };
+    const owner = await login('owner@example.com');
+    const stranger = await login('stranger@example.com');
+
+    const note = await Note.create({ title: 'Open', content: 'Content', owner: owner.user.id });
+    const noteId = note._id.toString();
+    await getPresence().add({
+      noteId,
+      userId: owner.user.id,
+      username: 'owner',
+      socketId: 'socket-1',
+      instanceId: 'instance-a',
+      status: 'idle',
+      typing: false,
+    });
+
+    const response = await request(app)
+      .get(`/api/notes/${noteId}/presence`)
+      .set('Authorization', `Bearer ${owner.token}`)
+      .expect(200);
+    expect(response.body.data.users).toEqual([
+      {
+        userId: owner.user.id,
+        username: 'owner',
+        connections: 1,
+        color: colorFor(owner.user.id),
+        status: 'idle',
+        typing: false,
+      },
+    ]);
+
+    await request(app)
+      .get(`/api/notes/${noteId}/presence`)
+      .set('Authorization', `Bearer ${stranger.token}`)
+      .expect(403);
+
+    await getPresence().remove(noteId, 'socket-1');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,146 @@
+import request from 'supertest';
+import { app } from '../index';
+import User from '../models/User';
+import Note from '../models/Note';
+
+describe('Search', () => {
+  let token: string;
+  let userId: string;
+  let otherId: string;
+
+  beforeEach(async () => {
+    await Note.init();
+
+    const user = await new User({
+      username: 'owner',
+      email: 'owner@example.com',
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+    const other = await new User({
+      username: 'other',
+      email: 'other@example.com',
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+    userId = user._id.toString();
+    otherId = other._id.toString();
+
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'owner@example.com', password: 'password123' });
+    token = response.body.data.token;
+  });
+
+  const search = (query: string) => {
+    return request(app).get(`/api/search?${query}`).set('Authorization', `Bearer ${token}`);
+  };
+
+  const titles = (response: request.Response): string[] => {
+    return response.body.data.results.map(
+      (result: { note: { title: string } }) => result.note.title
+    );
+  };
+
+  it('should rank notes by relevance and highlight the matches', async () => {
+    await Note.create({ title: 'Groceries', content: 'Milk, and a launch cake', owner: userId });
+    await Note.create({
+      title: 'Launch plan',
+      content: 'The launch is on Friday. After the launch we rest.',
+      owner: userId,
+    });
+
+    const response = await search('q=launch').expect(200);
+    expect(titles(response)).toEqual(['Launch plan', 'Groceries']);
+
+    const [best] = response.body.data.results;
+    expect(best.role).toBe('owner');
+    expect(best.score).toBeGreaterThan(response.body.data.results[1].score);
+    expect(best.note.content).toBeUndefined();
+    expect(best.titleHighlights).toEqual([{ start: 0, end: 6 }]);
+
+    const { text, highlights } = best.snippet;
+    expect(text).toBe('The launch is on Friday. After the launch we rest.');
+    expect(
+      highlights.map((h: { start: number; end: number }) => text.slice(h.start, h.end))
+    ).toEqual(['launch', 'launch']);
+  });
+
+  it('should support phrases, exclusions and prefixes', async () => {
+    await Note.create({ title: 'A', content: 'launch day is near', owner: userId });
+    await Note.create({ title: 'B', content: 'day of the launch', owner: userId });
+    await Note.create({ title: 'C', content: 'our roadmap for the launch, draft', owner: userId });
+
+    expect(titles(await search('q="launch day"').expect(200))).toEqual(['A']);
+    expect(titles(await search('q=launch -draft').expect(200)).sort()).toEqual(['A', 'B']);
+    expect(titles(await search('q=road*').expect(200))).toEqual(['C']);
+  });
+
+  it('should search markup-free text only in notes the user can read', async () => {
+    await Note.create({
+      title: 'Mine',
+      content: '**secret** plan',
+      format: 'markdown',
+      owner: userId,
+    });
+    await Note.create({ title: 'Theirs', content: 'secret plan', owner: otherId });
+
+    expect(titles(await search('q=secret').expect(200))).toEqual(['Mine']);
+  });
+
+  it('should filter by owner, sharing, role and date', async () => {
+    await Note.create({ title: 'Mine', content: 'budget', owner: userId });
+    await Note.create({
+      title: 'Shared',
+      content: 'budget',
+      owner: otherId,
+      collaborators: [{ user: userId, role: 'comment' }],
+    });
+
+    expect(titles(await search('q=budget&owner=me').expect(200))).toEqual(['Mine']);
+    expect(titles(await search(`q=budget&owner=${otherId}`).expect(200))).toEqual(['Shared']);
+    expect(titles(await search('q=budget&shared=true').expect(200))).toEqual(['Shared']);
+    expect(titles(await search('q=budget&role=comment').expect(200))).toEqual(['Shared']);
+    expect(titles(await search('q=budget&role=write').expect(200))).toEqual([]);
+
+    const future = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    expect(titles(await search(`q=budget&from=${future}`).expect(200))).toEqual([]);
+    expect(titles(await search(`q=budget&date=created&to=${future}`).expect(200))).toHaveLength(2);
+  });
+
+  it('should find text that only earlier versions had', async () => {
+    const created = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ title: 'Trip', content: 'Visit Lisbon in May' })
+      .expect(201);
+
+    await request(app)
+      .put(`/api/notes/${created.body.data.note._id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ content: 'Visit Porto in June' })
+      .expect(200);
+
+    const withoutHistory = await search('q=lisbon').expect(200);
+    expect(withoutHistory.body.data.results).toHaveLength(0);
+    expect(withoutHistory.body.data.versions).toBeUndefined();
+
+    const response = await search('q=lisbon&versions=true').expect(200);
+    expect(response.body.data.versions).toEqual([
+      {
+        note: { _id: created.body.data.note._id, title: 'Trip' },
+        version: expect.objectContaining({ seq: 1, title: 'Trip' }),
+        snippet: { text: 'Visit Lisbon in May', highlights: [{ start: 6, end: 12 }] },
+      },
+    ]);
+    expect(response.body.data.versionsTruncated).toBe(false);
+    expect(response.body.data.truncated).toBe(false);
+  });
+
+  it('should reject invalid searches', async () => {
+    await search('').expect(400);
+    await search('q=-only').expect(400);
+    await search('q=plan&role=boss').expect(400);
+    await search('q=plan&from=yesterday').expect(400);
+  });
+});
\ No newline at end of file
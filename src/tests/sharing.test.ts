@@ -0,0 +1,104 @@
+import request from 'supertest';
+import { app } from '../index';
+import User from '../models/User';
+
+describe('Share links', () => {
+  let ownerToken: string;
+  let noteId: string;
+
+  beforeEach(async () => {
+    await new User({
+      username: 'owner',
+      email: 'owner@example.com',
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+
+    const login = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'owner@example.com', password: 'password123' });
+    ownerToken = login.body.data.token;
+
+    const note = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ title: 'Shared note', content: 'Hello' });
+    noteId = note.body.data.note._id;
+  });
+
+  const createLink = async (options: Record<string, unknown> = {}) => {
+    const response = await request(app)
+      .post(`/api/notes/${noteId}/share-links`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send(options)
+      .expect(201);
+    return response.body.data;
+  };
+
+  it('should open a note anonymously through a read link', async () => {
+    const { token, link } = await createLink();
+
+    expect(link.tokenHash).toBeUndefined();
+
+    const response = await request(app).get(`/api/shared/${token}`).expect(200);
+
+    expect(response.body.data.note.content).toBe('Hello');
+    expect(response.body.data.link.role).toBe('read');
+
+    await request(app).put(`/api/shared/${token}`).send({ content: 'Changed' }).expect(403);
+  });
+
+  it('should let write link holders edit the note', async () => {
+    const { token, link } = await createLink({ role: 'write' });
+
+    const response = await request(app)
+      .put(`/api/shared/${token}`)
+      .send({ content: 'Edited by a guest' })
+      .expect(200);
+
+    expect(response.body.data.note.content).toBe('Edited by a guest');
+
+    // The edit is traced to the link, not credited to the owner who made it
+    const versions = await request(app)
+      .get(`/api/notes/${noteId}/versions`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(versions.body.data.versions).toEqual([
+      expect.objectContaining({ content: 'Hello', modifiedBy: null, shareLink: link._id }),
+    ]);
+  });
+
+  it('should enforce the password and view limit', async () => {
+    const { token } = await createLink({ password: 'secret', maxViews: 1 });
+
+    await request(app).get(`/api/shared/${token}`).expect(401);
+    await request(app).get(`/api/shared/${token}`).set('X-Share-Password', 'wrong').expect(401);
+    await request(app).get(`/api/shared/${token}`).set('X-Share-Password', 'secret').expect(200);
+    await request(app).get(`/api/shared/${token}`).set('X-Share-Password', 'secret').expect(410);
+  });
+
+  it('should list and revoke links', async () => {
+    const { token, link } = await createLink({ role: 'write' });
+
+    const list = await request(app)
+      .get(`/api/notes/${noteId}/share-links`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(list.body.data.links).toHaveLength(1);
+
+    await request(app)
+      .delete(`/api/notes/${noteId}/share-links/${link._id}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    await request(app).get(`/api/shared/${token}`).expect(404);
+  });
+
+  it('should reject expired links', async () => {
+    const { token } = await createLink({ expiresAt: new Date(Date.now() + 1000).toISOString() });
+
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+
+    await request(app).get(`/api/shared/${token}`).expect(410);
+  });
+});
\ No newline at end of file
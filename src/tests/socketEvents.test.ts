@@ -0,0 +1,125 @@
+import { createError } from '../middleware/errorHandler';
+import { validateSocketPayload } from '../middleware/validation';
+import { handleEvent } from '../sockets/socketHandler';
+
+describe('Socket events', () => {
+  const noteId = '507f1f77bcf86cd799439011';
+
+  describe('payload validation', () => {
+    it('should accept a bare note ID from older clients', () => {
+      expect(validateSocketPayload('join-note', noteId)).toEqual({ value: { noteId } });
+      expect(validateSocketPayload('join-note', { noteId })).toEqual({ value: { noteId } });
+      expect(validateSocketPayload('leave-note', 'not-an-id').error).toBeDefined();
+    });
+
+    it('should reject malformed payloads', () => {
+      expect(
+        validateSocketPayload('note-update', { noteId, revision: 3, operation: [2, 'a', -1] }).error
+      ).toBeUndefined();
+      expect(
+        validateSocketPayload('note-update', { noteId, revision: -1, operation: [] }).error
+      ).toMatch(/^Validation Error: "revision"/);
+      expect(
+        validateSocketPayload('note-update', { noteId, revision: 0, operation: [{}] }).error
+      ).toBeDefined();
+      expect(validateSocketPayload('cursor-update', undefined).error).toBeDefined();
+      expect(
+        validateSocketPayload('cursor-update', {
+          noteId,
+          position: 4,
+          selection: { start: 4, end: 2 },
+        }).error
+      ).toBeDefined();
+      expect(
+        validateSocketPayload('viewport-update', { noteId, from: 10, to: 5 }).error
+      ).toBeDefined();
+      expect(validateSocketPayload('typing-start', { noteId, extra: true }).error).toBeDefined();
+      expect(validateSocketPayload('unfollow-user', undefined).error).toBeUndefined();
+    });
+  });
+
+  describe('handleEvent', () => {
+    // Just enough of a socket to register a listener and see what it emits
+    const fakeSocket = () => {
+      const listeners = new Map<string, (...args: unknown[]) => Promise<void>>();
+      const socket = {
+        on: (event: string, listener: (...args: unknown[]) => Promise<void>) => {
+          listeners.set(event, listener);
+        },
+        emit: jest.fn(),
+      };
+      const send = (event: string, ...args: unknown[]) => listeners.get(event)!(...args);
+      return {
+        socket: socket as unknown as Parameters<typeof handleEvent>[0],
+        emit: socket.emit,
+        send,
+      };
+    };
+
+    it('should answer with the handler result through the ack', async () => {
+      const { socket, send } = fakeSocket();
+      const handler = jest.fn(async () => ({ noteId, revision: 4 }));
+      handleEvent(socket, 'note-update', handler);
+
+      const ack = jest.fn();
+      await send('note-update', { noteId, revision: 3, operation: ['a'] }, ack);
+      expect(handler).toHaveBeenCalledWith({ noteId, revision: 3, operation: ['a'] });
+      expect(ack).toHaveBeenCalledWith({ ok: true, data: { noteId, revision: 4 } });
+
+      // Events without a result answer with null
+      handleEvent(socket, 'unfollow-user', () => undefined);
+      const unfollowAck = jest.fn();
+      await send('unfollow-user', unfollowAck);
+      expect(unfollowAck).toHaveBeenCalledWith({ ok: true, data: null });
+    });
+
+    it('should map failures to error codes', async () => {
+      const { socket, send } = fakeSocket();
+      const handler = jest.fn(async () => {
+        throw createError('Revision is too old, please reload the note', 409);
+      });
+      handleEvent(socket, 'note-update', handler);
+
+      const ack = jest.fn();
+      await send('note-update', { noteId, revision: 'latest', operation: [] }, ack);
+      expect(handler).not.toHaveBeenCalled();
+      expect(ack).toHaveBeenCalledWith({
+        ok: false,
+        error: { code: 'VALIDATION_ERROR', message: expect.stringMatching(/"revision"/) },
+      });
+
+      await send('note-update', { noteId, revision: 1, operation: [] }, ack);
+      expect(ack).toHaveBeenLastCalledWith({
+        ok: false,
+        error: { code: 'CONFLICT', message: 'Revision is too old, please reload the note' },
+      });
+
+      // Unexpected errors do not leak their message
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      handleEvent(socket, 'typing-start', () => {
+        throw new Error('connection reset');
+      });
+      await send('typing-start', { noteId }, ack);
+      expect(ack).toHaveBeenLastCalledWith({
+        ok: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Internal Server Error' },
+      });
+      consoleError.mockRestore();
+    });
+
+    it('should emit an error event to clients that passed no ack', async () => {
+      const { socket, emit, send } = fakeSocket();
+      handleEvent(socket, 'join-note', async () => {
+        throw createError('Access denied to this note', 403);
+      });
+
+      await send('join-note', noteId);
+      expect(emit).toHaveBeenCalledWith('error', {
+        event: 'join-note',
+        code: 'ACCESS_DENIED',
+        message: 'Access denied to this note',
+        noteId,
+      });
+    });
+  });
+});
\ No newline at end of file
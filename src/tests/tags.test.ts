@@ -0,0 +1,157 @@
+import request from 'supertest';
+import { app } from '../index';
+import User from '../models/User';
+import Note from '../models/Note';
+
+describe('Tags', () => {
+  let ownerToken: string;
+  let ownerId: string;
+  let collaboratorToken: string;
+  let collaboratorId: string;
+
+  beforeEach(async () => {
+    await new User({
+      username: 'owner',
+      email: 'owner@example.com',
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+    await new User({
+      username: 'collaborator',
+      email: 'collaborator@example.com',
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+
+    const ownerLogin = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'owner@example.com', password: 'password123' });
+    const collaboratorLogin = await request(app)
+      .post('/api/auth/login')
+      .send({ email: 'collaborator@example.com', password: 'password123' });
+
+    ownerToken = ownerLogin.body.data.token;
+    ownerId = ownerLogin.body.data.user.id;
+    collaboratorToken = collaboratorLogin.body.data.token;
+    collaboratorId = collaboratorLogin.body.data.user.id;
+  });
+
+  const createNote = async (title: string, tags: string[]) => {
+    const response = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ title, content: 'Content', tags })
+      .expect(201);
+    return response.body.data.note;
+  };
+
+  it('should normalize tags when creating a note', async () => {
+    const note = await createNote('Tagged', [' Work ', 'work', 'Ideas']);
+
+    expect(note.tags).toEqual(['work', 'ideas']);
+  });
+
+  it('should filter notes by all or any of the tags', async () => {
+    await createNote('Both', ['work', 'urgent']);
+    await createNote('Work only', ['work']);
+    await createNote('Untagged', []);
+
+    const all = await request(app)
+      .get('/api/notes?tags=work,urgent')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(all.body.data.notes.map((n: { title: string }) => n.title)).toEqual(['Both']);
+
+    const any = await request(app)
+      .get('/api/notes?tags=work,urgent&match=any')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(any.body.data.pagination.total).toBe(2);
+  });
+
+  it('should keep personal tags private to the collaborator', async () => {
+    const note = await createNote('Shared', ['team']);
+    await Note.updateOne(
+      { _id: note._id },
+      { $push: { collaborators: { user: collaboratorId, role: 'read' } } }
+    );
+
+    const response = await request(app)
+      .put(`/api/notes/${note._id}/tags`)
+      .set('Authorization', `Bearer ${collaboratorToken}`)
+      .send({ tags: ['Later'] })
+      .expect(200);
+
+    expect(response.body.data.note.tags).toEqual(['team']);
+    expect(response.body.data.note.personalTags).toEqual(['later']);
+
+    const filtered = await request(app)
+      .get('/api/notes?tags=later')
+      .set('Authorization', `Bearer ${collaboratorToken}`)
+      .expect(200);
+    expect(filtered.body.data.notes).toHaveLength(1);
+
+    const ownerView = await request(app)
+      .get(`/api/notes/${note._id}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(ownerView.body.data.note.personalTags).toEqual([]);
+    expect(ownerView.body.data.note.owner._id).toBe(ownerId);
+  });
+
+  it('should list tags with counts and suggest by prefix', async () => {
+    await createNote('One', ['work', 'writing']);
+    await createNote('Two', ['work']);
+
+    const list = await request(app)
+      .get('/api/tags')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(list.body.data.tags).toEqual([
+      { name: 'work', count: 2 },
+      { name: 'writing', count: 1 },
+    ]);
+
+    const suggestions = await request(app)
+      .get('/api/tags/autocomplete?q=wr')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(suggestions.body.data.tags).toEqual([{ name: 'writing', count: 1 }]);
+
+    // Out of range limits are clamped rather than reaching the aggregation
+    const clamped = await request(app)
+      .get('/api/tags/autocomplete?q=wr&limit=-5')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(clamped.body.data.tags).toHaveLength(1);
+  });
+
+  it('should rename, merge and delete tags across notes', async () => {
+    await createNote('One', ['todo', 'work']);
+    await createNote('Two', ['tasks']);
+
+    await request(app)
+      .put('/api/tags/todo')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ name: 'tasks' })
+      .expect(200);
+
+    await request(app)
+      .post('/api/tags/merge')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ tags: ['work'], into: 'tasks' })
+      .expect(200);
+
+    let list = await request(app).get('/api/tags').set('Authorization', `Bearer ${ownerToken}`);
+    expect(list.body.data.tags).toEqual([{ name: 'tasks', count: 2 }]);
+
+    const response = await request(app)
+      .delete('/api/tags/tasks')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(response.body.data.modified).toBe(2);
+
+    list = await request(app).get('/api/tags').set('Authorization', `Bearer ${ownerToken}`);
+    expect(list.body.data.tags).toEqual([]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,162 @@
+import request from 'supertest';
+import { app } from '../index';
+import User from '../models/User';
+import Note from '../models/Note';
+import Folder from '../models/Folder';
+import NoteVersion from '../models/NoteVersion';
+import { config } from '../config/config';
+import { purgeExpired } from '../services/trashService';
+import { getOperationLog } from '../services/operationLogService';
+import { getPresence } from '../services/presenceService';
+
+describe('Trash', () => {
+  let ownerToken: string;
+  let memberToken: string;
+  let noteId: string;
+
+  const login = async (username: string, email: string) => {
+    const user = await new User({
+      username,
+      email,
+      password: 'password123',
+      emailVerified: true,
+    }).save();
+    const response = await request(app)
+      .post('/api/auth/login')
+      .send({ email, password: 'password123' });
+    return { token: response.body.data.token as string, id: user._id };
+  };
+
+  beforeEach(async () => {
+    ownerToken = (await login('owner', 'owner@example.com')).token;
+    const member = await login('member', 'member@example.com');
+    memberToken = member.token;
+
+    const note = await request(app)
+      .post('/api/notes')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ title: 'Plan', content: 'Draft' });
+    noteId = note.body.data.note._id;
+
+    await Note.updateOne(
+      { _id: noteId },
+      { $push: { collaborators: { user: member.id, role: 'write' } } }
+    );
+  });
+
+  const trash = (token = ownerToken) => {
+    return request(app).delete(`/api/notes/${noteId}`).set('Authorization', `Bearer ${token}`);
+  };
+
+  it('should hide trashed notes from everyone', async () => {
+    await trash().expect(200);
+
+    const list = await request(app)
+      .get('/api/notes')
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+    expect(list.body.data.notes).toHaveLength(0);
+
+    const search = await request(app)
+      .get('/api/notes?search=Draft')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(search.body.data.notes).toHaveLength(0);
+
+    await request(app)
+      .get(`/api/notes/${noteId}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(404);
+  });
+
+  it('should list and restore trashed notes for the owner', async () => {
+    await trash().expect(200);
+
+    const response = await request(app)
+      .get('/api/notes/trash')
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(response.body.data.notes).toHaveLength(1);
+    expect(response.body.data.notes[0].purgeAt).toBeDefined();
+
+    // Collaborators have no trash of their own for it
+    await request(app)
+      .post(`/api/notes/trash/${noteId}/restore`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(404);
+
+    await request(app)
+      .post(`/api/notes/trash/${noteId}/restore`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    await request(app)
+      .get(`/api/notes/${noteId}`)
+      .set('Authorization', `Bearer ${memberToken}`)
+      .expect(200);
+  });
+
+  it('should save live edits of every instance and empty the room', async () => {
+    // Edited and joined on another instance, nothing saved yet
+    await getOperationLog().append(noteId, { revision: 1, operation: [5, ' v2'] });
+    await getPresence().add({
+      noteId,
+      userId: 'someone',
+      username: 'someone',
+      socketId: 'socket-on-b',
+      instanceId: 'instance-b',
+      status: 'active',
+      typing: false,
+    });
+
+    await trash().expect(200);
+
+    const note = await Note.findOne({ _id: noteId, deletedAt: { $ne: null } });
+    expect(note?.content).toBe('Draft v2');
+    expect(note?.revision).toBe(1);
+    expect(await getPresence().list(noteId)).toEqual([]);
+  });
+
+  it('should restore notes of a deleted folder at the top level', async () => {
+    const folder = await Folder.create({
+      name: 'Work',
+      owner: (await Note.findById(noteId))!.owner,
+    });
+    await Note.updateOne({ _id: noteId }, { folder: folder._id });
+
+    await trash().expect(200);
+    await Folder.deleteOne({ _id: folder._id });
+
+    const response = await request(app)
+      .post(`/api/notes/trash/${noteId}/restore`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+    expect(response.body.data.note.folder).toBeNull();
+  });
+
+  it('should delete trashed notes permanently', async () => {
+    await request(app)
+      .put(`/api/notes/${noteId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ content: 'Edited' });
+    await trash().expect(200);
+
+    await request(app)
+      .delete(`/api/notes/trash/${noteId}`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .expect(200);
+
+    expect(await Note.countDocuments({ _id: noteId, deletedAt: { $exists: true } })).toBe(0);
+    expect(await NoteVersion.countDocuments({ note: noteId })).toBe(0);
+  });
+
+  it('should purge notes once the retention period is over', async () => {
+    await trash().expect(200);
+
+    expect(await purgeExpired()).toBe(0);
+
+    const later = new Date(Date.now() + (config.trash.retentionDays + 1) * 24 * 60 * 60 * 1000);
+    expect(await purgeExpired(later)).toBe(1);
+    expect(await Note.countDocuments({ _id: noteId, deletedAt: { $exists: true } })).toBe(0);
+  });
+});
\ No newline at end of file
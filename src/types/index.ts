@@ -3,6 +3,8 @@ export interface User {
   username: string;
   email: string;
   password: string;
+  emailVerified: boolean;
+  storageUsed: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -11,29 +13,72 @@ export interface Note {
   _id: string;
   title: string;
   content: string;
+  format: NoteFormat;
   owner: string;
   collaborators: Collaborator[];
-  versions: NoteVersion[];
+  tags: string[];
+  personalTags?: string[];
+  revision: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Roles a collaborator can hold, weakest first; the owner sits above them all
+export type Role = 'read' | 'comment' | 'write' | 'admin';
+
+// What a role allows on a note; 'share' covers collaborators, invitations and share links
+export type Capability = 'read' | 'comment' | 'write' | 'share' | 'delete';
+
+// How a note's content is written; rich text is a JSON document of RichTextNodes
+export type NoteFormat = 'plain' | 'markdown' | 'richtext-json';
+
+export interface RichTextMark {
+  type: 'bold' | 'italic' | 'underline' | 'strike' | 'code' | 'link';
+  attrs?: Record<string, unknown>;
+}
+
+export interface RichTextNode {
+  type: string;
+  attrs?: Record<string, unknown>;
+  content?: RichTextNode[];
+  text?: string;
+  marks?: RichTextMark[];
+}
+
 export interface Collaborator {
   user: string;
-  role: 'read' | 'write';
+  role: Role;
   addedAt: Date;
 }
 
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
 export interface NoteVersion {
+  _id: string;
+  seq: number;
+  title: string;
   content: string;
+  format: NoteFormat;
   modifiedBy: string;
   modifiedAt: Date;
+  label?: string;
 }
 
 export interface AuthPayload {
   userId: string;
   username: string;
   email: string;
+  sessionId: string;
+}
+
+// Who made an edit: a user, or an anonymous share link holder with no user ID
+export interface NoteEditor {
+  userId: string | null;
+  username: string;
+  shareLink?: string;
 }
 
 export interface SocketUser {
@@ -42,15 +87,36 @@ export interface SocketUser {
   socketId: string;
 }
 
-export interface NoteRoom {
-  noteId: string;
-  users: SocketUser[];
+// idle: connected without doing anything for a while; away: the client stopped sending heartbeats
+export type PresenceStatus = 'active' | 'idle' | 'away';
+
+// A user in a note room, however many tabs and devices they have it open on
+export interface ActiveUser {
+  userId: string;
+  username: string;
+  connections: number;
+  color: string;
+  // The liveliest of their connections
+  status: PresenceStatus;
+  typing: boolean;
+}
+
+// ot.js style: retain (n > 0), delete (n < 0) or insert (string)
+export type OpComponent = number | string;
+export type TextOperation = OpComponent[];
+
+// Who did something, as sent in socket events
+export interface UserRef {
+  userId: string;
+  username: string;
 }
 
 export interface NoteUpdateEvent {
   noteId: string;
-  content: string;
-  modifiedBy: string;
+  revision: number;
+  operation: TextOperation;
+  title?: string;
+  modifiedBy: UserRef;
   timestamp: Date;
 }
 
@@ -62,4 +128,154 @@ export interface CollaboratorJoinEvent {
 export interface CollaboratorLeaveEvent {
   noteId: string;
   userId: string;
+}
+
+// Socket.io event contracts. Payloads from clients are validated against the
+// schemas in middleware/validation.ts before they reach a handler.
+
+export type SocketErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'INVALID_REQUEST'
+  | 'ACCESS_DENIED'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'INTERNAL_ERROR';
+
+export interface SocketError {
+  code: SocketErrorCode;
+  message: string;
+}
+
+// What a client gets back when it passes a callback as the last argument of an event
+export type SocketAck<T = null> = { ok: true; data: T } | { ok: false; error: SocketError };
+
+export type AckCallback<T = null> = (response: SocketAck<T>) => void;
+
+// Sent as the 'error' event when a failed event had no callback
+export interface SocketErrorEvent extends SocketError {
+  event: string;
+  noteId?: string;
+}
+
+export interface NoteRef {
+  noteId: string;
+}
+
+export interface NoteUpdatePayload {
+  noteId: string;
+  revision: number;
+  operation: TextOperation;
+  title?: string;
+}
+
+export interface TextSelection {
+  start: number;
+  end: number;
+}
+
+export interface CursorUpdatePayload {
+  noteId: string;
+  position: number;
+  selection?: TextSelection;
+}
+
+export interface PresenceHeartbeatPayload {
+  noteId: string;
+  // The user did something since the last heartbeat
+  active?: boolean;
+}
+
+export interface FollowUserPayload {
+  noteId: string;
+  userId: string;
+}
+
+export interface ViewportUpdatePayload {
+  noteId: string;
+  from: number;
+  to: number;
+}
+
+export interface JoinedNote {
+  noteId: string;
+  title: string;
+  content: string;
+  format: NoteFormat;
+  revision: number;
+  activeUsers: ActiveUser[];
+}
+
+export interface NoteUpdateAck {
+  noteId: string;
+  revision: number;
+}
+
+export interface ClientToServerEvents {
+  // A bare note ID is still accepted from older clients
+  'join-note': (payload: NoteRef | string, ack?: AckCallback<JoinedNote>) => void;
+  'leave-note': (payload: NoteRef | string, ack?: AckCallback) => void;
+  'note-update': (payload: NoteUpdatePayload, ack?: AckCallback<NoteUpdateAck>) => void;
+  'cursor-update': (payload: CursorUpdatePayload, ack?: AckCallback) => void;
+  'typing-start': (payload: NoteRef, ack?: AckCallback) => void;
+  'typing-stop': (payload: NoteRef, ack?: AckCallback) => void;
+  'presence-heartbeat': (payload: PresenceHeartbeatPayload, ack?: AckCallback) => void;
+  'follow-user': (payload: FollowUserPayload, ack?: AckCallback) => void;
+  'unfollow-user': (ack?: AckCallback) => void;
+  'viewport-update': (payload: ViewportUpdatePayload, ack?: AckCallback) => void;
+}
+
+// Documents (comments, attachments, notifications) are sent as the REST API returns them
+export interface ServerToClientEvents {
+  error: (payload: SocketErrorEvent) => void;
+  'joined-note': (payload: JoinedNote) => void;
+  'user-joined': (payload: { user: UserRef; activeUsers: ActiveUser[] }) => void;
+  'user-left': (payload: { userId: string; activeUsers: ActiveUser[] }) => void;
+  'active-users-updated': (payload: { noteId: string; activeUsers: ActiveUser[] }) => void;
+  'presence-updated': (payload: { noteId: string; user: ActiveUser }) => void;
+  'note-update-ack': (payload: NoteUpdateAck) => void;
+  'note-updated': (payload: NoteUpdateEvent) => void;
+  'note-format-updated': (payload: {
+    noteId: string;
+    format: NoteFormat;
+    modifiedBy: UserRef;
+  }) => void;
+  'note-owner-changed': (payload: { noteId: string; owner: object }) => void;
+  'note-saved': (payload: { noteId: string; revision: number; savedAt: Date }) => void;
+  'note-deleted': (payload: { noteId: string; deletedBy: UserRef }) => void;
+  'cursor-updated': (payload: {
+    user: UserRef;
+    position: number;
+    selection?: TextSelection;
+  }) => void;
+  'viewport-updated': (payload: {
+    noteId: string;
+    user: UserRef;
+    from: number;
+    to: number;
+  }) => void;
+  'comment-added': (payload: { noteId: string; comment: object }) => void;
+  'comment-updated': (payload: { noteId: string; comment: object }) => void;
+  'comment-deleted': (payload: {
+    noteId: string;
+    commentId: string;
+    parent: string | null;
+  }) => void;
+  'comment-resolved': (payload: {
+    noteId: string;
+    commentId: string;
+    resolvedBy: UserRef;
+    resolvedAt?: Date;
+  }) => void;
+  'comment-reopened': (payload: { noteId: string; commentId: string; reopenedBy: UserRef }) => void;
+  'attachment-added': (payload: { noteId: string; attachment: object }) => void;
+  'attachment-deleted': (payload: { noteId: string; attachmentId: string }) => void;
+  notification: (payload: { notification: object; unreadCount: number }) => void;
+  'notifications-read': (payload: { ids: string[] | 'all'; unreadCount: number }) => void;
+  'export-finished': (payload: { exportId: string; status: 'completed' | 'failed' }) => void;
+  'import-finished': (payload: {
+    importId: string;
+    status?: 'pending' | 'running' | 'completed' | 'failed';
+    imported?: number;
+    failed?: number;
+  }) => void;
 }
\ No newline at end of file
@@ -0,0 +1,202 @@
+import { marked } from 'marked';
+import sanitizeHtml from 'sanitize-html';
+import { NoteFormat, RichTextMark, RichTextNode } from '@/types';
+
+export const NOTE_FORMATS: NoteFormat[] = ['plain', 'markdown', 'richtext-json'];
+
+// Everything a rendered note may contain; links and images only point to the web
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [...sanitizeHtml.defaults.allowedTags, 'h1', 'h2', 'img', 'input', 'del', 'u'],
+  allowedAttributes: {
+    a: ['href', 'title', 'rel'],
+    img: ['src', 'alt', 'title'],
+    ol: ['start'],
+    ul: ['data-type'],
+    li: ['data-checked'],
+    code: ['class'],
+    input: ['type', 'checked', 'disabled'],
+    th: ['align'],
+    td: ['align'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowedSchemesByTag: { img: ['http', 'https'] },
+  allowedClasses: { code: [/^language-[\w-]+$/] },
+  transformTags: {
+    a: sanitizeHtml.simpleTransform('a', { rel: 'noopener noreferrer nofollow' }),
+  },
+};
+
+export const escapeHtml = (text: string): string => {
+  const entities: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+  };
+  return text.replace(/[&<>"']/g, (char) => entities[char]);
+};
+
+const decodeEntities = (text: string): string => {
+  const named: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+  };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return named[code.toLowerCase()] ?? entity;
+    const point =
+      code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+    return point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+  });
+};
+
+// Keeps the text and line structure of an HTML fragment
+export const htmlToText = (html: string): string => {
+  const text = html
+    .replace(/<\?xml[\s\S]*?\?>|<!DOCTYPE[\s\S]*?>/gi, '')
+    .replace(/<(br|hr)\b[^>]*>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '- ')
+    .replace(/<\/(p|div|h[1-6]|li|tr|blockquote|pre)>/gi, '\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// The document in rich text content, or null when it is not one (e.g. halfway through a live edit)
+export const parseRichText = (content: string): RichTextNode | null => {
+  try {
+    const document = JSON.parse(content);
+    const isDocument = document?.type === 'doc' && Array.isArray(document.content ?? []);
+    return isDocument ? document : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Block nodes end a line of plain text, everything else is inline
+const INLINE_NODES = ['text', 'hardBreak'];
+
+const richTextToText = (node: RichTextNode): string => {
+  if (node.type === 'text') return node.text ?? '';
+  if (node.type === 'hardBreak') return '\n';
+
+  const children = node.content ?? [];
+  const inline = children.every((child) => INLINE_NODES.includes(child.type));
+  return children.map(richTextToText).join(inline ? '' : '\n');
+};
+
+const BLOCK_TAGS: Record<string, string> = {
+  paragraph: 'p',
+  blockquote: 'blockquote',
+  bulletList: 'ul',
+  orderedList: 'ol',
+  listItem: 'li',
+  taskList: 'ul',
+  taskItem: 'li',
+};
+
+const MARK_TAGS: Record<Exclude<RichTextMark['type'], 'link'>, string> = {
+  bold: 'strong',
+  italic: 'em',
+  underline: 'u',
+  strike: 's',
+  code: 'code',
+};
+
+const markText = (text: string, marks: RichTextMark[] = []): string => {
+  return marks.reduce((html, mark) => {
+    if (mark.type === 'link') {
+      const href = escapeHtml(String(mark.attrs?.href ?? ''));
+      return `<a href="${href}">${html}</a>`;
+    }
+    const tag = MARK_TAGS[mark.type];
+    return tag ? `<${tag}>${html}</${tag}>` : html;
+  }, escapeHtml(text));
+};
+
+const richTextToHtml = (node: RichTextNode): string => {
+  const attrs = node.attrs ?? {};
+  const inner = () => (node.content ?? []).map(richTextToHtml).join('');
+
+  switch (node.type) {
+    case 'doc':
+      return inner();
+    case 'text':
+      return markText(node.text ?? '', node.marks);
+    case 'hardBreak':
+      return '<br>';
+    case 'horizontalRule':
+      return '<hr>';
+    case 'heading': {
+      const level = Math.min(Math.max(Number(attrs.level) || 1, 1), 6);
+      return `<h${level}>${inner()}</h${level}>`;
+    }
+    case 'codeBlock': {
+      const language = typeof attrs.language === 'string' ? attrs.language : '';
+      const className = language ? ` class="language-${escapeHtml(language)}"` : '';
+      return `<pre><code${className}>${escapeHtml(richTextToText(node))}</code></pre>`;
+    }
+    case 'orderedList': {
+      const start = Number(attrs.start) > 1 ? ` start="${Number(attrs.start)}"` : '';
+      return `<ol${start}>${inner()}</ol>`;
+    }
+    case 'taskList':
+      return `<ul data-type="taskList">${inner()}</ul>`;
+    case 'taskItem':
+      return `<li data-checked="${attrs.checked === true}">${inner()}</li>`;
+    default: {
+      const tag = BLOCK_TAGS[node.type];
+      return tag ? `<${tag}>${inner()}</${tag}>` : inner();
+    }
+  }
+};
+
+// Paragraphs are separated by blank lines, single line breaks are kept
+const plainToHtml = (content: string): string => {
+  return content
+    .split(/\r?\n\s*\r?\n/)
+    .filter((paragraph) => paragraph.trim())
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\r?\n/g, '<br>')}</p>`)
+    .join('\n');
+};
+
+const markdownToHtml = (content: string): string => {
+  return marked.parse(content, { async: false, gfm: true }) as string;
+};
+
+/**
+ * Renders note content as HTML that is safe to insert into a page. Rich text
+ * that does not parse is shown as plain text.
+ */
+export const renderHtml = (content: string, format: NoteFormat): string => {
+  let html: string;
+  if (format === 'markdown') {
+    html = markdownToHtml(content);
+  } else if (format === 'richtext-json') {
+    const document = parseRichText(content);
+    html = document ? richTextToHtml(document) : plainToHtml(content);
+  } else {
+    html = plainToHtml(content);
+  }
+  return sanitizeHtml(html, SANITIZE_OPTIONS);
+};
+
+// The words of a note without markup, what search indexes
+export const toPlainText = (content: string, format: NoteFormat): string => {
+  if (format === 'markdown') {
+    // Sanitized first, so the text of embedded scripts and styles is left out
+    return htmlToText(renderHtml(content, format));
+  }
+  if (format === 'richtext-json') {
+    const document = parseRichText(content);
+    return document ? richTextToText(document).trim() : content;
+  }
+  return content;
+};
\ No newline at end of file
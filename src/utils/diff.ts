@@ -0,0 +1,134 @@
+export type DiffMode = 'line' | 'word';
+
+export interface DiffChange {
+  type: 'equal' | 'insert' | 'delete';
+  value: string;
+}
+
+// Splits text into lines (keeping line breaks) or words (keeping whitespace runs)
+const tokenize = (text: string, mode: DiffMode): string[] => {
+  if (text === '') return [];
+  const pattern = mode === 'line' ? /[^\n]*\n|[^\n]+$/g : /\s+|[^\s]+/g;
+  return text.match(pattern) ?? [];
+};
+
+const pushChange = (changes: DiffChange[], type: DiffChange['type'], value: string): void => {
+  if (value === '') return;
+  const last = changes[changes.length - 1];
+  if (last && last.type === type) {
+    last.value += value;
+  } else {
+    changes.push({ type, value });
+  }
+};
+
+// Beyond this many edits the changed region is reported as one replacement
+const MAX_EDIT_DISTANCE = 1000;
+
+// Myers diff on token lists, returning one change per token
+const myers = (a: string[], b: string[]): DiffChange[] => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  // trace[d] holds diagonals -d..d of the furthest reaching paths before step d
+  const trace: number[][] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    if (d > MAX_EDIT_DISTANCE) {
+      return [
+        { type: 'delete', value: a.join('') },
+        { type: 'insert', value: b.join('') },
+      ];
+    }
+
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Backtrack from the end to recover the edit script
+  const reversed: DiffChange[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && snapshot[d + k - 1] < snapshot[d + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : snapshot[d + prevK];
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      reversed.push({ type: 'equal', value: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        reversed.push({ type: 'insert', value: b[--y] });
+      } else {
+        reversed.push({ type: 'delete', value: a[--x] });
+      }
+    }
+  }
+
+  return reversed.reverse();
+};
+
+/**
+ * Diffs two texts token by token. The common start and end are skipped
+ * before the Myers search, and consecutive tokens of the same kind are
+ * merged into one change.
+ */
+export const diffText = (from: string, to: string, mode: DiffMode = 'line'): DiffChange[] => {
+  const a = tokenize(from, mode);
+  const b = tokenize(to, mode);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let end = 0;
+  while (
+    end < a.length - start &&
+    end < b.length - start &&
+    a[a.length - 1 - end] === b[b.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const changes: DiffChange[] = [];
+  pushChange(changes, 'equal', a.slice(0, start).join(''));
+  for (const change of myers(a.slice(start, a.length - end), b.slice(start, b.length - end))) {
+    pushChange(changes, change.type, change.value);
+  }
+  pushChange(changes, 'equal', a.slice(a.length - end).join(''));
+  return changes;
+};
+
+// Characters added and removed
+export const summarizeDiff = (changes: DiffChange[]) => {
+  return changes.reduce(
+    (stats, change) => {
+      if (change.type === 'insert') stats.additions += change.value.length;
+      if (change.type === 'delete') stats.deletions += change.value.length;
+      return stats;
+    },
+    { additions: 0, deletions: 0 }
+  );
+};
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { Role, Capability } from '@/types';
+
+export const ROLES: Role[] = ['read', 'comment', 'write', 'admin'];
+
+// Roles share links can grant, managing the note is never handed out by link
+export const LINK_ROLES: Role[] = ['read', 'comment', 'write'];
+
+const CAPABILITIES: Record<Role | 'owner', Capability[]> = {
+  read: ['read'],
+  comment: ['read', 'comment'],
+  write: ['read', 'comment', 'write'],
+  admin: ['read', 'comment', 'write', 'share'],
+  owner: ['read', 'comment', 'write', 'share', 'delete'],
+};
+
+export const can = (role: Role | 'owner' | null | undefined, capability: Capability): boolean => {
+  return role ? CAPABILITIES[role].includes(capability) : false;
+};
+
+// The strongest of several grants, e.g. a direct one and one inherited from a folder
+export const strongestRole = (...roles: (Role | null | undefined)[]): Role | null => {
+  return roles.reduce<Role | null>((best, role) => {
+    if (!role) return best;
+    return !best || ROLES.indexOf(role) > ROLES.indexOf(best) ? role : best;
+  }, null);
+};
\ No newline at end of file
@@ -0,0 +1,58 @@
+import mongoose from 'mongoose';
+import { createError } from '@/middleware/errorHandler';
+import { ROLES } from '@/utils/permissions';
+import { Role } from '@/types';
+
+/**
+ * Parsing of the query string filters that note listing, search and the
+ * activity log share, so they accept and reject the same values.
+ */
+
+type Query = Record<string, unknown>;
+
+// Filters on who owns a note, the caller's role on it and its dates
+export interface NoteQueryFilters {
+  owner?: string;
+  role?: Role | 'owner';
+  dateField: 'createdAt' | 'updatedAt';
+  from?: Date;
+  to?: Date;
+}
+
+export const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const parseDate = (value: unknown, name: string): Date | undefined => {
+  if (value === undefined) return undefined;
+
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw createError(`${name} must be a date`, 400);
+  }
+  return date;
+};
+
+// ?owner=me|<userId>&role=<role>&date=created|updated&from=<date>&to=<date>
+export const parseNoteQueryFilters = (query: Query, userId: string): NoteQueryFilters => {
+  const { owner, role, date = 'updated', from, to } = query;
+
+  if (owner !== undefined && owner !== 'me' && !mongoose.Types.ObjectId.isValid(String(owner))) {
+    throw createError('owner must be "me" or a user ID', 400);
+  }
+
+  const roles = ['owner', ...ROLES];
+  if (role !== undefined && !roles.includes(String(role))) {
+    throw createError(`role must be one of ${roles.join(', ')}`, 400);
+  }
+
+  if (date !== 'created' && date !== 'updated') {
+    throw createError('date must be "created" or "updated"', 400);
+  }
+
+  return {
+    owner: owner === undefined ? undefined : owner === 'me' ? userId : String(owner),
+    role: role as Role | 'owner' | undefined,
+    dateField: date === 'created' ? 'createdAt' : 'updatedAt',
+    from: parseDate(from, 'from'),
+    to: parseDate(to, 'to'),
+  };
+};
\ No newline at end of file